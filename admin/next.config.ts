@@ -3,6 +3,10 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: true,
+  // Native canvas binding used by server-side poster rendering
+  serverExternalPackages: ["@napi-rs/canvas"],
+  // Poster fonts are read from disk by the server renderer
+  outputFileTracingIncludes: { "/api/**": ["./public/fonts/**"] },
 };
 
 export default nextConfig;
@@ -0,0 +1,160 @@
+import Link from "next/link";
+import { useState } from "react";
+import Sparkline from "@/components/analytics/Sparkline";
+import type { OrganizerOverview as Overview, OverviewEvent } from "@/lib/analytics/overview";
+
+type Props = {
+  overview: Overview | null;
+  loading: boolean;
+  error: string | null;
+};
+
+const TOP_EVENTS = 5;
+
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function eventTitle(e: OverviewEvent) {
+  return e.name || e.eventCode || "Untitled Event";
+}
+
+const COMPARE_ROWS: { label: string; value: (e: OverviewEvent) => number | string }[] = [
+  { label: "Posters (all time)", value: (e) => e.totalDownloads },
+  { label: "Posters (range)", value: (e) => e.rangeDownloads },
+  { label: "Opened page", value: (e) => e.funnel.page_view },
+  { label: "Chose a photo", value: (e) => e.funnel.photo_chosen },
+  { label: "Downloaded", value: (e) => e.funnel.downloaded },
+  { label: "Shared", value: (e) => e.funnel.shared },
+  { label: "Conversion", value: (e) => percent(e.conversion) },
+];
+
+/** Dashboard header: totals across events, top events and a two-event comparison. */
+export default function OrganizerOverview({ overview, loading, error }: Props) {
+  // Empty ids fall back to the two most downloaded events
+  const [compareA, setCompareA] = useState("");
+  const [compareB, setCompareB] = useState("");
+
+  if (loading && !overview) {
+    return <div className="mt-6 text-sm text-white/60">Loading analytics…</div>;
+  }
+  if (error) {
+    return (
+      <div className="mt-6 text-sm text-red-300 rounded-xl border border-red-500/20 bg-red-500/10 p-3">
+        Analytics: {error}
+      </div>
+    );
+  }
+  if (!overview || overview.events.length === 0) return null;
+
+  const { totals, events, range } = overview;
+  const top = events.slice(0, TOP_EVENTS);
+  const maxTop = Math.max(1, ...top.map((e) => e.totalDownloads));
+
+  const a = events.find((e) => e.eventId === compareA) ?? events[0];
+  const b = events.find((e) => e.eventId === compareB) ?? events.find((e) => e !== a) ?? null;
+
+  const stats = [
+    { label: "Events", value: `${totals.publishedEvents} / ${totals.events}`, hint: "published / total" },
+    { label: "Posters generated", value: totals.totalDownloads, hint: "all time" },
+    { label: "Posters in range", value: totals.rangeDownloads, hint: `${range.from} → ${range.to}` },
+    { label: "Visit → download", value: percent(totals.conversion), hint: `${totals.visits} visits` },
+  ];
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {stats.map((s) => (
+          <div key={s.label} className="rounded-2xl border border-white/10 bg-white/5 p-4">
+            <div className="text-xs text-white/60">{s.label}</div>
+            <div className="text-2xl font-black mt-1">{s.value}</div>
+            <div className="text-[11px] text-white/40 mt-1">{s.hint}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* top events */}
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+          <div className="text-sm font-semibold mb-3">Top events</div>
+          <div className="space-y-3">
+            {top.map((e) => (
+              <div key={e.eventId}>
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  {e.eventCode ? (
+                    <Link href={`/analytics/${encodeURIComponent(e.eventCode)}`} className="truncate hover:underline">
+                      {eventTitle(e)}
+                    </Link>
+                  ) : (
+                    <span className="truncate">{eventTitle(e)}</span>
+                  )}
+                  <span className="flex items-center gap-2 shrink-0">
+                    <Sparkline values={e.trend} className="w-16 h-4" />
+                    <span className="font-bold w-10 text-right">{e.totalDownloads}</span>
+                  </span>
+                </div>
+                <div className="mt-1 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-[var(--viro-primary)]"
+                    style={{ width: `${Math.round((100 * e.totalDownloads) / maxTop)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* comparison */}
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+          <div className="text-sm font-semibold mb-3">Compare events</div>
+          {b ? (
+            <table className="w-full text-xs table-fixed">
+              <thead>
+                <tr>
+                  <th className="w-1/3" />
+                  {[
+                    { current: a, set: setCompareA },
+                    { current: b, set: setCompareB },
+                  ].map(({ current, set }, i) => (
+                    <th key={i} className="font-normal pb-2 px-1">
+                      <select
+                        value={current.eventId}
+                        onChange={(ev) => set(ev.target.value)}
+                        className="viro-input text-xs w-full"
+                      >
+                        {events.map((e) => (
+                          <option key={e.eventId} value={e.eventId}>
+                            {eventTitle(e)}
+                          </option>
+                        ))}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td className="py-1.5 text-white/60">Trend</td>
+                  {[a, b].map((e) => (
+                    <td key={e.eventId} className="py-1.5 px-1">
+                      <Sparkline values={e.trend} className="w-full h-6" />
+                    </td>
+                  ))}
+                </tr>
+                {COMPARE_ROWS.map((row) => (
+                  <tr key={row.label} className="border-t border-white/5">
+                    <td className="py-1.5 text-white/60">{row.label}</td>
+                    <td className="py-1.5 px-1 text-right font-bold">{row.value(a)}</td>
+                    <td className="py-1.5 px-1 text-right font-bold">{row.value(b)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="text-xs text-white/60">Create a second event to compare them.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ReportLink } from "@/lib/analytics/reportLinks";
+
+type ListResp = { ok: true; links: ReportLink[] } | { ok: false; error: string; message?: string };
+type CreateResp = { ok: true; link: ReportLink } | { ok: false; error: string; message?: string };
+type RevokeResp = { ok: true; linkId: string } | { ok: false; error: string; message?: string };
+
+type Props = {
+  eventId: string;
+  eventCode: string;
+};
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: null, label: "Until revoked" },
+];
+
+function linkStatus(l: ReportLink) {
+  if (l.revokedAt) return "Revoked";
+  if (l.expiresAt && Date.parse(l.expiresAt) <= Date.now()) return "Expired";
+  return l.expiresAt ? `Expires ${l.expiresAt.slice(0, 10)}` : "Active";
+}
+
+/**
+ * Read-only report links for sponsors: create (optionally expiring), copy, revoke.
+ * Opening a link shows this analytics page without a login.
+ */
+export default function ReportLinksPanel({ eventId, eventCode }: Props) {
+  const [links, setLinks] = useState<ReportLink[]>([]);
+  const [label, setLabel] = useState("");
+  const [expiry, setExpiry] = useState<number | null>(30);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch(`/api/report-links?eventId=${encodeURIComponent(eventId)}`);
+      const data = (await r.json()) as ListResp;
+      if (!r.ok || !data.ok) {
+        setErr(!data.ok ? data.message || data.error : "Failed to load report links");
+        return;
+      }
+      setLinks(data.links);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Unknown error");
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const reportUrl = (token: string) =>
+    `${window.location.origin}/analytics/${encodeURIComponent(eventCode)}?report=${encodeURIComponent(token)}`;
+
+  const create = async () => {
+    setBusy(true);
+    setErr(null);
+    try {
+      const r = await fetch("/api/create-report-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventId, label: label.trim() || undefined, expiresInDays: expiry }),
+      });
+      const data = (await r.json()) as CreateResp;
+      if (!r.ok || !data.ok) {
+        setErr(!data.ok ? data.message || data.error : "Failed to create link");
+        return;
+      }
+      setLabel("");
+      setLinks((prev) => [data.link, ...prev]);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (linkId: string) => {
+    if (!window.confirm("Revoke this report link? Anyone using it will lose access.")) return;
+    setBusy(true);
+    setErr(null);
+    try {
+      const r = await fetch("/api/revoke-report-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ linkId }),
+      });
+      const data = (await r.json()) as RevokeResp;
+      if (!r.ok || !data.ok) {
+        setErr(!data.ok ? data.message || data.error : "Failed to revoke link");
+        return;
+      }
+      await load();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copy = async (l: ReportLink) => {
+    if (!l.token) return;
+    try {
+      await navigator.clipboard.writeText(reportUrl(l.token));
+      setCopiedId(l.id);
+      setTimeout(() => setCopiedId(null), 1200);
+    } catch {
+      setErr("Could not copy the link");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          maxLength={80}
+          placeholder="Label (e.g. Main sponsor)"
+          className="viro-input text-xs flex-1"
+        />
+        <select
+          value={expiry ?? ""}
+          onChange={(e) => setExpiry(e.target.value ? Number(e.target.value) : null)}
+          className="viro-input text-xs"
+        >
+          {EXPIRY_OPTIONS.map((o) => (
+            <option key={o.label} value={o.days ?? ""}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={create}
+          disabled={busy}
+          className="viro-btn text-xs border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90 disabled:opacity-50"
+        >
+          + Create link
+        </button>
+      </div>
+
+      {err ? <div className="text-xs text-[var(--viro-danger)]">{err}</div> : null}
+
+      {links.length === 0 ? (
+        <div className="text-xs text-[var(--viro-muted)]">
+          No report links yet. Sponsors can open one without logging in; you can revoke it anytime.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {links.map((l) => {
+            const status = linkStatus(l);
+            const usable = status !== "Revoked" && status !== "Expired";
+            return (
+              <div key={l.id} className="flex items-center justify-between gap-2 text-xs">
+                <div className="min-w-0">
+                  <div className={usable ? "text-white/90 truncate" : "text-[var(--viro-muted)] line-through truncate"}>
+                    {l.label || "Report link"}
+                  </div>
+                  <div className="text-[11px] text-[var(--viro-muted)]">
+                    {status} · created {l.createdAt.slice(0, 10)}
+                    {l.lastUsedAt ? ` · last opened ${l.lastUsedAt.slice(0, 10)}` : ""}
+                  </div>
+                </div>
+                {usable ? (
+                  <span className="flex gap-2 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => copy(l)}
+                      className="viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90"
+                    >
+                      {copiedId === l.id ? "Copied ✅" : "Copy"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => revoke(l.id)}
+                      disabled={busy}
+                      className="viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90 text-[var(--viro-danger)] disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  </span>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+type Props = {
+  values: number[];
+  className?: string;
+};
+
+const W = 100;
+const H = 24;
+
+/** Tiny trend line (stretched to its box); flat when there is no data. */
+export default function Sparkline({ values, className }: Props) {
+  const max = Math.max(1, ...values);
+  const step = values.length > 1 ? W / (values.length - 1) : W;
+  const points = values.map((v, i) => `${(i * step).toFixed(2)},${(H - 1 - (v / max) * (H - 2)).toFixed(2)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" className={className} aria-hidden="true">
+      {values.length > 1 ? (
+        <>
+          <polygon points={`0,${H} ${points} ${W},${H}`} fill="var(--viro-primary)" fillOpacity={0.15} />
+          <polyline
+            points={points}
+            fill="none"
+            stroke="var(--viro-primary)"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        </>
+      ) : (
+        <line x1={0} y1={H - 1} x2={W} y2={H - 1} stroke="var(--viro-border)" strokeWidth={1} />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Template } from "@/types/template";
+import type { TemplateChange, TemplateRevisionSummary } from "@/lib/templateHistory";
+
+type ListResp =
+  | { ok: true; revisions: TemplateRevisionSummary[] }
+  | { ok: false; error: string; message?: string };
+
+type DiffResp =
+  | { ok: true; changes: TemplateChange[] }
+  | { ok: false; error: string; message?: string };
+
+type RestoreResp =
+  | { ok: true; template: Template; revisionId: string | null }
+  | { ok: false; error: string; message?: string };
+
+type Props = {
+  eventId: string;
+  /** Bump after each save so the list reloads. */
+  refreshKey: number;
+  onRestored: (template: Template) => void;
+};
+
+function formatValue(v: unknown): string {
+  if (v === undefined) return "—";
+  if (typeof v === "number") return String(Math.round(v * 1000) / 1000);
+  if (typeof v === "string") return v ? `"${v}"` : '""';
+  if (v && typeof v === "object" && "kind" in v) return `${String((v as { kind: unknown }).kind)} layer`;
+  return JSON.stringify(v);
+}
+
+function describeChange(c: TemplateChange): string {
+  if (c.type === "added") return `+ ${c.path} (${formatValue(c.after)})`;
+  if (c.type === "removed") return `− ${c.path} (${formatValue(c.before)})`;
+  return `${c.path}: ${formatValue(c.before)} → ${formatValue(c.after)}`;
+}
+
+export default function TemplateHistoryPanel({ eventId, refreshKey, onRestored }: Props) {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<TemplateRevisionSummary[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  // Diff of one revision against the current saved template
+  const [diffFor, setDiffFor] = useState<string | null>(null);
+  const [changes, setChanges] = useState<TemplateChange[]>([]);
+
+  const load = useCallback(async () => {
+    setBusy(true);
+    setErr(null);
+    try {
+      const r = await fetch(`/api/template-revisions?eventId=${encodeURIComponent(eventId)}`);
+      const data = (await r.json()) as ListResp;
+      if (!r.ok || !data.ok) {
+        setErr(!data.ok ? data.message || data.error : "Failed to load history");
+        return;
+      }
+      setRevisions(data.revisions);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (open) void load();
+  }, [open, load, refreshKey]);
+
+  const showDiff = async (revisionId: string) => {
+    if (diffFor === revisionId) {
+      setDiffFor(null);
+      return;
+    }
+
+    setBusy(true);
+    setErr(null);
+    try {
+      const qs = new URLSearchParams({ eventId, from: revisionId, to: "current" });
+      const r = await fetch(`/api/template-diff?${qs.toString()}`);
+      const data = (await r.json()) as DiffResp;
+      if (!r.ok || !data.ok) {
+        setErr(!data.ok ? data.message || data.error : "Failed to compare");
+        return;
+      }
+      setChanges(data.changes);
+      setDiffFor(revisionId);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async (rev: TemplateRevisionSummary) => {
+    if (!window.confirm(`Restore the layout saved ${new Date(rev.createdAt).toLocaleString()}? Unsaved changes will be lost.`)) {
+      return;
+    }
+
+    setBusy(true);
+    setErr(null);
+    try {
+      const r = await fetch("/api/restore-template", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ eventId, revisionId: rev.id }),
+      });
+      const data = (await r.json()) as RestoreResp;
+      if (!r.ok || !data.ok) {
+        setErr(!data.ok ? data.message || data.error : "Restore failed");
+        return;
+      }
+      setDiffFor(null);
+      onRestored(data.template);
+      await load();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-5">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between text-sm font-semibold"
+      >
+        <span>History</span>
+        <span className="text-xs text-[var(--viro-muted)]">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-1">
+          {err && <div className="text-xs text-[var(--viro-danger)]">{err}</div>}
+
+          {!busy && revisions.length === 0 && !err && (
+            <div className="text-xs text-[var(--viro-muted)]">No saved versions yet.</div>
+          )}
+
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {revisions.map((rev, i) => (
+              <div key={rev.id} className="rounded-lg border border-[var(--viro-border)] px-2 py-1.5 text-xs">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">
+                      {new Date(rev.createdAt).toLocaleString()}
+                      {i === 0 && <span className="ml-1 text-[var(--viro-primary)]">(latest)</span>}
+                    </div>
+                    <div className="truncate text-[var(--viro-muted)]">
+                      {rev.authorEmail ?? "Unknown"} · {rev.layerCount} layers
+                      {rev.note ? ` · ${rev.note}` : ""}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => void showDiff(rev.id)}
+                    className="px-1.5 py-0.5 rounded border border-[var(--viro-border)] hover:bg-white/10 disabled:opacity-50"
+                  >
+                    {diffFor === rev.id ? "Hide" : "Diff"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => void restore(rev)}
+                    className="px-1.5 py-0.5 rounded border border-[var(--viro-border)] hover:bg-white/10 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                </div>
+
+                {diffFor === rev.id && (
+                  <div className="mt-1.5 border-t border-[var(--viro-border)] pt-1.5 font-mono text-[10px] text-[var(--viro-muted)] space-y-0.5">
+                    <div className="text-white/70">Changes since this version:</div>
+                    {changes.length === 0 ? (
+                      <div>None, same as the current saved template.</div>
+                    ) : (
+                      changes.map((c) => <div key={`${c.type}:${c.path}`}>{describeChange(c)}</div>)
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
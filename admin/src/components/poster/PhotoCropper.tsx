@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { clampPhotoCrop, photoCropSize, type PhotoCrop } from "@/lib/poster/render";
+
+type Props = {
+  url: string;
+  crop: PhotoCrop;
+  onChange: (crop: PhotoCrop) => void;
+  /** Slot size in preview px. */
+  sizePx: number;
+  /** Keep the gestures but leave the drawing to an overlay (e.g. `PhotoSlotCanvas`). */
+  hideImage?: boolean;
+};
+
+type Point = { x: number; y: number };
+
+function distance(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function angle(a: Point, b: Point) {
+  return (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+}
+
+// Moves the crop by a screen-space delta, undoing the rotation first
+function panCrop(c: PhotoCrop, dx: number, dy: number, natural: { w: number; h: number }, sizePx: number): PhotoCrop {
+  const { w, h } = photoCropSize(natural.w, natural.h, sizePx, c.zoom);
+  const r = (-c.rotate * Math.PI) / 180;
+  const ux = dx * Math.cos(r) - dy * Math.sin(r);
+  const uy = dx * Math.sin(r) + dy * Math.cos(r);
+  return { ...c, x: c.x - ux / w, y: c.y - uy / h };
+}
+
+/**
+ * Photo inside a poster slot that can be dragged (pan), pinched or scrolled (zoom)
+ * and twisted with two fingers (rotate). Positioned exactly like `drawPoster`
+ * draws it, so the export matches. Fills its positioned, clipped parent.
+ */
+export default function PhotoCropper({ url, crop, onChange, sizePx, hideImage }: Props) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [natural, setNatural] = useState<{ w: number; h: number } | null>(null);
+
+  // Latest values for pointer/wheel handlers without re-binding them
+  const latest = useRef({ crop, onChange, natural, sizePx });
+  useEffect(() => {
+    latest.current = { crop, onChange, natural, sizePx };
+  });
+
+  const pointers = useRef(new Map<number, Point>());
+
+  // Wheel zoom needs a non-passive listener so the page does not scroll
+  useEffect(() => {
+    const el = rootRef.current;
+    if (!el) return;
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { crop: c, natural: n, onChange: emit } = latest.current;
+      const next = { ...c, zoom: c.zoom * Math.exp(-e.deltaY * 0.0015) };
+      latest.current.crop = n ? clampPhotoCrop(next, n.w, n.h) : next;
+      emit(latest.current.crop);
+    };
+
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const onPointerDown = (e: PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    const prev = pointers.current.get(e.pointerId);
+    if (!prev) return;
+
+    const next = { x: e.clientX, y: e.clientY };
+    const others = [...pointers.current.entries()].filter(([id]) => id !== e.pointerId);
+    pointers.current.set(e.pointerId, next);
+
+    const { crop, natural: n, sizePx: size, onChange: emit } = latest.current;
+    if (!n) return;
+    let c = crop;
+
+    if (others.length === 0) {
+      c = panCrop(c, next.x - prev.x, next.y - prev.y, n, size);
+    } else {
+      // Two fingers: pinch to zoom, twist to rotate, move the midpoint to pan
+      const other = others[0][1];
+      const before = distance(prev, other);
+      if (before > 0) {
+        c = {
+          ...c,
+          zoom: (c.zoom * distance(next, other)) / before,
+          rotate: c.rotate + angle(other, next) - angle(other, prev),
+        };
+      }
+      c = panCrop(c, (next.x - prev.x) / 2, (next.y - prev.y) / 2, n, size);
+    }
+
+    // Both fingers can move before the next render; keep the ref current
+    latest.current.crop = clampPhotoCrop(c, n.w, n.h);
+    emit(latest.current.crop);
+  };
+
+  const onPointerEnd = (e: PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  const view = natural ? clampPhotoCrop(crop, natural.w, natural.h) : crop;
+  const size = natural ? photoCropSize(natural.w, natural.h, sizePx, view.zoom) : { w: sizePx, h: sizePx };
+
+  return (
+    <div
+      ref={rootRef}
+      className="absolute inset-0 touch-none cursor-grab active:cursor-grabbing select-none"
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerEnd}
+      onPointerCancel={onPointerEnd}
+    >
+      <img
+        src={url}
+        alt="photo"
+        draggable={false}
+        onLoad={(e) => setNatural({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+        className="absolute pointer-events-none"
+        style={{
+          left: "50%",
+          top: "50%",
+          width: size.w,
+          height: size.h,
+          maxWidth: "none",
+          opacity: hideImage ? 0 : undefined,
+          transformOrigin: "0 0",
+          transform: `rotate(${view.rotate}deg) translate(${-view.x * 100}%, ${-view.y * 100}%)`,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from "react";
+import { drawPhotoSlot, photoSlotBleed, type LayerLayout, type PhotoCrop } from "@/lib/poster/render";
+
+type Props = {
+  slot: Extract<LayerLayout, { kind: "image" }>;
+  /** Attendee photo; without one only the ring, glow and frame are painted. */
+  url?: string | null;
+  /** `url` is a cut-out photo (transparent PNG). */
+  cutout?: boolean;
+  crop?: PhotoCrop;
+  frameUrl?: string | null;
+  /** Slot size in preview px. */
+  sizePx: number;
+};
+
+function useLoadedImage(url?: string | null) {
+  const [loaded, setLoaded] = useState<{ url: string; img: HTMLImageElement } | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => setLoaded({ url, img });
+    img.src = url;
+    return () => {
+      img.onload = null;
+    };
+  }, [url]);
+
+  return url && loaded?.url === url ? loaded.img : null;
+}
+
+/**
+ * Preview of a photo slot painted by the same `drawPhotoSlot` as the export, so
+ * cutouts, rings, glows and frames match it. Place it in a slot-sized positioned
+ * parent that does not clip: the canvas overflows by the slot's bleed. It ignores
+ * the pointer; pair it with a `PhotoCropper` for gestures.
+ */
+export default function PhotoSlotCanvas({ slot, url, cutout, crop, frameUrl, sizePx }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const image = useLoadedImage(url);
+  const frame = useLoadedImage(frameUrl);
+
+  const bleed = photoSlotBleed(slot);
+  const bleedPx = (bleed / slot.size) * sizePx;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const px = Math.round((sizePx + bleedPx * 2) * (window.devicePixelRatio || 1));
+    canvas.width = px;
+    canvas.height = px;
+
+    // Output space -> canvas px, with the padded slot's top-left corner at the origin
+    const k = px / (slot.size + bleed * 2);
+    const left = slot.x - slot.r - bleed;
+    const top = slot.y - slot.r - bleed;
+    ctx.setTransform(k, 0, 0, k, -left * k, -top * k);
+    drawPhotoSlot(ctx, slot, image ? { image, crop, cutout } : null, frame);
+  }, [image, frame, slot, crop, cutout, sizePx, bleed, bleedPx]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute pointer-events-none"
+      style={{ left: -bleedPx, top: -bleedPx, width: sizePx + bleedPx * 2, height: sizePx + bleedPx * 2 }}
+    />
+  );
+}
@@ -0,0 +1,61 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { fitText, textPreviewStyle, type FittedText, type TextBox } from "@/lib/poster/textStyle";
+
+type Props = {
+  /** Output-space box (see `computePosterLayout`). */
+  box: TextBox;
+  value: string;
+  /** Output px -> preview px. */
+  scale: number;
+};
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+function getMeasureContext() {
+  if (!measureCtx) measureCtx = document.createElement("canvas").getContext("2d");
+  return measureCtx;
+}
+
+function subscribeFonts(onChange: () => void) {
+  document.fonts.addEventListener("loadingdone", onChange);
+  return () => document.fonts.removeEventListener("loadingdone", onChange);
+}
+
+/** Number of loaded font faces; changes whenever a web font finishes loading. */
+function loadedFontCount() {
+  let n = 0;
+  document.fonts.forEach((f) => {
+    if (f.status === "loaded") n++;
+  });
+  return n;
+}
+
+/**
+ * DOM preview of a text layer, laid out by the same `fitText` pass as the
+ * canvas export (size, wrapping, ellipsis). Fills its positioned parent.
+ */
+export default function PosterText({ box, value, scale }: Props) {
+  const { layer, w, h, size } = box;
+  // -1 while server rendering / hydrating: measuring needs a canvas, so show the raw value
+  const fontsVersion = useSyncExternalStore(subscribeFonts, loadedFontCount, () => -1);
+
+  const fitted = useMemo<FittedText>(() => {
+    const ctx = fontsVersion < 0 ? null : getMeasureContext();
+    if (!ctx) return { size, lines: [value] };
+
+    ctx.save();
+    const result = fitText(ctx, { layer, w, h, size }, value);
+    ctx.restore();
+    return result;
+  }, [layer, w, h, size, value, fontsVersion]);
+
+  return (
+    <div style={textPreviewStyle(box, fitted, scale)}>
+      {fitted.lines.map((line, i) => (
+        <div key={i} style={{ whiteSpace: "pre" }}>
+          {line}
+        </div>
+      ))}
+    </div>
+  );
+}
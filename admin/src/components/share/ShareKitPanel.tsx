@@ -0,0 +1,61 @@
+import { useState } from "react";
+
+type Props = {
+  eventCode: string;
+  /** Needed for the share kit PDF (owner only); without it only QR codes are offered. */
+  eventId?: string | null;
+};
+
+const SOURCE_RE = /[^A-Za-z0-9._-]/g;
+
+/**
+ * QR code preview with PNG/SVG downloads and the printable share kit.
+ * The optional source becomes `utm_source` (with `utm_medium=qr`) so each
+ * banner or flyer shows up separately in analytics.
+ */
+export default function ShareKitPanel({ eventCode, eventId }: Props) {
+  const [source, setSource] = useState("");
+
+  const params = new URLSearchParams({ eventCode });
+  if (source) params.set("source", source);
+  const qrUrl = (format: "png" | "svg", download = false) =>
+    `/api/qr-code?${params.toString()}&format=${format}${download ? "&download=1" : ""}`;
+
+  const kitParams = new URLSearchParams({ eventId: eventId ?? "" });
+  if (source) kitParams.set("source", source);
+
+  return (
+    <div className="flex gap-3">
+      <img
+        src={qrUrl("svg")}
+        alt={`QR code for ${eventCode}`}
+        className="w-24 h-24 shrink-0 rounded-lg bg-white"
+      />
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <input
+          value={source}
+          onChange={(e) => setSource(e.target.value.replace(SOURCE_RE, "").slice(0, 64))}
+          placeholder="Source tag (e.g. banner)"
+          className="viro-input text-xs w-full"
+        />
+        <div className="flex gap-2 text-xs">
+          <a href={qrUrl("png", true)} className="flex-1 text-center viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90">
+            QR PNG
+          </a>
+          <a href={qrUrl("svg", true)} className="flex-1 text-center viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90">
+            QR SVG
+          </a>
+        </div>
+        {eventId && (
+          <a
+            href={`/api/share-kit?${kitParams.toString()}`}
+            className="block text-center text-xs viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90"
+          >
+            🖨️ Share kit (PDF)
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
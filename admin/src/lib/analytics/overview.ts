@@ -0,0 +1,114 @@
+// admin/src/lib/analytics/overview.ts
+import { FUNNEL_STEPS, type FunnelStep } from "@/lib/funnel";
+import { addDays, rangeDays, type AnalyticsRange } from "./range";
+import type { OwnerDailyCount, OwnerEventTotals, OwnerFunnelCount } from "./queries";
+
+/**
+ * Organizer-wide analytics: one row per event of the logged-in owner, with a
+ * daily trend for sparklines and funnel step counts for side-by-side comparison.
+ */
+
+export type OverviewEvent = {
+  eventId: string;
+  eventCode: string | null;
+  name: string | null;
+  published: boolean | null;
+  totalDownloads: number;
+  rangeDownloads: number;
+  /** Downloads per day of the range, oldest first (one entry per day). */
+  trend: number[];
+  /** Funnel sessions per step in the range. */
+  funnel: Record<FunnelStep, number>;
+  /** Downloaded / opened page in the range (0..1). */
+  conversion: number;
+};
+
+export type OrganizerOverview = {
+  range: AnalyticsRange;
+  /** Days of the trend arrays (YYYY-MM-DD in the range's time zone). */
+  days: string[];
+  totals: {
+    events: number;
+    publishedEvents: number;
+    totalDownloads: number;
+    rangeDownloads: number;
+    visits: number;
+    conversion: number;
+  };
+  /** Most downloaded first. */
+  events: OverviewEvent[];
+};
+
+export type OverviewEventRow = {
+  id: string;
+  event_code: string | null;
+  name: string | null;
+  published: boolean | null;
+};
+
+function ratio(n: number, d: number) {
+  return d > 0 ? n / d : 0;
+}
+
+export function buildOverview(
+  range: AnalyticsRange,
+  events: OverviewEventRow[],
+  data: { totals: OwnerEventTotals[]; daily: OwnerDailyCount[]; funnel: OwnerFunnelCount[] }
+): OrganizerOverview {
+  const days = Array.from({ length: rangeDays(range.from, range.to) }, (_, i) => addDays(range.from, i));
+  const dayIndex = new Map(days.map((d, i) => [d, i]));
+
+  const byId = new Map<string, OverviewEvent>(
+    events.map((e) => [
+      e.id,
+      {
+        eventId: e.id,
+        eventCode: e.event_code,
+        name: e.name,
+        published: e.published,
+        totalDownloads: 0,
+        rangeDownloads: 0,
+        trend: days.map(() => 0),
+        funnel: Object.fromEntries(FUNNEL_STEPS.map((s) => [s, 0])) as Record<FunnelStep, number>,
+        conversion: 0,
+      },
+    ])
+  );
+
+  for (const t of data.totals) {
+    const e = byId.get(t.eventId);
+    if (!e) continue;
+    e.totalDownloads = t.totalDownloads;
+    e.rangeDownloads = t.rangeDownloads;
+  }
+  for (const d of data.daily) {
+    const i = dayIndex.get(d.day);
+    const e = byId.get(d.eventId);
+    if (e && i !== undefined) e.trend[i] += d.downloads;
+  }
+  for (const f of data.funnel) {
+    const e = byId.get(f.eventId);
+    if (e) e.funnel[f.step] += f.sessions;
+  }
+
+  const rows = Array.from(byId.values());
+  for (const e of rows) e.conversion = ratio(e.funnel.downloaded, e.funnel.page_view);
+  rows.sort((a, b) => b.totalDownloads - a.totalDownloads || b.rangeDownloads - a.rangeDownloads);
+
+  const visits = rows.reduce((acc, e) => acc + e.funnel.page_view, 0);
+  const downloadedSessions = rows.reduce((acc, e) => acc + e.funnel.downloaded, 0);
+
+  return {
+    range,
+    days,
+    totals: {
+      events: rows.length,
+      publishedEvents: rows.filter((e) => e.published).length,
+      totalDownloads: rows.reduce((acc, e) => acc + e.totalDownloads, 0),
+      rangeDownloads: rows.reduce((acc, e) => acc + e.rangeDownloads, 0),
+      visits,
+      conversion: ratio(downloadedSessions, visits),
+    },
+    events: rows,
+  };
+}
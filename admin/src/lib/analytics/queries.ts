@@ -0,0 +1,167 @@
+// admin/src/lib/analytics/queries.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  isFunnelStep,
+  isShareChannel,
+  type FunnelCount,
+  type FunnelStep,
+  type ShareChannel,
+} from "@/lib/funnel";
+import { rangeRpcArgs, type AnalyticsRange } from "./range";
+
+/**
+ * Range-aware analytics RPCs (see the analytics_ranges migration). Service-role
+ * only; callers check access first. Errors are thrown with the database message.
+ */
+
+export type SeriesRow = { bucket: string; downloads: number };
+
+export type ShareChannelCount = { channel: ShareChannel; shares: number };
+
+export type RawDownload = { createdAt: string; localTime: string; variant: string };
+
+export type RawFunnelEvent = {
+  createdAt: string;
+  localTime: string;
+  sessionId: string;
+  step: string;
+  channel: string | null;
+  source: string;
+  device: string;
+};
+
+// PostgREST caps each response, so raw and per-owner rows are read in pages
+const PAGE_SIZE = 1000;
+const MAX_PAGED_ROWS = 100_000;
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null;
+}
+
+function toCount(v: unknown): number {
+  const n = Number(v ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function str(v: unknown, fallback = ""): string {
+  return typeof v === "string" ? v : v == null ? fallback : String(v);
+}
+
+/** Downloads per local day or hour; every bucket in the range is present. */
+export async function fetchDownloadSeries(
+  supabase: SupabaseClient,
+  eventCode: string,
+  range: AnalyticsRange
+): Promise<SeriesRow[]> {
+  const { data, error } = await supabase.rpc("vf_downloads_series", {
+    ...rangeRpcArgs(eventCode, range),
+    p_bucket: range.granularity,
+  });
+  if (error) throw new Error(error.message);
+
+  return Array.isArray(data)
+    ? data.filter(isRecord).map((x) => ({ bucket: str(x.bucket), downloads: toCount(x.downloads) }))
+    : [];
+}
+
+/** Funnel sessions per source/device/step, plus shares per channel. */
+export async function fetchFunnelCounts(
+  supabase: SupabaseClient,
+  eventCode: string,
+  range: AnalyticsRange
+): Promise<{ counts: FunnelCount[]; channels: ShareChannelCount[] }> {
+  const args = rangeRpcArgs(eventCode, range);
+  const [funnelRes, channelRes] = await Promise.all([
+    supabase.rpc("vf_funnel", args),
+    supabase.rpc("vf_share_channels", args),
+  ]);
+
+  const error = funnelRes.error ?? channelRes.error;
+  if (error) throw new Error(error.message);
+
+  const counts: FunnelCount[] = (Array.isArray(funnelRes.data) ? funnelRes.data : []).flatMap((x: unknown) =>
+    isRecord(x) && isFunnelStep(x.step)
+      ? [{ source: str(x.source, "direct"), device: str(x.device, "unknown"), step: x.step, sessions: toCount(x.sessions) }]
+      : []
+  );
+  const channels: ShareChannelCount[] = (Array.isArray(channelRes.data) ? channelRes.data : []).flatMap((x: unknown) =>
+    isRecord(x) && isShareChannel(x.channel) ? [{ channel: x.channel, shares: toCount(x.shares) }] : []
+  );
+
+  return { counts, channels };
+}
+
+async function fetchAllPages(
+  supabase: SupabaseClient,
+  fn: string,
+  args: Record<string, string>
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.rpc(fn, args).range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    const page = Array.isArray(data) ? data.filter(isRecord) : [];
+    rows.push(...page);
+    if (rows.length > MAX_PAGED_ROWS) {
+      throw new Error(`More than ${MAX_PAGED_ROWS} rows; use a shorter range`);
+    }
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+export async function fetchRawDownloads(
+  supabase: SupabaseClient,
+  eventCode: string,
+  range: AnalyticsRange
+): Promise<RawDownload[]> {
+  const rows = await fetchAllPages(supabase, "vf_downloads_raw", rangeRpcArgs(eventCode, range));
+  return rows.map((x) => ({ createdAt: str(x.created_at), localTime: str(x.local_time), variant: str(x.variant, "main") }));
+}
+
+export async function fetchRawFunnelEvents(
+  supabase: SupabaseClient,
+  eventCode: string,
+  range: AnalyticsRange
+): Promise<RawFunnelEvent[]> {
+  const rows = await fetchAllPages(supabase, "vf_funnel_raw", rangeRpcArgs(eventCode, range));
+  return rows.map((x) => ({
+    createdAt: str(x.created_at),
+    localTime: str(x.local_time),
+    sessionId: str(x.session_id),
+    step: str(x.step),
+    channel: typeof x.channel === "string" ? x.channel : null,
+    source: str(x.source, "direct"),
+    device: str(x.device, "unknown"),
+  }));
+}
+
+export type OwnerEventTotals = { eventId: string; totalDownloads: number; rangeDownloads: number };
+export type OwnerDailyCount = { eventId: string; day: string; downloads: number };
+export type OwnerFunnelCount = { eventId: string; step: FunnelStep; sessions: number };
+
+/** Per-event totals, daily downloads and funnel steps for all events of one owner. */
+export async function fetchOwnerAnalytics(
+  supabase: SupabaseClient,
+  ownerId: string,
+  range: AnalyticsRange
+): Promise<{ totals: OwnerEventTotals[]; daily: OwnerDailyCount[]; funnel: OwnerFunnelCount[] }> {
+  const args = { p_owner_id: ownerId, p_from: range.from, p_to: range.to, p_tz: range.tz };
+  const [totals, daily, funnel] = await Promise.all([
+    fetchAllPages(supabase, "vf_owner_event_totals", args),
+    fetchAllPages(supabase, "vf_owner_downloads_daily", args),
+    fetchAllPages(supabase, "vf_owner_funnel", args),
+  ]);
+
+  return {
+    totals: totals.map((x) => ({
+      eventId: str(x.event_id),
+      totalDownloads: toCount(x.total_downloads),
+      rangeDownloads: toCount(x.range_downloads),
+    })),
+    daily: daily.map((x) => ({ eventId: str(x.event_id), day: str(x.day), downloads: toCount(x.downloads) })),
+    funnel: funnel.flatMap((x) =>
+      isFunnelStep(x.step) ? [{ eventId: str(x.event_id), step: x.step, sessions: toCount(x.sessions) }] : []
+    ),
+  };
+}
@@ -0,0 +1,142 @@
+// admin/src/lib/analytics/range.ts
+
+/**
+ * Date ranges for analytics queries.
+ *
+ * A range is a pair of calendar days (inclusive) in the organizer's time zone;
+ * the database turns them into instants, so an event day in Douala is bucketed
+ * by Douala midnight, not UTC midnight. Hourly buckets are for short ranges
+ * (the event days themselves).
+ */
+
+export type Granularity = "day" | "hour";
+
+export type AnalyticsRange = {
+  /** First day, YYYY-MM-DD in `tz`. */
+  from: string;
+  /** Last day (inclusive), YYYY-MM-DD in `tz`. */
+  to: string;
+  /** IANA time zone, e.g. "Africa/Douala". */
+  tz: string;
+  granularity: Granularity;
+};
+
+export const RANGE_LIMITS = {
+  maxDays: 366,
+  maxHourlyDays: 14,
+  // Ranges up to this many days default to hourly buckets
+  autoHourlyDays: 2,
+  // Legacy `days` parameter
+  minLegacyDays: 7,
+  maxLegacyDays: 120,
+  defaultLegacyDays: 30,
+};
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Query = Record<string, string | string[] | undefined>;
+
+function queryString(query: Query, key: string): string {
+  const raw = query[key];
+  return ((Array.isArray(raw) ? raw[0] : raw) ?? "").trim();
+}
+
+export function isTimeZone(tz: string): boolean {
+  if (!tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The browser's time zone, or UTC when it can't be read. */
+export function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/** Calendar day of `date` in `tz`, as YYYY-MM-DD. */
+export function localDay(date: Date, tz: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: tz,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+function isDay(s: string): boolean {
+  if (!DAY_RE.test(s)) return false;
+  const d = new Date(`${s}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s;
+}
+
+export function addDays(day: string, n: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + n * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Number of days in the inclusive range. */
+export function rangeDays(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS) + 1;
+}
+
+/** The last `days` days up to today in `tz`. */
+export function lastDaysRange(days: number, tz: string): { from: string; to: string } {
+  const to = localDay(new Date(), tz);
+  return { from: addDays(to, -(days - 1)), to };
+}
+
+/**
+ * Reads `from`, `to`, `tz` and `granularity` from a query string.
+ * Without `from`/`to` the range is the last `days` days (7..120, default 30),
+ * matching the older analytics API. Granularity defaults to hourly for ranges of
+ * up to two days.
+ */
+export function parseAnalyticsRange(
+  query: Query
+): { ok: true; range: AnalyticsRange } | { ok: false; message: string } {
+  const tz = queryString(query, "tz") || "UTC";
+  if (!isTimeZone(tz)) return { ok: false, message: `Unknown time zone "${tz}"` };
+
+  let from = queryString(query, "from");
+  let to = queryString(query, "to");
+
+  if (from || to) {
+    to ||= localDay(new Date(), tz);
+    if (!isDay(from) || !isDay(to)) return { ok: false, message: "from and to must be dates (YYYY-MM-DD)" };
+    if (from > to) return { ok: false, message: "from must not be after to" };
+  } else {
+    const daysStr = queryString(query, "days");
+    const days = /^\d+$/.test(daysStr) ? Number(daysStr) : RANGE_LIMITS.defaultLegacyDays;
+    ({ from, to } = lastDaysRange(
+      Math.max(RANGE_LIMITS.minLegacyDays, Math.min(RANGE_LIMITS.maxLegacyDays, days)),
+      tz
+    ));
+  }
+
+  const span = rangeDays(from, to);
+  if (span > RANGE_LIMITS.maxDays) {
+    return { ok: false, message: `Range is limited to ${RANGE_LIMITS.maxDays} days` };
+  }
+
+  const g = queryString(query, "granularity");
+  if (g && g !== "day" && g !== "hour") return { ok: false, message: "granularity must be day or hour" };
+  const granularity: Granularity = g === "day" || g === "hour" ? g : span <= RANGE_LIMITS.autoHourlyDays ? "hour" : "day";
+  if (granularity === "hour" && span > RANGE_LIMITS.maxHourlyDays) {
+    return { ok: false, message: `Hourly data is limited to ${RANGE_LIMITS.maxHourlyDays} days` };
+  }
+
+  return { ok: true, range: { from, to, tz, granularity } };
+}
+
+/** RPC arguments shared by the range-aware analytics functions. */
+export function rangeRpcArgs(eventCode: string, range: AnalyticsRange) {
+  return { p_event_code: eventCode, p_from: range.from, p_to: range.to, p_tz: range.tz };
+}
@@ -0,0 +1,126 @@
+// admin/src/lib/analytics/reportLinks.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireEventOwnerByCode, type AccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+
+/**
+ * Analytics access: the event owner (session cookie) or anyone holding a signed,
+ * revocable report link (`?report=<id>.<signature>`). Report links are read-only;
+ * routes that change anything keep using `requireEventOwner`. Server only.
+ */
+
+export type ReportLinkRow = {
+  id: string;
+  event_id: string;
+  label: string | null;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+};
+
+export type ReportLink = {
+  id: string;
+  label: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  /** Null once revoked; the signature can be recomputed, so active links stay copyable. */
+  token: string | null;
+};
+
+export const REPORT_LINK_COLUMNS = "id,event_id,label,created_at,expires_at,revoked_at,last_used_at";
+
+const LINK_ID = "[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}";
+const LINK_ID_RE = new RegExp(`^${LINK_ID}$`);
+const TOKEN_RE = new RegExp(`^(${LINK_ID})\\.([A-Za-z0-9_-]{43})$`);
+
+/** Report link ids are uuids; checked before querying so bad input is a 400, not a database error. */
+export function isReportLinkId(v: string) {
+  return LINK_ID_RE.test(v);
+}
+
+export function reportSecret(): string | null {
+  return process.env.ANALYTICS_REPORT_SECRET || null;
+}
+
+function signature(secret: string, linkId: string, eventId: string) {
+  return createHmac("sha256", secret).update(`analytics-report:${linkId}:${eventId}`).digest("base64url");
+}
+
+export function reportToken(secret: string, linkId: string, eventId: string) {
+  return `${linkId}.${signature(secret, linkId, eventId)}`;
+}
+
+export function toReportLink(row: ReportLinkRow, secret: string): ReportLink {
+  return {
+    id: row.id,
+    label: row.label,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    lastUsedAt: row.last_used_at,
+    token: row.revoked_at ? null : reportToken(secret, row.id, row.event_id),
+  };
+}
+
+export type AnalyticsAccess =
+  | { ok: true; mode: "owner" | "report"; event: { id: string; event_code: string | null } }
+  | AccessDenied;
+
+function forbidden(message: string): AccessDenied {
+  return { ok: false, status: 403, error: "Forbidden", message };
+}
+
+/** Owner session, or a valid report link for this event code when `?report=` is present. */
+export async function requireAnalyticsAccess(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  eventCode: string
+): Promise<AnalyticsAccess> {
+  const token = typeof req.query.report === "string" ? req.query.report.trim() : "";
+  if (!token) {
+    const owner = await requireEventOwnerByCode(req, res, eventCode);
+    return owner.ok ? { ok: true, mode: "owner", event: owner.event } : owner;
+  }
+
+  const secret = reportSecret();
+  const admin = supabaseAdmin();
+  if (!secret || !admin) {
+    return { ok: false, status: 500, error: "ServerError", message: "Report links are not configured" };
+  }
+
+  const m = TOKEN_RE.exec(token);
+  if (!m) return forbidden("Invalid report link");
+
+  const { data: link, error } = await admin
+    .from("analytics_report_links")
+    .select(REPORT_LINK_COLUMNS)
+    .eq("id", m[1])
+    .maybeSingle<ReportLinkRow>();
+
+  if (error) return { ok: false, status: 500, error: "ServerError", message: error.message };
+
+  // Both sides are 43 base64url chars (TOKEN_RE), as timingSafeEqual requires equal lengths
+  if (!link || !timingSafeEqual(Buffer.from(signature(secret, link.id, link.event_id)), Buffer.from(m[2]))) {
+    return forbidden("Invalid report link");
+  }
+  if (link.revoked_at) return forbidden("This report link was revoked");
+  if (link.expires_at && Date.parse(link.expires_at) <= Date.now()) return forbidden("This report link has expired");
+
+  const { data: event, error: evErr } = await admin
+    .from("events")
+    .select("id,event_code")
+    .eq("id", link.event_id)
+    .maybeSingle<{ id: string; event_code: string | null }>();
+
+  if (evErr) return { ok: false, status: 500, error: "ServerError", message: evErr.message };
+  if (!event || event.event_code !== eventCode) return forbidden("Invalid report link");
+
+  // Best effort: the error result is ignored
+  await admin.from("analytics_report_links").update({ last_used_at: new Date().toISOString() }).eq("id", link.id);
+
+  return { ok: true, mode: "report", event };
+}
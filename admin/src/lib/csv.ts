@@ -0,0 +1,99 @@
+// admin/src/lib/csv.ts
+
+/**
+ * Minimal RFC 4180 CSV reader/writer (quoted fields, "" escapes, CRLF/LF).
+ * Enough for rosters exported from Sheets/Excel; no type inference.
+ */
+
+/** A parsed row and the 1-based source line it starts on (quoted cells may span lines). */
+type CsvRow = { cells: string[]; line: number };
+
+function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip UTF-8 BOM written by Excel
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (ch === "\n" || (ch === "\r" && src[i + 1] !== "\n")) line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push({ cells: row, line: rowLine });
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.cells.some((c) => c.trim() !== ""));
+}
+
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map((r) => r.cells);
+}
+
+/**
+ * Header row + records keyed by lower-cased, trimmed header names.
+ * `lines[i]` is the source line of `records[i]`, for error reports.
+ */
+export function parseCsvRecords(text: string): {
+  headers: string[];
+  records: Record<string, string>[];
+  lines: number[];
+} {
+  const [head, ...body] = parseCsvRows(text);
+  const headers = (head?.cells ?? []).map((h) => h.trim().toLowerCase());
+
+  const records = body.map(({ cells }) => {
+    const rec: Record<string, string> = {};
+    headers.forEach((h, i) => {
+      if (h) rec[h] = (cells[i] ?? "").trim();
+    });
+    return rec;
+  });
+
+  return { headers, records, lines: body.map((r) => r.line) };
+}
+
+function escapeCell(v: string) {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((r) => r.map((c) => escapeCell(String(c))).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,84 @@
+// admin/src/lib/eventAvailability.ts
+
+/**
+ * Event lifecycle.
+ *
+ * `events.status` is one of EventStatus; `published` stays the single flag
+ * public readers filter on. `publish_at` / `expires_at` narrow the window in
+ * which a published event accepts attendees.
+ */
+
+export type EventStatus = "draft" | "published" | "unpublished" | "archived";
+
+/** What an attendee opening the link should see. */
+export type AvailabilityState = "open" | "scheduled" | "closed" | "unavailable";
+
+export type EventAvailability = {
+  state: AvailabilityState;
+  opensAt: string | null;
+  closesAt: string | null;
+};
+
+export type EventWindowRow = {
+  published: boolean | null;
+  status: string | null;
+  publish_at: string | null;
+  expires_at: string | null;
+};
+
+export const EVENT_WINDOW_COLUMNS = "published,status,publish_at,expires_at";
+
+function toTime(v: string | null): number | null {
+  if (!v) return null;
+  const t = Date.parse(v);
+  return Number.isFinite(t) ? t : null;
+}
+
+export function getEventAvailability(row: EventWindowRow, now: number = Date.now()): EventAvailability {
+  const opensAt = row.publish_at ?? null;
+  const closesAt = row.expires_at ?? null;
+  const result = (state: AvailabilityState): EventAvailability => ({ state, opensAt, closesAt });
+
+  // Taken offline after being live: the link still resolves, but to a closed page
+  if (row.status === "archived" || row.status === "unpublished") return result("closed");
+  if (!row.published) return result("unavailable");
+
+  const opens = toTime(opensAt);
+  if (opens !== null && now < opens) return result("scheduled");
+
+  const closes = toTime(closesAt);
+  if (closes !== null && now >= closes) return result("closed");
+
+  return result("open");
+}
+
+/** Dashboard label for an event row. */
+export function eventStatusLabel(row: EventWindowRow, now: number = Date.now()): string {
+  if (row.status === "archived") return "Archived";
+  if (row.status === "unpublished") return "Unpublished";
+
+  switch (getEventAvailability(row, now).state) {
+    case "open":
+      return "Live";
+    case "scheduled":
+      return "Scheduled";
+    case "closed":
+      return "Closed";
+    default:
+      return "Draft";
+  }
+}
+
+/**
+ * Parses an optional ISO timestamp from a request body.
+ * `undefined` means "not provided", `null` clears the value.
+ */
+export function parseOptionalTimestamp(v: unknown): { ok: true; value: string | null | undefined } | { ok: false } {
+  if (v === undefined) return { ok: true, value: undefined };
+  if (v === null || v === "") return { ok: true, value: null };
+  if (typeof v !== "string") return { ok: false };
+
+  const t = Date.parse(v);
+  if (!Number.isFinite(t)) return { ok: false };
+  return { ok: true, value: new Date(t).toISOString() };
+}
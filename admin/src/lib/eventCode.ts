@@ -0,0 +1,54 @@
+// admin/src/lib/eventCode.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Event codes are the public part of attendee links (/e/<code>) and QR codes,
+ * so once an event is shared its code must not change unless the organizer asks.
+ */
+
+const CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** Random code like `VE-7KQ2M` (no 0/O/1/I to keep it readable). */
+export function makeEventCode(prefix = "VE") {
+  let out = "";
+  for (let i = 0; i < 5; i++) out += CODE_CHARS[Math.floor(Math.random() * CODE_CHARS.length)];
+  return `${prefix}-${out}`;
+}
+
+/** Accepts user/URL input (`=lions2026 ` → `LIONS2026`). */
+export function normalizeEventCode(raw: string) {
+  return raw.replace(/^=+/, "").trim().toUpperCase();
+}
+
+const VANITY_RE = /^[A-Z0-9](?:[A-Z0-9]|-(?=[A-Z0-9])){3,23}$/;
+
+/** Returns an error message, or null when `code` (already normalized) is a valid vanity code. */
+export function vanityCodeError(code: string): string | null {
+  if (code.length < 4 || code.length > 24) return "Code must be 4–24 characters";
+  if (!VANITY_RE.test(code)) return "Use letters, digits and single dashes (e.g. LIONS2026)";
+  return null;
+}
+
+export async function isEventCodeTaken(supabase: SupabaseClient, code: string, exceptEventId?: string) {
+  let query = supabase.from("events").select("id").eq("event_code", code);
+  if (exceptEventId) query = query.neq("id", exceptEventId);
+
+  const { data, error } = await query.limit(1);
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
+
+export async function generateUniqueEventCode(supabase: SupabaseClient, prefix = "VE"): Promise<string> {
+  for (let attempts = 0; attempts < 10; attempts++) {
+    const code = makeEventCode(prefix);
+    if (!(await isEventCodeTaken(supabase, code))) return code;
+  }
+  throw new Error("Failed to generate unique event code after 10 attempts");
+}
+
+/** Postgres unique violation, as surfaced by PostgREST. */
+export function isUniqueViolation(error: { code?: string; message?: string } | null | undefined) {
+  if (!error) return false;
+  const msg = (error.message ?? "").toLowerCase();
+  return error.code === "23505" || msg.includes("duplicate") || msg.includes("unique");
+}
@@ -0,0 +1,103 @@
+// admin/src/lib/faceDetection.ts
+
+/**
+ * Face detection for centering attendee photos.
+ *
+ * Providers are tried in order until one answers:
+ *   server   `/api/detect-face`, a proxy to the Python service at FACE_DETECT_URL
+ *   browser  the Shape Detection API (`window.FaceDetector`) where the browser ships it
+ * A provider that reports itself unavailable is skipped for the rest of the session.
+ * When none works, `detectFace` resolves to null and photos stay centered.
+ */
+
+/** Normalized (0..1) face box: x/y is the center, w/h the size. */
+export type FaceBox = { x: number; y: number; w: number; h: number };
+
+export type FaceDetectionProvider = {
+  name: string;
+  /** Resolves null when no face was found; throws `FaceProviderUnavailable` if the provider cannot run here. */
+  detect: (file: Blob) => Promise<FaceBox | null>;
+};
+
+export class FaceProviderUnavailable extends Error {}
+
+function unit(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? Math.max(0, Math.min(1, v)) : null;
+}
+
+/** Reads the face from a detect-face response (`{ ok, found, face: { x, y, w?, h? } }`). */
+export function readFaceResult(data: unknown): FaceBox | null {
+  if (!data || typeof data !== "object") return null;
+  const d = data as { ok?: unknown; found?: unknown; face?: Record<string, unknown> | null };
+  if (d.ok !== true || d.found !== true || !d.face || typeof d.face !== "object") return null;
+
+  const x = unit(d.face.x);
+  const y = unit(d.face.y);
+  if (x === null || y === null) return null;
+  return { x, y, w: unit(d.face.w) ?? 0, h: unit(d.face.h) ?? 0 };
+}
+
+const serverProvider: FaceDetectionProvider = {
+  name: "server",
+  async detect(file) {
+    const form = new FormData();
+    form.append("file", file);
+
+    const r = await fetch("/api/detect-face", { method: "POST", body: form });
+    if (r.status === 503) throw new FaceProviderUnavailable("Face detection service not configured");
+    if (!r.ok) throw new Error(`detect-face returned ${r.status}`);
+    return readFaceResult(await r.json());
+  },
+};
+
+type NativeFaceDetector = {
+  detect: (image: ImageBitmapSource) => Promise<{ boundingBox: DOMRectReadOnly }[]>;
+};
+
+const browserProvider: FaceDetectionProvider = {
+  name: "browser",
+  async detect(file) {
+    const Ctor = (window as unknown as { FaceDetector?: new (opts?: object) => NativeFaceDetector }).FaceDetector;
+    if (!Ctor || typeof createImageBitmap !== "function") {
+      throw new FaceProviderUnavailable("FaceDetector not supported");
+    }
+
+    const bitmap = await createImageBitmap(file);
+    try {
+      const faces = await new Ctor({ fastMode: true, maxDetectedFaces: 1 }).detect(bitmap);
+      const box = faces[0]?.boundingBox;
+      if (!box || !bitmap.width || !bitmap.height) return null;
+      return {
+        x: (box.x + box.width / 2) / bitmap.width,
+        y: (box.y + box.height / 2) / bitmap.height,
+        w: box.width / bitmap.width,
+        h: box.height / bitmap.height,
+      };
+    } finally {
+      bitmap.close();
+    }
+  },
+};
+
+export const FACE_DETECTION_PROVIDERS: FaceDetectionProvider[] = [serverProvider, browserProvider];
+
+const unavailable = new Set<string>();
+
+/** Best-effort face detection; never throws. */
+export async function detectFace(
+  file: Blob,
+  providers: FaceDetectionProvider[] = FACE_DETECTION_PROVIDERS
+): Promise<FaceBox | null> {
+  for (const provider of providers) {
+    if (unavailable.has(provider.name)) continue;
+
+    try {
+      return await provider.detect(file);
+    } catch (e) {
+      if (e instanceof FaceProviderUnavailable) unavailable.add(provider.name);
+      else console.warn(`Face detection (${provider.name}) failed:`, e);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,214 @@
+// admin/src/lib/funnel.ts
+
+/**
+ * Attendee funnel tracking.
+ *
+ * The attendee page reports each step once per browser session to `/api/track-event`
+ * (best effort, never blocks the UI). The session id and the source it arrived with
+ * live in sessionStorage, so a reload or a later step keeps the original attribution.
+ */
+
+export const FUNNEL_STEPS = ["page_view", "photo_chosen", "poster_generated", "downloaded", "shared"] as const;
+export type FunnelStep = (typeof FUNNEL_STEPS)[number];
+
+export const FUNNEL_STEP_LABELS: Record<FunnelStep, string> = {
+  page_view: "Opened page",
+  photo_chosen: "Chose a photo",
+  poster_generated: "Generated poster",
+  downloaded: "Downloaded",
+  shared: "Shared",
+};
+
+export const SHARE_CHANNELS = ["whatsapp", "native", "copy_link", "instagram"] as const;
+export type ShareChannel = (typeof SHARE_CHANNELS)[number];
+
+export const SHARE_CHANNEL_LABELS: Record<ShareChannel, string> = {
+  whatsapp: "WhatsApp",
+  native: "Share sheet",
+  copy_link: "Copied link",
+  instagram: "Instagram",
+};
+
+export type DeviceType = "mobile" | "tablet" | "desktop" | "unknown";
+
+export function isFunnelStep(v: unknown): v is FunnelStep {
+  return typeof v === "string" && (FUNNEL_STEPS as readonly string[]).includes(v);
+}
+
+export function isShareChannel(v: unknown): v is ShareChannel {
+  return typeof v === "string" && (SHARE_CHANNELS as readonly string[]).includes(v);
+}
+
+/** Coarse device class from a User-Agent header. */
+export function deviceType(userAgent: string | undefined): DeviceType {
+  if (!userAgent) return "unknown";
+  if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobile)/i.test(userAgent)) return "tablet";
+  if (/Mobi|iPhone|iPod|Android|Windows Phone|Opera Mini/i.test(userAgent)) return "mobile";
+  if (/Windows|Macintosh|X11|Linux|CrOS/i.test(userAgent)) return "desktop";
+  return "unknown";
+}
+
+// Referrers whose hostnames vary (l.facebook.com, lm.facebook.com…) are grouped under one name
+const REFERRER_SOURCES: [RegExp, string][] = [
+  [/(^|\.)facebook\.com$|(^|\.)fb\.me$/, "facebook"],
+  [/(^|\.)instagram\.com$/, "instagram"],
+  [/(^|\.)whatsapp\.com$|^wa\.me$/, "whatsapp"],
+  [/^t\.co$|(^|\.)twitter\.com$|(^|\.)x\.com$/, "twitter"],
+  [/(^|\.)linkedin\.com$|^lnkd\.in$/, "linkedin"],
+  [/(^|\.)google\.[a-z.]+$/, "google"],
+];
+
+const SOURCE_RE = /^[a-z0-9._-]{1,64}$/;
+
+/** Normalizes a source tag; anything unusable becomes "direct". */
+export function cleanSource(raw: unknown): string {
+  const s = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+  return SOURCE_RE.test(s) ? s : "direct";
+}
+
+/** utm_source when present, else a known referrer name or host, else "direct". */
+export function attributionSource(search: string, referrer: string, ownHost: string): string {
+  const utm = new URLSearchParams(search).get("utm_source");
+  if (utm) return cleanSource(utm);
+
+  let host = "";
+  try {
+    host = referrer ? new URL(referrer).hostname.toLowerCase().replace(/^www\./, "") : "";
+  } catch {
+    host = "";
+  }
+  if (!host || host === ownHost) return "direct";
+
+  return REFERRER_SOURCES.find(([re]) => re.test(host))?.[1] ?? cleanSource(host);
+}
+
+type FunnelSession = { id: string; source: string; sent: string[] };
+
+function loadSession(eventCode: string): FunnelSession {
+  const key = `vf-funnel:${eventCode}`;
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(key) ?? "null") as FunnelSession | null;
+    if (stored?.id) return stored;
+  } catch {
+    // storage disabled or corrupt: fall through to a fresh session
+  }
+
+  const session: FunnelSession = {
+    id: crypto.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    source: attributionSource(location.search, document.referrer, location.hostname),
+    sent: [],
+  };
+  saveSession(eventCode, session);
+  return session;
+}
+
+function saveSession(eventCode: string, session: FunnelSession) {
+  try {
+    sessionStorage.setItem(`vf-funnel:${eventCode}`, JSON.stringify(session));
+  } catch {
+    // tracking still works for this page, just not across reloads
+  }
+}
+
+/**
+ * Reports a funnel step (browser only). Steps other than "shared" are sent once per
+ * session; every share is sent with its channel.
+ */
+export function trackFunnelStep(
+  event: { eventId: string; eventCode: string },
+  step: FunnelStep,
+  channel?: ShareChannel
+) {
+  if (typeof window === "undefined") return;
+
+  const session = loadSession(event.eventCode);
+  if (step !== "shared") {
+    if (session.sent.includes(step)) return;
+    session.sent.push(step);
+    saveSession(event.eventCode, session);
+  }
+
+  const body = JSON.stringify({
+    eventId: event.eventId,
+    eventCode: event.eventCode,
+    sessionId: session.id,
+    step,
+    channel,
+    source: session.source,
+  });
+
+  // sendBeacon survives navigating away (e.g. the WhatsApp link)
+  if (navigator.sendBeacon?.("/api/track-event", new Blob([body], { type: "application/json" }))) return;
+  fetch("/api/track-event", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+  }).catch(() => {});
+}
+
+/** One row of `vf_funnel`. */
+export type FunnelCount = { source: string; device: string; step: FunnelStep; sessions: number };
+
+export type FunnelStepRow = {
+  step: FunnelStep;
+  label: string;
+  sessions: number;
+  /** Share of sessions that opened the page (0..1). */
+  rate: number;
+  /** Share of sessions that reached the previous step (0..1); 1 for the first step. */
+  stepRate: number;
+};
+
+/** Sessions per step for one source or device; `conversion` is downloaded / opened. */
+export type FunnelBreakdownRow = { key: string; steps: Record<FunnelStep, number>; conversion: number };
+
+export type FunnelSummary = {
+  steps: FunnelStepRow[];
+  sources: FunnelBreakdownRow[];
+  devices: FunnelBreakdownRow[];
+  shareChannels: { channel: ShareChannel; label: string; shares: number }[];
+};
+
+function ratio(n: number, d: number) {
+  return d > 0 ? n / d : 0;
+}
+
+function emptySteps(): Record<FunnelStep, number> {
+  return { page_view: 0, photo_chosen: 0, poster_generated: 0, downloaded: 0, shared: 0 };
+}
+
+function breakdown(rows: FunnelCount[], keyOf: (r: FunnelCount) => string): FunnelBreakdownRow[] {
+  const byKey = new Map<string, Record<FunnelStep, number>>();
+  for (const r of rows) {
+    const steps = byKey.get(keyOf(r)) ?? emptySteps();
+    steps[r.step] += r.sessions;
+    byKey.set(keyOf(r), steps);
+  }
+
+  return Array.from(byKey, ([key, steps]) => ({ key, steps, conversion: ratio(steps.downloaded, steps.page_view) })).sort(
+    (a, b) => b.steps.page_view - a.steps.page_view || b.steps.downloaded - a.steps.downloaded
+  );
+}
+
+/** Step totals with conversion rates, plus per-source and per-device splits. */
+export function summarizeFunnel(
+  rows: FunnelCount[],
+  channels: { channel: ShareChannel; shares: number }[]
+): FunnelSummary {
+  const totals = emptySteps();
+  for (const r of rows) totals[r.step] += r.sessions;
+
+  return {
+    steps: FUNNEL_STEPS.map((step, i) => ({
+      step,
+      label: FUNNEL_STEP_LABELS[step],
+      sessions: totals[step],
+      rate: ratio(totals[step], totals.page_view),
+      stepRate: i === 0 ? 1 : ratio(totals[step], totals[FUNNEL_STEPS[i - 1]]),
+    })),
+    sources: breakdown(rows, (r) => r.source),
+    devices: breakdown(rows, (r) => r.device),
+    shareChannels: channels.map((c) => ({ ...c, label: SHARE_CHANNEL_LABELS[c.channel] })),
+  };
+}
@@ -0,0 +1,66 @@
+import fs from "fs";
+import type { NextApiRequest } from "next";
+import formidable, { type File as FormidableFile, type Files, type Fields, type Options } from "formidable";
+
+/**
+ * Helpers for multipart API routes (routes must export `config = { api: { bodyParser: false } }`).
+ */
+
+export function parseForm(
+  req: NextApiRequest,
+  options: Options = {}
+): Promise<{ fields: Fields; files: Files }> {
+  const form = formidable({ multiples: false, ...options });
+  return new Promise((resolve, reject) => {
+    form.parse(req, (err, fields, files) => {
+      if (err) reject(err);
+      else resolve({ fields, files });
+    });
+  });
+}
+
+export function firstString(v: unknown): string {
+  if (typeof v === "string") return v;
+  if (Array.isArray(v) && typeof v[0] === "string") return v[0];
+  return "";
+}
+
+function isFormidableFile(v: unknown): v is FormidableFile {
+  if (!v || typeof v !== "object") return false;
+  const obj = v as Record<string, unknown>;
+  return (
+    typeof obj.originalFilename === "string" ||
+    typeof obj.mimetype === "string" ||
+    typeof obj.size === "number"
+  );
+}
+
+/** Returns the single uploaded file for a form field name, if any. */
+export function getSingleFile(files: Files, field: string): FormidableFile | null {
+  const input = (files as unknown as Record<string, unknown>)[field];
+  if (!input) return null;
+  if (Array.isArray(input)) {
+    const f = input[0];
+    return isFormidableFile(f) ? f : null;
+  }
+  return isFormidableFile(input) ? input : null;
+}
+
+export function getLocalPath(file: FormidableFile): string {
+  // Formidable v2 uses `filepath`. Older versions used `path`.
+  const maybe = file as unknown as { filepath?: unknown; path?: unknown };
+  if (typeof maybe.filepath === "string") return maybe.filepath;
+  if (typeof maybe.path === "string") return maybe.path;
+  return "";
+}
+
+/** Deletes the temp files formidable wrote for a request; call it in the route's `finally`. */
+export function removeUploads(files: Files | undefined) {
+  if (!files) return;
+  for (const input of Object.values(files as unknown as Record<string, unknown>)) {
+    for (const f of Array.isArray(input) ? input : [input]) {
+      const localPath = isFormidableFile(f) ? getLocalPath(f) : "";
+      if (localPath) fs.promises.unlink(localPath).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,30 @@
+// admin/src/lib/photoCutout.ts
+
+/**
+ * Background removal for cutout photo slots, through `/api/segment-photo`
+ * (a proxy to the Python service at SEGMENT_URL). Once the route reports it is
+ * not configured, later calls skip the request for the rest of the session.
+ */
+
+let unavailable = false;
+
+/** Best-effort cutout as a transparent PNG; resolves null when unavailable or failed, never throws. */
+export async function fetchCutout(file: Blob): Promise<Blob | null> {
+  if (unavailable) return null;
+
+  try {
+    const form = new FormData();
+    form.append("file", file);
+
+    const r = await fetch("/api/segment-photo", { method: "POST", body: form });
+    if (r.status === 503) {
+      unavailable = true;
+      return null;
+    }
+    if (!r.ok) throw new Error(`segment-photo returned ${r.status}`);
+    return await r.blob();
+  } catch (e) {
+    console.warn("Photo segmentation failed:", e);
+    return null;
+  }
+}
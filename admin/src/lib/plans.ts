@@ -0,0 +1,71 @@
+// admin/src/lib/plans.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PosterWatermark } from "@/types/template";
+import { DEFAULT_WATERMARK } from "@/lib/template";
+
+/**
+ * Organizer plans (`organizer_plans.plan`, one row per organizer; no row means free).
+ * Plans only gate features here; billing lives elsewhere and writes the row.
+ */
+
+export type OrganizerPlan = "free" | "pro";
+
+export type PlanFeatures = {
+  label: string;
+  /** Own text or logo instead of the ViroEvents mark. */
+  customWatermark: boolean;
+  /** `watermark.kind: "none"`. */
+  removeWatermark: boolean;
+};
+
+export const PLANS: Record<OrganizerPlan, PlanFeatures> = {
+  free: { label: "Free", customWatermark: false, removeWatermark: false },
+  pro: { label: "Pro", customWatermark: true, removeWatermark: true },
+};
+
+// Plans that must show the mark cannot fade or shrink it out of sight
+const MIN_LOCKED_OPACITY = 0.2;
+const MIN_LOCKED_SIZE = 28;
+
+export function isOrganizerPlan(v: unknown): v is OrganizerPlan {
+  return typeof v === "string" && Object.hasOwn(PLANS, v);
+}
+
+/**
+ * The watermark actually painted for a template's setting under `plan`.
+ * Free plans always get the ViroEvents mark; they may move it and tune it down to a floor.
+ */
+export function effectiveWatermark(watermark: PosterWatermark | undefined, plan: OrganizerPlan): PosterWatermark {
+  const features = PLANS[plan];
+  const wm = watermark ?? DEFAULT_WATERMARK;
+
+  if (wm.kind === "none") return features.removeWatermark ? wm : DEFAULT_WATERMARK;
+  if (features.customWatermark) return wm;
+
+  return {
+    ...DEFAULT_WATERMARK,
+    position: wm.position,
+    opacity: Math.max(MIN_LOCKED_OPACITY, wm.opacity),
+    size: Math.max(MIN_LOCKED_SIZE, wm.size),
+  };
+}
+
+/**
+ * Plan of the organizer owning an event. Lookup failures fall back to free,
+ * so a broken read never lifts the watermark.
+ */
+export async function fetchOrganizerPlan(supabase: SupabaseClient, ownerId: string | null): Promise<OrganizerPlan> {
+  if (!ownerId) return "free";
+
+  const { data, error } = await supabase
+    .from("organizer_plans")
+    .select("plan")
+    .eq("owner_id", ownerId)
+    .maybeSingle<{ plan: string }>();
+
+  if (error) {
+    console.error("Organizer plan lookup failed:", error);
+    return "free";
+  }
+  return isOrganizerPlan(data?.plan) ? data.plan : "free";
+}
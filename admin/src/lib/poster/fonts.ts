@@ -0,0 +1,66 @@
+// admin/src/lib/poster/fonts.ts
+
+/**
+ * Font families organizers can pick for text layers.
+ *
+ * Files live in `public/fonts/<slug>-<weight>.woff2` (latin subset, SIL OFL, see OFL.txt).
+ * Browsers get them through the @font-face rules in `styles/fonts.css`, the
+ * server registers the same files with @napi-rs/canvas, so previews and exports
+ * never fall back to whatever the machine happens to have installed.
+ * Keep this list, the CSS and the files in sync.
+ */
+
+export type PosterFont = {
+  family: string;
+  slug: string;
+  weights: number[];
+  fallback: "sans-serif" | "serif" | "cursive";
+};
+
+export const POSTER_FONTS: PosterFont[] = [
+  { family: "Poppins", slug: "poppins", weights: [400, 600, 800], fallback: "sans-serif" },
+  { family: "Montserrat", slug: "montserrat", weights: [400, 700, 900], fallback: "sans-serif" },
+  { family: "Oswald", slug: "oswald", weights: [400, 700], fallback: "sans-serif" },
+  { family: "Bebas Neue", slug: "bebas-neue", weights: [400], fallback: "sans-serif" },
+  { family: "Playfair Display", slug: "playfair-display", weights: [400, 700, 900], fallback: "serif" },
+  { family: "Pacifico", slug: "pacifico", weights: [400], fallback: "cursive" },
+];
+
+export const DEFAULT_FONT = "Poppins";
+
+/** Weight used when a text layer does not set one (the original renderer drew 800). */
+export const DEFAULT_FONT_WEIGHT = 800;
+
+/** Registry entry for `family`, or the default font for unknown/missing names. */
+export function findPosterFont(family?: string): PosterFont {
+  const wanted = (family ?? "").trim().toLowerCase();
+  return (
+    POSTER_FONTS.find((f) => f.family.toLowerCase() === wanted) ??
+    POSTER_FONTS.find((f) => f.family === DEFAULT_FONT)!
+  );
+}
+
+/** Closest bundled weight, so nothing is ever synthesized differently by browser and server. */
+export function nearestFontWeight(font: PosterFont, weight: number): number {
+  return font.weights.reduce((best, w) => (Math.abs(w - weight) < Math.abs(best - weight) ? w : best));
+}
+
+export function fontFilePath(font: PosterFont, weight: number): string {
+  return `fonts/${font.slug}-${weight}.woff2`;
+}
+
+/**
+ * Browser only: waits until the faces used by these text layers are loaded,
+ * so a canvas export does not draw with a fallback font.
+ */
+export async function ensurePosterFonts(faces: { font?: string; weight?: number }[]): Promise<void> {
+  if (typeof document === "undefined" || !document.fonts) return;
+
+  const loads = faces.map(({ font: family, weight }) => {
+    const font = findPosterFont(family);
+    const w = nearestFontWeight(font, weight ?? DEFAULT_FONT_WEIGHT);
+    return document.fonts.load(`${w} 16px "${font.family}"`);
+  });
+
+  await Promise.all(loads).catch(() => undefined);
+}
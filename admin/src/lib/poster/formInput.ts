@@ -0,0 +1,222 @@
+// admin/src/lib/poster/formInput.ts
+import fs from "fs";
+import http from "http";
+import https from "https";
+import { lookup as dnsLookup } from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+import type { Fields, Files } from "formidable";
+import type { Template } from "@/types/template";
+import { firstString, getLocalPath, getSingleFile } from "@/lib/multipart";
+import { imageLayers, textFields } from "@/lib/template";
+import { PHOTO_ZOOM_MAX, type FocusPoint, type PhotoCrop } from "./render";
+
+/**
+ * Reads attendee inputs for a poster render from a multipart form.
+ *
+ *   <field>              one value per text field (e.g. `name`, `role`)
+ *   photo                image file for the first photo slot
+ *   photo_<layerId>      image file for any other photo slot
+ *   photoUrl[_<layerId>] http(s) image URL instead of a file (only with `allowPhotoUrls`)
+ *   focusX/Y[_<layerId>] optional 0..1 focus point inside the photo (e.g. face center)
+ *   zoom[_<layerId>]     optional crop zoom (1..5); focusX/Y is then the crop center
+ *   rotate[_<layerId>]   optional crop rotation in degrees
+ */
+
+export const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+export type PosterFormInput = {
+  texts: Record<string, string>;
+  photos: Record<string, { buffer: Buffer; focus: FocusPoint | null; crop: PhotoCrop | null }>;
+};
+
+function parseFocus(xRaw: string, yRaw: string): FocusPoint | null {
+  if (!xRaw || !yRaw) return null;
+  const x = Number(xRaw);
+  const y = Number(yRaw);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+  if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+  return { x, y };
+}
+
+function parseCrop(focus: FocusPoint | null, zoomRaw: string, rotateRaw: string): PhotoCrop | null {
+  if (!zoomRaw && !rotateRaw) return null;
+  const zoom = zoomRaw ? Number(zoomRaw) : 1;
+  const rotate = rotateRaw ? Number(rotateRaw) : 0;
+  if (!Number.isFinite(zoom) || zoom < 1 || zoom > PHOTO_ZOOM_MAX) return null;
+  if (!Number.isFinite(rotate) || Math.abs(rotate) > 360) return null;
+  return { x: focus?.x ?? 0.5, y: focus?.y ?? 0.5, zoom, rotate };
+}
+
+function isHttpUrl(u: string) {
+  try {
+    const url = new URL(u);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+const PHOTO_URL_TIMEOUT_MS = 15_000;
+const MAX_PHOTO_REDIRECTS = 3;
+
+// Photo URLs come from organizer CSVs, so the server must not be pointed at its own
+// network: loopback, private, link-local (incl. cloud metadata), CGNAT, multicast…
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["::ffff:0:0", 96], // IPv4-mapped
+  ["64:ff9b::", 96], // NAT64
+  ["100::", 64],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(net, prefix, "ipv6");
+}
+
+function isPublicAddress(ip: string) {
+  const family = isIP(ip);
+  if (family === 4) return !BLOCKED_ADDRESSES.check(ip, "ipv4");
+  if (family === 6) return !BLOCKED_ADDRESSES.check(ip, "ipv6");
+  return false;
+}
+
+// Checks every address the host resolves to; the socket then connects to one of those,
+// so a DNS answer cannot change between the check and the connection
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) {
+      return callback(new Error("Photo URL must point to a public address"), "", 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function requestPhoto(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    // Literal IPs skip the lookup, so check them here
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(host) && !isPublicAddress(host)) {
+      reject(new Error("Photo URL must point to a public address"));
+      return;
+    }
+
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.get(url, { lookup: publicOnlyLookup, signal, headers: { accept: "image/*" } }, resolve);
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Downloads a remote photo: public hosts only (redirects re-checked), size cap enforced
+ * while streaming, overall timeout.
+ */
+export async function fetchPhotoUrl(rawUrl: string): Promise<Buffer> {
+  if (!isHttpUrl(rawUrl)) throw new Error("Photo URL must be http(s)");
+
+  const signal = AbortSignal.timeout(PHOTO_URL_TIMEOUT_MS);
+  let url = new URL(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    const res = await requestPhoto(url, signal);
+    const status = res.statusCode ?? 0;
+
+    if (status >= 300 && status < 400 && res.headers.location) {
+      res.resume();
+      if (redirects >= MAX_PHOTO_REDIRECTS) throw new Error("Photo URL redirects too many times");
+      url = new URL(res.headers.location, url);
+      if (!isHttpUrl(url.href)) throw new Error("Photo URL must be http(s)");
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      res.resume();
+      throw new Error(`Photo URL returned ${status}`);
+    }
+
+    const type = res.headers["content-type"] ?? "";
+    if (type && !type.startsWith("image/") && !type.startsWith("application/octet-stream")) {
+      res.resume();
+      throw new Error("Photo URL is not an image");
+    }
+    if (Number(res.headers["content-length"] ?? 0) > MAX_PHOTO_BYTES) {
+      res.destroy();
+      throw new Error("Photo is larger than 10 MB");
+    }
+
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for await (const chunk of res) {
+      total += (chunk as Buffer).length;
+      if (total > MAX_PHOTO_BYTES) {
+        res.destroy();
+        throw new Error("Photo is larger than 10 MB");
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+}
+
+export async function readPosterForm(
+  template: Template,
+  fields: Fields,
+  files: Files,
+  options: { allowPhotoUrls?: boolean } = {}
+): Promise<{ ok: true; input: PosterFormInput } | { ok: false; error: string }> {
+  const texts: Record<string, string> = {};
+  for (const { field } of textFields(template)) {
+    const value = firstString(fields[field]).trim();
+    if (!value) return { ok: false, error: `Missing ${field}` };
+    texts[field] = value;
+  }
+
+  const photos: PosterFormInput["photos"] = {};
+  for (const [i, layer] of imageLayers(template).entries()) {
+    const suffix = `_${layer.id}`;
+    const pick = (base: string) => firstString(fields[`${base}${suffix}`]) || (i === 0 ? firstString(fields[base]) : "");
+
+    const file = getSingleFile(files, `photo${suffix}`) ?? (i === 0 ? getSingleFile(files, "photo") : null);
+    const localPath = file ? getLocalPath(file) : "";
+    const photoUrl = options.allowPhotoUrls ? pick("photoUrl").trim() : "";
+
+    let buffer: Buffer;
+    if (localPath) {
+      if (typeof file?.mimetype === "string" && !file.mimetype.startsWith("image/")) {
+        return { ok: false, error: "Photo must be an image" };
+      }
+      buffer = fs.readFileSync(localPath);
+    } else if (photoUrl) {
+      try {
+        buffer = await fetchPhotoUrl(photoUrl);
+      } catch (e) {
+        return { ok: false, error: e instanceof Error ? e.message : "Photo download failed" };
+      }
+    } else {
+      return { ok: false, error: `Missing photo for slot ${layer.id}` };
+    }
+
+    const focus = parseFocus(pick("focusX"), pick("focusY"));
+    photos[layer.id] = { buffer, focus, crop: parseCrop(focus, pick("zoom"), pick("rotate")) };
+  }
+
+  return { ok: true, input: { texts, photos } };
+}
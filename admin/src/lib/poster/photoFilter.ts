@@ -0,0 +1,98 @@
+// admin/src/lib/poster/photoFilter.ts
+import type { PhotoFilter } from "@/types/template";
+
+/**
+ * Photo color grading as a plain pixel pass, so the attendee preview, the
+ * browser export and the server render produce the same colors.
+ * Matrices follow the CSS filter definitions (Filter Effects spec).
+ */
+
+/** True when the filter changes anything. */
+export function isPhotoFilterActive(filter?: PhotoFilter | null): filter is PhotoFilter {
+  if (!filter) return false;
+  return filter.tone !== "none" || filter.brightness !== 100 || filter.contrast !== 100 || filter.saturation !== 100;
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  let h = hex.slice(1);
+  if (h.length === 3) h = h.replace(/./g, "$&$&");
+  return [parseInt(h.slice(0, 2), 16), parseInt(h.slice(2, 4), 16), parseInt(h.slice(4, 6), 16)];
+}
+
+function luminance(r: number, g: number, b: number) {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** Filters RGBA pixels (e.g. `ImageData.data`) in place; alpha is kept. */
+export function applyPhotoFilter(data: Uint8ClampedArray, filter: PhotoFilter) {
+  const brightness = filter.brightness / 100;
+  const contrast = filter.contrast / 100;
+  const saturation = filter.saturation / 100;
+  const dark = hexToRgb(filter.duotone?.dark ?? "#000000");
+  const light = hexToRgb(filter.duotone?.light ?? "#FFFFFF");
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * brightness;
+    let g = data[i + 1] * brightness;
+    let b = data[i + 2] * brightness;
+
+    r = (r - 128) * contrast + 128;
+    g = (g - 128) * contrast + 128;
+    b = (b - 128) * contrast + 128;
+
+    if (saturation !== 1) {
+      const l = luminance(r, g, b);
+      r = l + (r - l) * saturation;
+      g = l + (g - l) * saturation;
+      b = l + (b - l) * saturation;
+    }
+
+    switch (filter.tone) {
+      case "grayscale":
+        r = g = b = luminance(r, g, b);
+        break;
+      case "sepia":
+        [r, g, b] = [
+          0.393 * r + 0.769 * g + 0.189 * b,
+          0.349 * r + 0.686 * g + 0.168 * b,
+          0.272 * r + 0.534 * g + 0.131 * b,
+        ];
+        break;
+      case "duotone": {
+        const t = Math.min(1, Math.max(0, luminance(r, g, b) / 255));
+        r = dark[0] + (light[0] - dark[0]) * t;
+        g = dark[1] + (light[1] - dark[1]) * t;
+        b = dark[2] + (light[2] - dark[2]) * t;
+        break;
+      }
+    }
+
+    // Uint8ClampedArray rounds and clamps on write
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
+
+/** Browser only: returns the photo with the filter applied, as PNG (keeps cutout transparency). */
+export async function filterPhotoBlob(photo: Blob, filter: PhotoFilter): Promise<Blob> {
+  const bitmap = await createImageBitmap(photo);
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas not supported");
+
+    ctx.drawImage(bitmap, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyPhotoFilter(pixels.data, filter);
+    ctx.putImageData(pixels, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Photo encoding failed"))), "image/png")
+    );
+  } finally {
+    bitmap.close();
+  }
+}
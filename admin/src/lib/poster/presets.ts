@@ -0,0 +1,34 @@
+// admin/src/lib/poster/presets.ts
+import type { CanvasPresetId } from "@/types/template";
+
+/**
+ * Output sizes organizers can pick for an event's poster.
+ * Print sizes are at 300 dpi; A5/A4 are portrait.
+ */
+
+export type CanvasPreset = {
+  id: CanvasPresetId;
+  label: string;
+  width: number;
+  height: number;
+};
+
+export const CANVAS_PRESETS: CanvasPreset[] = [
+  { id: "square", label: "Square post (1:1)", width: 1080, height: 1080 },
+  { id: "portrait", label: "Portrait post (4:5)", width: 1080, height: 1350 },
+  { id: "story", label: "Story / Status (9:16)", width: 1080, height: 1920 },
+  { id: "link", label: "Link preview (1.91:1)", width: 1200, height: 628 },
+  { id: "a5", label: "A5 print (300 dpi)", width: 1748, height: 2480 },
+  { id: "a4", label: "A4 print (300 dpi)", width: 2480, height: 3508 },
+];
+
+export const CANVAS_PRESET_IDS = CANVAS_PRESETS.map((p) => p.id);
+
+/** Preset matching a template canvas: by id, else by exact size. */
+export function findCanvasPreset(canvas: { width: number; height: number; preset?: CanvasPresetId }) {
+  return (
+    CANVAS_PRESETS.find((p) => p.id === canvas.preset) ??
+    CANVAS_PRESETS.find((p) => p.width === canvas.width && p.height === canvas.height) ??
+    null
+  );
+}
@@ -0,0 +1,592 @@
+// admin/src/lib/poster/render.ts
+import type {
+  ImageLayer,
+  LogoLayer,
+  PhotoOutline,
+  PosterWatermark,
+  ShapeLayer,
+  Template,
+  TextLayer,
+} from "@/types/template";
+import { DEFAULT_WATERMARK, WATERMARK_ASSET_ID, sortLayers } from "@/lib/template";
+import { TEXT_LINE_HEIGHT, fitText, resolveTextStyle, setTextFont } from "./textStyle";
+
+/**
+ * Shared poster pipeline.
+ *
+ * Used by the attendee page (browser canvas) and by `/api/render-poster`
+ * (@napi-rs/canvas), so both produce the same flyer at the template's canvas size.
+ * Everything here only talks to the standard 2D context API.
+ */
+
+/**
+ * Layer sizes (photo diameter, font size, strokes…) are authored for a canvas this
+ * wide and scale with the output width, so a design keeps its proportions on every preset.
+ */
+export const DESIGN_W = 1080;
+
+/** Output size in px, from `template.canvas`. */
+export type PosterSize = { width: number; height: number };
+
+export function posterSize(tpl: Pick<Template, "canvas">): PosterSize {
+  return { width: tpl.canvas.width || DESIGN_W, height: tpl.canvas.height || DESIGN_W };
+}
+
+/** Design px -> output px for this poster size. */
+export function designScale(size: PosterSize): number {
+  return size.width / DESIGN_W;
+}
+
+/** Longest side of an exported image; bigger canvases fail to allocate on phones. */
+export const MAX_EXPORT_SIDE = 8192;
+
+/** Requested export scale (`template.export.scale`), reduced so neither side exceeds `MAX_EXPORT_SIDE`. */
+export function exportScale(size: PosterSize, scale = 1): number {
+  return Math.max(1 / 8, Math.min(scale, MAX_EXPORT_SIDE / Math.max(size.width, size.height)));
+}
+
+/** Print sizes (A5/A4 presets) are 300 dpi; PDFs map canvas px to paper at this resolution. */
+export const PRINT_DPI = 300;
+
+export function mmToPx(mm: number, dpi = PRINT_DPI): number {
+  return (mm / 25.4) * dpi;
+}
+
+/** Anything drawImage accepts that also exposes its pixel size (DOM or @napi-rs/canvas image). */
+export type PosterImage = CanvasImageSource & {
+  width: number;
+  height: number;
+  naturalWidth?: number;
+  naturalHeight?: number;
+};
+
+export type FocusPoint = { x: number; y: number };
+
+/**
+ * Attendee framing of a photo inside its slot.
+ * x/y is the image point (0..1 of its width/height) shown at the slot center,
+ * zoom multiplies the cover scale (1 = just covers the slot), rotate is degrees clockwise.
+ */
+export type PhotoCrop = { x: number; y: number; zoom: number; rotate: number };
+
+export const PHOTO_ZOOM_MAX = 5;
+
+/** Layers resolved into output-space pixels (x/y are centers). */
+export type LayerLayout =
+  | { kind: "image"; layer: ImageLayer; x: number; y: number; size: number; r: number }
+  | { kind: "text"; layer: TextLayer; x: number; y: number; w: number; h: number; size: number }
+  | { kind: "shape"; layer: ShapeLayer; x: number; y: number; w: number; h: number; radius: number }
+  | { kind: "logo"; layer: LogoLayer; x: number; y: number; w: number; h: number };
+
+export function clamp(v: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, v));
+}
+
+function boxToOut(layer: { x: number; y: number; w: number; h: number }, out: PosterSize) {
+  return { x: layer.x * out.width, y: layer.y * out.height, w: layer.w * out.width, h: layer.h * out.height };
+}
+
+/** Resolves template layers into output-space geometry, in paint order. */
+export function computePosterLayout(tpl: Template): LayerLayout[] {
+  const out = posterSize(tpl);
+  const scaleToOut = designScale(out);
+
+  return sortLayers(tpl.layers).map((layer): LayerLayout => {
+    switch (layer.kind) {
+      case "image": {
+        const size = layer.size * scaleToOut;
+        const r = size / 2;
+        return {
+          kind: "image",
+          layer,
+          x: clamp(layer.x * out.width, r, out.width - r),
+          y: clamp(layer.y * out.height, r, out.height - r),
+          size,
+          r,
+        };
+      }
+      case "text":
+        return { kind: "text", layer, ...boxToOut(layer, out), size: layer.size * scaleToOut };
+      case "shape":
+        return { kind: "shape", layer, ...boxToOut(layer, out), radius: (layer.radius ?? 0) * scaleToOut };
+      case "logo":
+        return { kind: "logo", layer, ...boxToOut(layer, out) };
+    }
+  });
+}
+
+function imageSize(img: PosterImage) {
+  return {
+    iw: img.naturalWidth || img.width,
+    ih: img.naturalHeight || img.height,
+  };
+}
+
+// Draws img like CSS object-fit: cover, keeping the focus point at `align` inside the box
+export function coverDraw(
+  ctx: CanvasRenderingContext2D,
+  img: PosterImage,
+  dx: number,
+  dy: number,
+  dw: number,
+  dh: number,
+  focus?: FocusPoint,
+  align: FocusPoint = { x: 0.5, y: 0.5 }
+) {
+  const { iw, ih } = imageSize(img);
+  if (!iw || !ih) return;
+
+  const scale = Math.max(dw / iw, dh / ih);
+  const sw = dw / scale;
+  const sh = dh / scale;
+
+  // Default center (0.5)
+  const fx = focus?.x ?? 0.5;
+  const fy = focus?.y ?? 0.5;
+
+  // We want source point (fx * iw) to be at destination relative point (align.x * sw)
+  let sx = iw * fx - sw * align.x;
+  let sy = ih * fy - sh * align.y;
+
+  // Clamp to ensure we don't go outside image bounds
+  sx = Math.max(0, Math.min(iw - sw, sx));
+  sy = Math.max(0, Math.min(ih - sh, sy));
+
+  ctx.drawImage(img, sx, sy, sw, sh, dx, dy, dw, dh);
+}
+
+/** Framing for a photo with only a focus point (e.g. a detected face): cover, centered on it. */
+export function cropFromFocus(focus?: FocusPoint | null): PhotoCrop {
+  return { x: focus?.x ?? 0.5, y: focus?.y ?? 0.5, zoom: 1, rotate: 0 };
+}
+
+/**
+ * Clamps a crop so the unrotated image still covers the slot (like `coverDraw`).
+ * Only the aspect ratio matters, so previews and exports of any size agree.
+ */
+export function clampPhotoCrop(crop: PhotoCrop, iw: number, ih: number): PhotoCrop {
+  const zoom = clamp(Number.isFinite(crop.zoom) ? crop.zoom : 1, 1, PHOTO_ZOOM_MAX);
+  const rotate = Number.isFinite(crop.rotate) ? ((((crop.rotate + 180) % 360) + 360) % 360) - 180 : 0;
+  if (!iw || !ih) return { x: 0.5, y: 0.5, zoom, rotate };
+
+  // Half the slot, as a fraction of the scaled image size
+  const hw = 0.5 / (zoom * Math.max(1, iw / ih));
+  const hh = 0.5 / (zoom * Math.max(1, ih / iw));
+  return { x: clamp(crop.x, hw, 1 - hw), y: clamp(crop.y, hh, 1 - hh), zoom, rotate };
+}
+
+/** Scaled image size for a square slot of `slotSize` px at this zoom. */
+export function photoCropSize(iw: number, ih: number, slotSize: number, zoom: number) {
+  const scale = Math.max(slotSize / iw, slotSize / ih) * zoom;
+  return { w: iw * scale, h: ih * scale };
+}
+
+function drawCroppedPhoto(
+  ctx: CanvasRenderingContext2D,
+  img: PosterImage,
+  slot: Extract<LayerLayout, { kind: "image" }>,
+  raw: PhotoCrop
+) {
+  const { iw, ih } = imageSize(img);
+  if (!iw || !ih) return;
+
+  const crop = clampPhotoCrop(raw, iw, ih);
+  const { w, h } = photoCropSize(iw, ih, slot.size, crop.zoom);
+
+  ctx.translate(slot.x, slot.y);
+  ctx.rotate((crop.rotate * Math.PI) / 180);
+  ctx.drawImage(img, -crop.x * w, -crop.y * h, w, h);
+}
+
+// Draws img like CSS object-fit: contain, centered in the box
+function containDraw(
+  ctx: CanvasRenderingContext2D,
+  img: PosterImage,
+  cx: number,
+  cy: number,
+  dw: number,
+  dh: number
+) {
+  const { iw, ih } = imageSize(img);
+  if (!iw || !ih) return;
+
+  const scale = Math.min(dw / iw, dh / ih);
+  const w = iw * scale;
+  const h = ih * scale;
+  ctx.drawImage(img, cx - w / 2, cy - h / 2, w, h);
+}
+
+function roundRectPath(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, rr: number) {
+  const r = Math.max(0, Math.min(rr, w / 2, h / 2));
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+}
+
+/** How a slot is actually drawn: cutout slots without a cut-out photo fall back to a circle. */
+export function photoSlotShape(
+  layer: ImageLayer,
+  photo?: Pick<PosterPhoto, "cutout"> | null
+): "circle" | "square" | "cutout" {
+  if (layer.shape === "cutout") return photo?.cutout ? "cutout" : "circle";
+  return layer.shape;
+}
+
+// Slot outline grown by `grow` px on every side; cutouts use the plain square
+function photoSlotPath(
+  ctx: CanvasRenderingContext2D,
+  slot: Extract<LayerLayout, { kind: "image" }>,
+  shape: "circle" | "square" | "cutout",
+  grow = 0
+) {
+  ctx.beginPath();
+
+  if (shape === "circle") {
+    ctx.arc(slot.x, slot.y, slot.r + grow, 0, Math.PI * 2);
+  } else {
+    const half = slot.r + grow;
+    const radius = shape === "square" ? 18 * (slot.size / slot.layer.size) + grow : 0;
+    roundRectPath(ctx, slot.x - half, slot.y - half, half * 2, half * 2, radius);
+  }
+}
+
+function ringStyle(
+  ctx: CanvasRenderingContext2D,
+  slot: Extract<LayerLayout, { kind: "image" }>,
+  outline: PhotoOutline,
+  reach: number
+): string | CanvasGradient {
+  if (!outline.gradient) return outline.color;
+
+  // CSS angle convention: 0deg points up, 90deg points right
+  const a = (outline.gradient.angle * Math.PI) / 180;
+  const dx = Math.sin(a) * reach;
+  const dy = -Math.cos(a) * reach;
+  const g = ctx.createLinearGradient(slot.x - dx, slot.y - dy, slot.x + dx, slot.y + dy);
+  g.addColorStop(0, outline.color);
+  g.addColorStop(1, outline.gradient.color);
+  return g;
+}
+
+/**
+ * How far (output px) a slot's ring, glow and frame reach past its edge.
+ * Previews that paint a slot on its own canvas pad it by this much.
+ */
+export function photoSlotBleed(slot: Extract<LayerLayout, { kind: "image" }>): number {
+  const k = slot.size / slot.layer.size;
+  const ring = (slot.layer.outline?.width ?? 0) * k;
+  // A canvas shadow fades out at about 1.5× its blur
+  const glow = (slot.layer.glow?.blur ?? 0) * k * 1.5;
+  const frame = ((slot.layer.frame?.scale ?? 1) - 1) * slot.r;
+  return Math.ceil(Math.max(ring + glow, frame, 0));
+}
+
+/** True when the slot has a ring, glow or frame on top of the bare photo. */
+export function hasPhotoSlotDecor(layer: ImageLayer): boolean {
+  return (layer.outline?.width ?? 0) > 0 || (layer.glow?.blur ?? 0) > 0 || !!layer.frame?.src;
+}
+
+// Beyond any canvas width (TEMPLATE_LIMITS.canvasMax), so the shape itself never shows
+const SHADOW_AWAY = 16384;
+
+/**
+ * Paints only the shadow of `paint`: the shape is drawn far off-canvas and its
+ * shadow thrown back into place, offset by (x, y) output px. Shadows ignore the
+ * transform, so offsets and blur are mapped to device px here.
+ */
+function paintShadowOnly(
+  ctx: CanvasRenderingContext2D,
+  shadow: { color: string; blur: number; x: number; y: number },
+  paint: (dx: number) => void
+) {
+  const m = ctx.getTransform();
+  const scale = Math.hypot(m.a, m.b) || 1;
+  const away = SHADOW_AWAY;
+
+  ctx.save();
+  ctx.shadowColor = shadow.color;
+  ctx.shadowBlur = shadow.blur * scale;
+  ctx.shadowOffsetX = shadow.x * scale + m.a * away;
+  ctx.shadowOffsetY = shadow.y * scale + m.b * away;
+  paint(-away);
+  ctx.restore();
+}
+
+/** Directions used to build a silhouette outline out of offset shadows. */
+const OUTLINE_STEPS = 16;
+
+/**
+ * Paints one photo slot: outer glow, the clipped photo, the ring, then the frame.
+ * Circle and square slots get the ring outside the photo edge; cutouts outline and
+ * glow the silhouette instead, inside the slot. Without a photo only the decorations
+ * are drawn (editor and empty-slot previews).
+ */
+export function drawPhotoSlot(
+  ctx: CanvasRenderingContext2D,
+  slot: Extract<LayerLayout, { kind: "image" }>,
+  photo: PosterPhoto | null,
+  frame?: PosterImage | null
+) {
+  const shape = photoSlotShape(slot.layer, photo);
+  const k = slot.size / slot.layer.size;
+  const { glow, outline } = slot.layer;
+  const ringWidth = shape !== "cutout" && outline ? outline.width * k : 0;
+
+  if (shape !== "cutout" && glow && glow.blur > 0) {
+    paintShadowOnly(ctx, { color: glow.color, blur: glow.blur * k, x: 0, y: 0 }, (dx) => {
+      ctx.save();
+      ctx.translate(dx, 0);
+      photoSlotPath(ctx, slot, shape, ringWidth);
+      ctx.fillStyle = glow.color;
+      ctx.fill();
+      ctx.restore();
+    });
+  }
+
+  if (photo) {
+    const crop = photo.crop ?? cropFromFocus(photo.focus);
+    const paint = (dx: number) => {
+      ctx.save();
+      ctx.translate(dx, 0);
+      drawCroppedPhoto(ctx, photo.image, slot, crop);
+      ctx.restore();
+    };
+
+    ctx.save();
+    photoSlotPath(ctx, slot, shape);
+    ctx.clip();
+
+    if (shape === "cutout") {
+      if (glow && glow.blur > 0) {
+        paintShadowOnly(ctx, { color: glow.color, blur: glow.blur * k, x: 0, y: 0 }, paint);
+      }
+      if (outline && outline.width > 0) {
+        const w = outline.width * k;
+        for (let i = 0; i < OUTLINE_STEPS; i++) {
+          const a = (i / OUTLINE_STEPS) * Math.PI * 2;
+          paintShadowOnly(ctx, { color: outline.color, blur: 0, x: w * Math.cos(a), y: w * Math.sin(a) }, paint);
+        }
+      }
+    }
+
+    paint(0);
+    ctx.restore();
+  }
+
+  if (outline && ringWidth > 0) {
+    ctx.save();
+    photoSlotPath(ctx, slot, shape, ringWidth / 2);
+    ctx.lineWidth = ringWidth;
+    ctx.strokeStyle = ringStyle(ctx, slot, outline, slot.r + ringWidth);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  if (frame) {
+    const size = slot.size * (slot.layer.frame?.scale ?? 1);
+    containDraw(ctx, frame, slot.x, slot.y, size, size);
+  }
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, item: Extract<LayerLayout, { kind: "shape" }>) {
+  ctx.save();
+  ctx.globalAlpha = clamp(item.layer.opacity ?? 1, 0, 1);
+  ctx.fillStyle = item.layer.color;
+  ctx.beginPath();
+
+  if (item.layer.shape === "ellipse") {
+    ctx.ellipse(item.x, item.y, item.w / 2, item.h / 2, 0, 0, Math.PI * 2);
+  } else {
+    roundRectPath(ctx, item.x - item.w / 2, item.y - item.h / 2, item.w, item.h, item.radius);
+  }
+
+  ctx.fill();
+  ctx.restore();
+}
+
+function drawText(ctx: CanvasRenderingContext2D, item: Extract<LayerLayout, { kind: "text" }>, value: string) {
+  const style = resolveTextStyle(item.layer);
+  // Template px -> output px (item.size is already scaled)
+  const k = item.size / item.layer.size;
+
+  ctx.save();
+  const { size, lines } = fitText(ctx, item, value);
+  if (!lines.length) {
+    ctx.restore();
+    return;
+  }
+
+  setTextFont(ctx, item, size);
+  ctx.textAlign = style.align;
+  ctx.textBaseline = "alphabetic";
+
+  const x = style.align === "left" ? item.x - item.w / 2 : style.align === "right" ? item.x + item.w / 2 : item.x;
+
+  // Stack line boxes around the center like a CSS flex column (not the em box)
+  const lineH = size * TEXT_LINE_HEIGHT;
+  const m = ctx.measureText(lines[0]);
+  const baseline =
+    m.fontBoundingBoxAscent !== undefined && m.fontBoundingBoxDescent !== undefined
+      ? (m.fontBoundingBoxAscent - m.fontBoundingBoxDescent) / 2
+      : size * 0.35;
+  const top = item.y - (lineH * lines.length) / 2;
+
+  const paint = (dx: number) => {
+    lines.forEach((line, i) => {
+      const y = top + (i + 0.5) * lineH + baseline;
+      if (style.stroke) {
+        ctx.lineJoin = "round";
+        ctx.lineWidth = style.stroke.width * k;
+        ctx.strokeStyle = style.stroke.color;
+        ctx.strokeText(line, x + dx, y);
+      }
+      ctx.fillStyle = item.layer.color;
+      ctx.fillText(line, x + dx, y);
+    });
+  };
+
+  if (style.shadow) {
+    // Separate pass so the shadow sits under both stroke and fill (like CSS text-shadow)
+    const { color, blur, x: sx, y: sy } = style.shadow;
+    paintShadowOnly(ctx, { color, blur: blur * k, x: sx * k, y: sy * k }, paint);
+  }
+
+  paint(0);
+  ctx.restore();
+}
+
+/** Watermark inset from the poster edges, design px. */
+export const WATERMARK_MARGIN = 40;
+
+/** Vertical and horizontal anchor of a watermark position ("center" is both). */
+export function watermarkAnchor(position: PosterWatermark["position"]) {
+  const [v, h = "center"] = position.split("-") as ["top" | "bottom" | "center", ("left" | "right" | "center")?];
+  return { v, h };
+}
+
+/**
+ * Paints the watermark in white (text) or as the organizer's logo, anchored to a
+ * corner, bottom center or the middle. A logo that failed to load falls back to text
+ * so the mark is never silently dropped.
+ */
+export function drawWatermark(
+  ctx: CanvasRenderingContext2D,
+  size: PosterSize,
+  watermark: PosterWatermark = DEFAULT_WATERMARK,
+  logo?: PosterImage
+) {
+  if (watermark.kind === "none") return;
+
+  const k = designScale(size);
+  const m = WATERMARK_MARGIN * k;
+  const { v, h } = watermarkAnchor(watermark.position);
+  const x = h === "left" ? m : h === "right" ? size.width - m : size.width / 2;
+  const y = v === "top" ? m : v === "bottom" ? size.height - m : size.height / 2;
+
+  ctx.save();
+  ctx.globalAlpha = watermark.opacity;
+
+  if (watermark.kind === "logo" && logo) {
+    const iw = logo.naturalWidth || logo.width;
+    const ih = logo.naturalHeight || logo.height;
+    const w = watermark.size * k;
+    const lh = iw ? (w * ih) / iw : w;
+    const left = h === "left" ? x : h === "right" ? x - w : x - w / 2;
+    const top = v === "top" ? y : v === "bottom" ? y - lh : y - lh / 2;
+    ctx.drawImage(logo, left, top, w, lh);
+  } else {
+    ctx.fillStyle = "#ffffff";
+    ctx.font = `bold ${watermark.size * k}px Arial, sans-serif`;
+    ctx.textAlign = h;
+    ctx.textBaseline = v === "center" ? "middle" : v;
+    ctx.fillText(watermark.text || DEFAULT_WATERMARK.text!, x, y);
+  }
+
+  ctx.restore();
+}
+
+/**
+ * `crop` wins over `focus`; with neither the photo is centered.
+ * `cutout` marks an image whose background was already removed (transparent PNG).
+ */
+export type PosterPhoto = {
+  image: PosterImage;
+  focus?: FocusPoint | null;
+  crop?: PhotoCrop | null;
+  cutout?: boolean;
+};
+
+export type DrawPosterInput = {
+  /** Output size; the context must be at least this big (see `posterSize`). */
+  size: PosterSize;
+  /**
+   * Output px of background painted around the poster for print bleed.
+   * The context origin stays the poster's top-left corner, so it must be translated by `bleed`.
+   */
+  bleed?: number;
+  layout: LayerLayout[];
+  background: PosterImage;
+  /** Attendee photos keyed by image layer id. Slots without a photo are left empty. */
+  photos: Record<string, PosterPhoto | undefined>;
+  /** Attendee inputs keyed by text layer field. Empty values are skipped. */
+  texts: Record<string, string | undefined>;
+  /** Loaded layer images keyed by layer id: logo files and photo slot frames (plus `WATERMARK_ASSET_ID`). */
+  assets?: Record<string, PosterImage | undefined>;
+  /** Already resolved against the organizer's plan (see `effectiveWatermark`); missing draws the default. */
+  watermark?: PosterWatermark;
+};
+
+/** Paints the full poster (background, layers in z order, watermark) onto a `size` context. */
+export function drawPoster(ctx: CanvasRenderingContext2D, input: DrawPosterInput) {
+  const { size, layout, background, photos, texts, assets, watermark, bleed = 0 } = input;
+
+  // Backgrounds of another aspect ratio are cropped like CSS object-fit: cover
+  coverDraw(ctx, background, -bleed, -bleed, size.width + bleed * 2, size.height + bleed * 2);
+
+  for (const item of layout) {
+    switch (item.kind) {
+      case "image": {
+        const photo = photos[item.layer.id];
+        if (!photo) break;
+
+        drawPhotoSlot(ctx, item, photo, assets?.[item.layer.id]);
+        break;
+      }
+
+      case "text": {
+        const value = (texts[item.layer.field] ?? "").trim();
+        if (!value) break;
+
+        drawText(ctx, item, value);
+        break;
+      }
+
+      case "shape":
+        drawShape(ctx, item);
+        break;
+
+      case "logo": {
+        const img = assets?.[item.layer.id];
+        if (img) containDraw(ctx, img, item.x, item.y, item.w, item.h);
+        break;
+      }
+    }
+  }
+
+  drawWatermark(ctx, size, watermark, assets?.[WATERMARK_ASSET_ID]);
+}
+
+/** Download filename used for generated posters, e.g. `jane-doe-VE-AB12C.jpg`. */
+export function posterFilename(name: string, eventCode: string, ext: "jpg" | "png" | "pdf" = "jpg", variant?: string) {
+  const safeName = name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9-_]/g, "");
+  const safeCode = (eventCode || "VF").replace(/[^a-z0-9-_]/gi, "");
+  const suffix = variant ? `-${variant.replace(/[^a-z0-9-_]/gi, "")}` : "";
+  return `${safeName || "poster"}-${safeCode}${suffix}.${ext}`;
+}
@@ -0,0 +1,52 @@
+// admin/src/lib/poster/segment.ts
+
+/**
+ * Person segmentation for cutout photo slots (Node only).
+ * Calls the python_api `/segment` endpoint at SEGMENT_URL, which answers with
+ * the photo as an RGBA PNG whose background is transparent.
+ */
+
+export class SegmentationNotConfigured extends Error {}
+
+const SEGMENT_TIMEOUT_MS = 20_000;
+
+/** Best guess at the image type from its magic bytes (the service only checks for `image/`). */
+function sniffImageType(buf: Buffer): string {
+  if (buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (buf[0] === 0xff && buf[1] === 0xd8) return "image/jpeg";
+  if (buf.subarray(0, 4).toString("latin1") === "RIFF" && buf.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "image/webp";
+  }
+  return "image/jpeg";
+}
+
+/**
+ * Returns the cut-out person as PNG bytes.
+ * Throws `SegmentationNotConfigured` when SEGMENT_URL is missing, and a plain Error
+ * when the service fails or times out.
+ */
+export async function requestCutout(buffer: Buffer, type?: string): Promise<Buffer> {
+  const url = process.env.SEGMENT_URL;
+  if (!url) throw new SegmentationNotConfigured("SEGMENT_URL is not set");
+
+  const form = new FormData();
+  form.append("file", new Blob([new Uint8Array(buffer)], { type: type || sniffImageType(buffer) }), "photo");
+
+  const r = await fetch(url, { method: "POST", body: form, signal: AbortSignal.timeout(SEGMENT_TIMEOUT_MS) });
+  if (!r.ok) throw new Error(`Segmentation service returned ${r.status}`);
+  if (!(r.headers.get("content-type") ?? "").startsWith("image/png")) {
+    throw new Error("Unexpected response from segmentation service");
+  }
+
+  return Buffer.from(await r.arrayBuffer());
+}
+
+/** `requestCutout` that resolves null instead of throwing, for renders that fall back to a circle. */
+export async function tryCutout(buffer: Buffer): Promise<Buffer | null> {
+  try {
+    return await requestCutout(buffer);
+  } catch (e) {
+    if (!(e instanceof SegmentationNotConfigured)) console.warn("Photo segmentation failed:", e);
+    return null;
+  }
+}
@@ -0,0 +1,336 @@
+// admin/src/lib/poster/server.ts
+import path from "path";
+import { GlobalFonts, PDFDocument, createCanvas, loadImage, type SKRSContext2D } from "@napi-rs/canvas";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ImageLayer, PhotoFilter, PosterExport, Template } from "@/types/template";
+import { normalizeStoragePath } from "@/lib/storagePath";
+import { EVENT_ASSETS_BUCKET } from "@/lib/supabase/admin";
+import { layerAssetPaths, upgradeTemplate } from "@/lib/template";
+import { effectiveWatermark, fetchOrganizerPlan, type OrganizerPlan } from "@/lib/plans";
+import { EVENT_WINDOW_COLUMNS, getEventAvailability, type EventWindowRow } from "@/lib/eventAvailability";
+import { POSTER_FONTS, fontFilePath } from "./fonts";
+import { applyPhotoFilter, isPhotoFilterActive } from "./photoFilter";
+import { CANVAS_PRESETS } from "./presets";
+import { tryCutout } from "./segment";
+import {
+  PRINT_DPI,
+  computePosterLayout,
+  coverDraw,
+  drawPoster,
+  exportScale,
+  mmToPx,
+  posterSize,
+  type FocusPoint,
+  type PhotoCrop,
+  type PosterImage,
+  type PosterPhoto,
+  type PosterSize,
+} from "./render";
+
+/**
+ * Server-side poster rendering (Node only — do not import from pages that run in the browser).
+ */
+
+export type PosterFormat = "jpeg" | "png" | "pdf";
+
+export const POSTER_CONTENT_TYPES: Record<PosterFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  pdf: "application/pdf",
+};
+
+export function posterExtension(format: PosterFormat) {
+  return format === "jpeg" ? "jpg" : format;
+}
+
+/**
+ * Resolves the requested format (empty = the event's default) against `template.export`:
+ * image scale for jpeg/png, bleed and crop marks for pdf, which the event must enable.
+ */
+export function readExportOptions(
+  template: Template,
+  formatRaw: string
+): { ok: true; format: PosterFormat; scale: number; pdf?: RenderPosterInput["pdf"] } | { ok: false; error: string } {
+  const options = template.export;
+  const format = formatRaw || options?.format || "jpeg";
+
+  if (format === "pdf") {
+    if (!options?.pdf) return { ok: false, error: "PDF export is not enabled for this event" };
+    return { ok: true, format, scale: 1, pdf: options.pdf };
+  }
+  if (format !== "jpeg" && format !== "png") return { ok: false, error: "format must be jpeg, png or pdf" };
+  return { ok: true, format, scale: options?.scale ?? 1 };
+}
+
+export type PublishedEvent = {
+  id: string;
+  eventCode: string;
+  template: Template;
+  /** Plan of the event's organizer; decides which watermark is painted. */
+  plan: OrganizerPlan;
+};
+
+/** Loads an event by code, or null unless it is published and inside its publishing window. */
+export async function fetchPublishedEvent(
+  supabase: SupabaseClient,
+  eventCode: string
+): Promise<PublishedEvent | null> {
+  const { data, error } = await supabase
+    .from("events")
+    .select(`id,event_code,owner_id,template,${EVENT_WINDOW_COLUMNS}`)
+    .eq("event_code", eventCode)
+    .eq("published", true)
+    .maybeSingle<EventWindowRow & { id: string; event_code: string; owner_id: string | null; template: unknown }>();
+
+  if (error) throw new Error(error.message);
+  if (!data || getEventAvailability(data).state !== "open") return null;
+
+  return {
+    id: data.id,
+    eventCode: data.event_code,
+    template: upgradeTemplate(data.template),
+    plan: await fetchOrganizerPlan(supabase, data.owner_id),
+  };
+}
+
+/** Loads any event by id (drafts included); callers must check ownership first. */
+export async function fetchEventById(supabase: SupabaseClient, eventId: string): Promise<PublishedEvent | null> {
+  const { data, error } = await supabase
+    .from("events")
+    .select("id,event_code,owner_id,template")
+    .eq("id", eventId)
+    .maybeSingle<{ id: string; event_code: string | null; owner_id: string | null; template: unknown }>();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  return {
+    id: data.id,
+    eventCode: data.event_code ?? "",
+    template: upgradeTemplate(data.template),
+    plan: await fetchOrganizerPlan(supabase, data.owner_id),
+  };
+}
+
+async function downloadAsset(supabase: SupabaseClient, rawPath: string | undefined): Promise<Buffer | null> {
+  const path = normalizeStoragePath(rawPath);
+  if (!path) return null;
+
+  const { data, error } = await supabase.storage.from(EVENT_ASSETS_BUCKET).download(path);
+  if (error || !data) throw new Error(error?.message ?? `Download failed: ${path}`);
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/** Downloads the event background straight from storage (no signed URL / CORS round trip). */
+export async function downloadBackground(
+  supabase: SupabaseClient,
+  template: Template
+): Promise<Buffer | null> {
+  return downloadAsset(supabase, template.background?.url);
+}
+
+/** Downloads every layer image (logos, photo frames, watermark logo), keyed by layer id. Missing files are skipped. */
+export async function downloadLayerAssets(
+  supabase: SupabaseClient,
+  template: Template
+): Promise<Record<string, Buffer>> {
+  const out: Record<string, Buffer> = {};
+
+  await Promise.all(
+    layerAssetPaths(template).map(async (l) => {
+      try {
+        const buf = await downloadAsset(supabase, l.path);
+        if (buf) out[l.id] = buf;
+      } catch (e) {
+        console.error("Layer asset download failed:", l.id, e);
+      }
+    })
+  );
+
+  return out;
+}
+
+export type RenderPosterInput = {
+  template: Template;
+  /** Organizer plan; `template.watermark` is only honored as far as it allows. */
+  plan: OrganizerPlan;
+  background: Buffer;
+  /** Attendee photos keyed by image layer id. */
+  photos: Record<string, { buffer: Buffer; focus?: FocusPoint | null; crop?: PhotoCrop | null }>;
+  /** Attendee inputs keyed by text layer field. */
+  texts: Record<string, string>;
+  /** Layer images keyed by layer id (see `downloadLayerAssets`). */
+  assets?: Record<string, Buffer>;
+  format?: PosterFormat;
+  /** Image scale for jpeg/png (see `exportScale`); ignored for PDFs, which are 300 dpi. */
+  scale?: number;
+  /** Bleed and crop marks for `format: "pdf"`. */
+  pdf?: NonNullable<PosterExport["pdf"]>;
+};
+
+async function loadPosterImage(buf: Buffer): Promise<PosterImage> {
+  return (await loadImage(buf)) as unknown as PosterImage;
+}
+
+/** Applies a slot's color grading; PNG keeps cutout transparency. */
+async function filterPhoto(buf: Buffer, filter: PhotoFilter): Promise<Buffer> {
+  const img = await loadImage(buf);
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = canvas.getContext("2d");
+  ctx.drawImage(img, 0, 0);
+
+  const pixels = ctx.getImageData(0, 0, img.width, img.height);
+  applyPhotoFilter(pixels.data, filter);
+  ctx.putImageData(pixels, 0, 0);
+
+  // Re-encoded rather than drawn from the canvas: napi-rs skips shadows (cutout glow) for canvas sources
+  return canvas.encode("png");
+}
+
+// Server renders are CPU heavy; a few at a time keeps one worker responsive
+const MAX_CONCURRENT_RENDERS = 2;
+let activeRenders = 0;
+
+/** Claims a render slot for public routes; null when all are busy, else the release callback. */
+export function tryAcquireRenderSlot(): (() => void) | null {
+  if (activeRenders >= MAX_CONCURRENT_RENDERS) return null;
+  activeRenders++;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    activeRenders--;
+  };
+}
+
+let fontsRegistered = false;
+
+/** Registers the bundled poster fonts with @napi-rs/canvas (once per process). */
+export function registerPosterFonts() {
+  if (fontsRegistered) return;
+  fontsRegistered = true;
+
+  for (const font of POSTER_FONTS) {
+    for (const weight of font.weights) {
+      const file = path.join(process.cwd(), "public", fontFilePath(font, weight));
+      if (!GlobalFonts.registerFromPath(file, font.family)) {
+        console.warn(`Poster font not registered: ${file}`);
+      }
+    }
+  }
+}
+
+// Crop marks sit outside the bleed: a small gap, then a short line in line with each trim edge
+const CROP_MARK_GAP_MM = 1.5;
+const CROP_MARK_MM = 5;
+const CROP_MARK_WIDTH_PT = 0.25;
+
+/**
+ * Wraps a rendered poster (trim plus `bleed` px on every side) in a one-page PDF
+ * at `PRINT_DPI`, with crop marks at the trim corners when asked.
+ */
+async function printPdf(image: Buffer, size: PosterSize, bleed: number, cropMarks: boolean): Promise<Buffer> {
+  const ptPerPx = 72 / PRINT_DPI;
+  const gap = mmToPx(CROP_MARK_GAP_MM);
+  const margin = bleed + (cropMarks ? gap + mmToPx(CROP_MARK_MM) : 0);
+  const pageW = size.width + margin * 2;
+  const pageH = size.height + margin * 2;
+
+  const doc = new PDFDocument({ creator: "ViroEvent", encodingQuality: 95 });
+  const ctx = doc.beginPage(pageW * ptPerPx, pageH * ptPerPx) as SKRSContext2D;
+  ctx.scale(ptPerPx, ptPerPx);
+  ctx.drawImage(await loadImage(image), margin - bleed, margin - bleed, size.width + bleed * 2, size.height + bleed * 2);
+
+  if (cropMarks) {
+    const [x0, x1, y0, y1] = [margin, margin + size.width, margin, margin + size.height];
+    const reach = bleed + gap;
+
+    ctx.strokeStyle = "#000000";
+    ctx.lineWidth = CROP_MARK_WIDTH_PT / ptPerPx;
+    ctx.beginPath();
+    for (const y of [y0, y1]) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(x0 - reach, y);
+      ctx.moveTo(x1 + reach, y);
+      ctx.lineTo(pageW, y);
+    }
+    for (const x of [x0, x1]) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, y0 - reach);
+      ctx.moveTo(x, y1 + reach);
+      ctx.lineTo(x, pageH);
+    }
+    ctx.stroke();
+  }
+
+  doc.endPage();
+  return doc.close();
+}
+
+export async function renderPosterBuffer(input: RenderPosterInput): Promise<Buffer> {
+  registerPosterFonts();
+
+  const size = posterSize(input.template);
+  const pdf = input.format === "pdf" ? (input.pdf ?? { bleed: 0, cropMarks: false }) : null;
+  const bleed = pdf ? Math.round(mmToPx(pdf.bleed)) : 0;
+  const scale = pdf ? 1 : exportScale(size, input.scale);
+
+  const canvas = createCanvas(Math.round((size.width + bleed * 2) * scale), Math.round((size.height + bleed * 2) * scale));
+  const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+  // Everything is laid out at canvas size; high-res exports re-render it scaled, not upsampled
+  ctx.setTransform(scale, 0, 0, scale, bleed * scale, bleed * scale);
+
+  const background = await loadPosterImage(input.background);
+
+  const slots = new Map(
+    input.template.layers.filter((l): l is ImageLayer => l.kind === "image").map((l) => [l.id, l])
+  );
+
+  const photos: Record<string, PosterPhoto> = {};
+  for (const [id, p] of Object.entries(input.photos)) {
+    const slot = slots.get(id);
+    // Cutout slots get the background removed; without segmentation they render as circles
+    const cutout = slot?.shape === "cutout" ? await tryCutout(p.buffer) : null;
+    let buffer = cutout ?? p.buffer;
+    if (isPhotoFilterActive(slot?.filter)) buffer = await filterPhoto(buffer, slot.filter);
+
+    photos[id] = { image: await loadPosterImage(buffer), focus: p.focus, crop: p.crop, cutout: !!cutout };
+  }
+
+  // An undecodable asset skips its layer, like a missing one (see `downloadLayerAssets`)
+  const assets: Record<string, PosterImage> = {};
+  for (const [id, buf] of Object.entries(input.assets ?? {})) {
+    try {
+      assets[id] = await loadPosterImage(buf);
+    } catch (e) {
+      console.error("Layer asset decode failed:", id, e);
+    }
+  }
+
+  drawPoster(ctx, {
+    size,
+    bleed,
+    layout: computePosterLayout(input.template),
+    background,
+    photos,
+    texts: input.texts,
+    assets,
+    watermark: effectiveWatermark(input.template.watermark, input.plan),
+  });
+
+  if (pdf) return printPdf(canvas.toBuffer("image/jpeg", 95), size, bleed, pdf.cropMarks);
+  if (input.format === "png") return canvas.toBuffer("image/png");
+  return canvas.toBuffer("image/jpeg", 95);
+}
+
+/** Link preview (og:image) of an event: its background cropped to the link preset, as JPEG. */
+export async function renderLinkPreview(background: Buffer): Promise<Buffer> {
+  const { width, height } = CANVAS_PRESETS.find((p) => p.id === "link")!;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+
+  coverDraw(ctx, await loadPosterImage(background), 0, 0, width, height);
+  return canvas.toBuffer("image/jpeg", 90);
+}
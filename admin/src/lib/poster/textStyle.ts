@@ -0,0 +1,194 @@
+// admin/src/lib/poster/textStyle.ts
+import type { CSSProperties } from "react";
+import type { TextAlign, TextLayer, TextShadow, TextStroke, TextTransform } from "@/types/template";
+import { DEFAULT_FONT_WEIGHT, findPosterFont, nearestFontWeight } from "./fonts";
+
+/**
+ * Text layer styling shared by the canvas renderer and the DOM previews.
+ * Both read the same resolved values, so the editor, the attendee preview
+ * and the exported poster agree on font, weight, spacing and effects.
+ * Lengths in the template are template px; `TextBox` carries the output-space
+ * box so the scale between the two is `box.size / box.layer.size`.
+ */
+
+/** Line height used for wrapped text, as a multiple of the font size. */
+export const TEXT_LINE_HEIGHT = 1.15;
+
+/** Output-space text box: the text entry of `LayerLayout` without its position. */
+export type TextBox = { layer: TextLayer; w: number; h: number; size: number };
+
+/** Font size (output px) and lines chosen by `fitText`. */
+export type FittedText = { size: number; lines: string[] };
+
+export type ResolvedTextStyle = {
+  family: string;
+  fallback: string;
+  weight: number;
+  letterSpacing: number;
+  align: TextAlign;
+  transform: TextTransform;
+  stroke: TextStroke | null;
+  shadow: TextShadow | null;
+  autoFit: boolean;
+  minSize: number;
+  maxLines: number;
+  ellipsis: boolean;
+};
+
+export function resolveTextStyle(layer: TextLayer): ResolvedTextStyle {
+  const font = findPosterFont(layer.font);
+  return {
+    family: font.family,
+    fallback: font.fallback,
+    weight: nearestFontWeight(font, layer.weight ?? DEFAULT_FONT_WEIGHT),
+    letterSpacing: layer.letterSpacing ?? 0,
+    align: layer.align ?? "center",
+    transform: layer.transform ?? "uppercase",
+    stroke: layer.stroke && layer.stroke.width > 0 ? layer.stroke : null,
+    shadow: layer.shadow ?? null,
+    autoFit: layer.autoFit ?? true,
+    minSize: Math.min(layer.minSize ?? Math.round(layer.size / 2), layer.size),
+    maxLines: Math.max(1, Math.round(layer.maxLines ?? 1)),
+    ellipsis: layer.ellipsis ?? true,
+  };
+}
+
+export function applyTextTransform(value: string, transform: TextTransform): string {
+  if (transform === "uppercase") return value.toUpperCase();
+  if (transform === "lowercase") return value.toLowerCase();
+  return value;
+}
+
+/** CSS `font` shorthand, also valid for `CanvasRenderingContext2D.font`. */
+export function textFont(style: ResolvedTextStyle, sizePx: number): string {
+  return `${style.weight} ${sizePx}px "${style.family}", ${style.fallback}`;
+}
+
+type LineSpan = { start: number; end: number };
+
+function codePointLength(text: string, i: number) {
+  return (text.codePointAt(i) ?? 0) > 0xffff ? 2 : 1;
+}
+
+/** Greedy word wrap; words wider than a line are broken between characters. */
+function wrapSpans(ctx: CanvasRenderingContext2D, text: string, maxW: number): LineSpan[] {
+  const width = (start: number, end: number) => ctx.measureText(text.slice(start, end)).width;
+  const spans: LineSpan[] = [];
+  let line: LineSpan | null = null;
+
+  for (const m of text.matchAll(/\S+/g)) {
+    let start = m.index;
+    const end = start + m[0].length;
+
+    if (line && width(line.start, end) <= maxW) {
+      line.end = end;
+      continue;
+    }
+    if (line) spans.push(line);
+
+    while (width(start, end) > maxW) {
+      let cut = start + codePointLength(text, start);
+      while (cut < end && width(start, cut + codePointLength(text, cut)) <= maxW) cut += codePointLength(text, cut);
+      if (cut >= end) break;
+      spans.push({ start, end: cut });
+      start = cut;
+    }
+    line = { start, end };
+  }
+
+  if (line) spans.push(line);
+  return spans;
+}
+
+function ellipsize(ctx: CanvasRenderingContext2D, text: string, maxW: number): string {
+  if (ctx.measureText(text).width <= maxW) return text;
+
+  const chars = Array.from(text);
+  while (chars.length && ctx.measureText(`${chars.join("").trimEnd()}…`).width > maxW) chars.pop();
+  return `${chars.join("").trimEnd()}…`;
+}
+
+/** Sets the context font for `box` at `size` (output px). */
+export function setTextFont(ctx: CanvasRenderingContext2D, box: TextBox, size: number) {
+  const s = resolveTextStyle(box.layer);
+  ctx.font = textFont(s, size);
+  ctx.letterSpacing = `${s.letterSpacing * (box.size / box.layer.size)}px`;
+}
+
+/**
+ * Picks the font size and line breaks for `value` inside the box.
+ * With auto-fit, the largest size between `minSize` and `size` where the text
+ * wraps into `maxLines` and fits the box height wins. If nothing fits, the
+ * smallest size is used and the last allowed line is cut with an ellipsis.
+ * Only measures through `ctx`, so browser previews and server exports agree.
+ */
+export function fitText(ctx: CanvasRenderingContext2D, box: TextBox, value: string): FittedText {
+  const s = resolveTextStyle(box.layer);
+  const text = applyTextTransform(value.trim().replace(/\s+/g, " "), s.transform);
+  if (!text) return { size: box.size, lines: [] };
+
+  const k = box.size / box.layer.size;
+  const layoutAt = (size: number) => {
+    setTextFont(ctx, box, size);
+    return wrapSpans(ctx, text, box.w);
+  };
+  const fits = (size: number, spans: LineSpan[]) =>
+    spans.length <= s.maxLines && spans.length * size * TEXT_LINE_HEIGHT <= box.h;
+
+  let size = box.size;
+  let spans = layoutAt(size);
+
+  if (s.autoFit && !fits(size, spans)) {
+    // Binary search over whole px sizes; fitting only gets easier as the size drops
+    let lo = Math.min(Math.max(1, Math.round(s.minSize * k)), size);
+    let hi = size;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (fits(mid, layoutAt(mid))) lo = mid;
+      else hi = mid - 1;
+    }
+    size = lo;
+    spans = layoutAt(size);
+  }
+
+  if (spans.length <= s.maxLines) {
+    return { size, lines: spans.map((l) => text.slice(l.start, l.end)) };
+  }
+
+  const kept = spans.slice(0, s.maxLines - 1).map((l) => text.slice(l.start, l.end));
+  const rest = text.slice(spans[s.maxLines - 1].start);
+  kept.push(s.ellipsis ? ellipsize(ctx, rest, box.w) : rest);
+  return { size, lines: kept };
+}
+
+/**
+ * Inline style for a text box in a DOM preview, sized to fill its parent.
+ * `scale` maps output px to preview px. Lines are stacked and centered
+ * vertically like the canvas renderer; render each entry of `fitted.lines`
+ * as its own block with `white-space: pre` so the DOM never re-wraps them.
+ */
+export function textPreviewStyle(box: TextBox, fitted: FittedText, scale: number): CSSProperties {
+  const s = resolveTextStyle(box.layer);
+  const px = (box.size / box.layer.size) * scale;
+  return {
+    width: "100%",
+    height: "100%",
+    display: "flex",
+    flexDirection: "column",
+    justifyContent: "center",
+    alignItems: s.align === "left" ? "flex-start" : s.align === "right" ? "flex-end" : "center",
+    textAlign: s.align,
+    fontFamily: `"${s.family}", ${s.fallback}`,
+    fontWeight: s.weight,
+    fontSize: fitted.size * scale,
+    lineHeight: TEXT_LINE_HEIGHT,
+    letterSpacing: s.letterSpacing * px,
+    color: box.layer.color,
+    // Canvas strokes under the fill; paint-order gives the DOM the same look
+    WebkitTextStroke: s.stroke ? `${s.stroke.width * px}px ${s.stroke.color}` : undefined,
+    paintOrder: s.stroke ? "stroke fill" : undefined,
+    textShadow: s.shadow
+      ? `${s.shadow.x * px}px ${s.shadow.y * px}px ${s.shadow.blur * px}px ${s.shadow.color}`
+      : undefined,
+  };
+}
@@ -0,0 +1,87 @@
+// admin/src/lib/share.ts
+import type { PosterShare } from "@/types/template";
+
+/**
+ * Share copy for attendee posters (`template.share`) and the link preview
+ * (Open Graph / Twitter card) of the public event page.
+ */
+
+export const DEFAULT_SHARE_MESSAGE = "I made my {event} poster! Create yours with your photo and name in seconds.\n{link}";
+
+export type ShareContext = {
+  /** Attendee name; empty drops the placeholder. */
+  name: string;
+  event: string;
+  link: string;
+};
+
+/** Fills the placeholders and appends the hashtags, e.g. "… https://…/e/VE-AB12C\n#afcon #lions". */
+export function formatShareText(share: PosterShare | undefined, ctx: ShareContext): string {
+  const values: Record<string, string> = { name: ctx.name.trim(), event: ctx.event.trim(), link: ctx.link };
+
+  const message = (share?.message.trim() || DEFAULT_SHARE_MESSAGE)
+    .replace(/\{(name|event|link)\}/g, (_, key: string) => values[key])
+    // Empty placeholders leave doubled or leading spaces behind
+    .split("\n")
+    .map((line) => line.replace(/ {2,}/g, " ").trim())
+    .join("\n")
+    .trim();
+
+  const tags = (share?.hashtags ?? []).map((t) => `#${t}`).join(" ");
+  return tags ? `${message}\n${tags}` : message;
+}
+
+/** Tags rendered server-side on `/e/[eventCode]`; absolute URLs for crawlers. */
+export type ShareMeta = {
+  title: string;
+  description: string;
+  url: string;
+  image: string | null;
+};
+
+/** Site origin for absolute links: NEXT_PUBLIC_APP_URL, else the request's host. */
+export function requestOrigin(headers: { host?: string; "x-forwarded-proto"?: string | string[] }): string {
+  const configured = process.env.NEXT_PUBLIC_APP_URL?.replace(/\/+$/, "");
+  if (configured) return configured;
+
+  const proto = headers["x-forwarded-proto"];
+  return `${(Array.isArray(proto) ? proto[0] : proto)?.split(",")[0] || "http"}://${headers.host || "localhost:3000"}`;
+}
+
+/**
+ * Origin for links baked into QR codes and share kits, which are cached and printed:
+ * the Host header is client-controlled, so production requires NEXT_PUBLIC_APP_URL
+ * (null when it is unset). Elsewhere the request's host is fine.
+ */
+export function trustedOrigin(headers: { host?: string; "x-forwarded-proto"?: string | string[] }): string | null {
+  if (!process.env.NEXT_PUBLIC_APP_URL && process.env.NODE_ENV === "production") return null;
+  return requestOrigin(headers);
+}
+
+/** Campaign tags appended to printed or posted links, e.g. `source: "banner"` for a venue banner. */
+export type UtmTags = { source?: string; medium?: string; campaign?: string };
+
+const UTM_VALUE_RE = /^[A-Za-z0-9._-]{1,64}$/;
+
+/** Reads `source`/`medium`/`campaign` query values; anything unsafe for a URL tag is dropped. */
+export function readUtmTags(query: Record<string, string | string[] | undefined>): UtmTags {
+  const tags: UtmTags = {};
+  for (const key of ["source", "medium", "campaign"] as const) {
+    const raw = query[key];
+    const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+    if (value && UTM_VALUE_RE.test(value)) tags[key] = value;
+  }
+  return tags;
+}
+
+/** Public event page, with `utm_*` parameters when any tag is set. */
+export function eventPageUrl(origin: string, eventCode: string, utm: UtmTags = {}): string {
+  const url = `${origin}/e/${encodeURIComponent(eventCode)}`;
+  const params = new URLSearchParams();
+  if (utm.source) params.set("utm_source", utm.source);
+  if (utm.medium) params.set("utm_medium", utm.medium);
+  if (utm.campaign) params.set("utm_campaign", utm.campaign);
+
+  const qs = params.toString();
+  return qs ? `${url}?${qs}` : url;
+}
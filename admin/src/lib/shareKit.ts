@@ -0,0 +1,146 @@
+// admin/src/lib/shareKit.ts
+import QRCode from "qrcode";
+import { PDFDocument, loadImage, type SKRSContext2D } from "@napi-rs/canvas";
+
+/**
+ * QR codes for event links and the printable share kit (Node only — do not import
+ * from pages that run in the browser).
+ */
+
+export type QrFormat = "png" | "svg";
+
+// Medium error correction survives a smudged print while keeping modules large
+const QR_OPTIONS = { errorCorrectionLevel: "M" as const, margin: 2 };
+
+export async function qrCodePng(text: string, width: number): Promise<Buffer> {
+  return QRCode.toBuffer(text, { ...QR_OPTIONS, type: "png", width });
+}
+
+export async function qrCodeSvg(text: string): Promise<string> {
+  return QRCode.toString(text, { ...QR_OPTIONS, type: "svg" });
+}
+
+/** Paints the code as vector squares (sharp at any print size), quiet zone included, in a `size` square. */
+function drawQrCode(ctx: SKRSContext2D, text: string, x: number, y: number, size: number) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: QR_OPTIONS.errorCorrectionLevel });
+  const cells = modules.size + QR_OPTIONS.margin * 2;
+  const cell = size / cells;
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(x, y, size, size);
+  ctx.fillStyle = "#000000";
+  for (let r = 0; r < modules.size; r++) {
+    for (let c = 0; c < modules.size; c++) {
+      if (!modules.get(r, c)) continue;
+      // Slight overlap so anti-aliasing leaves no hairlines between modules
+      ctx.fillRect(x + (c + QR_OPTIONS.margin) * cell, y + (r + QR_OPTIONS.margin) * cell, cell + 0.05, cell + 0.05);
+    }
+  }
+}
+
+/** Splits text into lines no wider than `maxWidth` with the current font; extra lines are dropped. */
+function wrapLines(ctx: SKRSContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(next).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/\s*\S*$/, "")}…`;
+  }
+  return lines;
+}
+
+export type ShareKitInput = {
+  eventName: string;
+  description?: string | null;
+  /** Link encoded in the QR code and printed below it. */
+  url: string;
+  /** Rendered example poster (JPEG/PNG); omitted when the event has no background yet. */
+  samplePoster?: Buffer | null;
+};
+
+// A4 portrait in PDF points
+const PAGE_W = 595;
+const PAGE_H = 842;
+const MARGIN = 48;
+const FONT = "Poppins, Arial, sans-serif";
+
+/**
+ * One-page A4 PDF for venues: event name, a large QR code to the attendee page,
+ * the link spelled out, and an example poster. Fonts must be registered first
+ * (`registerPosterFonts`).
+ */
+export async function renderShareKitPdf(input: ShareKitInput): Promise<Buffer> {
+  const doc = new PDFDocument({ title: `${input.eventName} · share kit`, creator: "ViroEvent" });
+  const ctx = doc.beginPage(PAGE_W, PAGE_H) as SKRSContext2D;
+  const contentW = PAGE_W - MARGIN * 2;
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, PAGE_W, PAGE_H);
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+
+  let y = MARGIN;
+  ctx.fillStyle = "#111111";
+  ctx.font = `800 26px ${FONT}`;
+  for (const line of wrapLines(ctx, input.eventName, contentW, 2)) {
+    ctx.fillText(line, PAGE_W / 2, y);
+    y += 32;
+  }
+
+  if (input.description?.trim()) {
+    ctx.fillStyle = "#555555";
+    ctx.font = `400 11px ${FONT}`;
+    for (const line of wrapLines(ctx, input.description.trim(), contentW, 2)) {
+      ctx.fillText(line, PAGE_W / 2, y + 4);
+      y += 15;
+    }
+  }
+
+  y += 20;
+  const qrSize = 240;
+  drawQrCode(ctx, input.url, (PAGE_W - qrSize) / 2, y, qrSize);
+  y += qrSize + 10;
+
+  ctx.fillStyle = "#111111";
+  ctx.font = `700 16px ${FONT}`;
+  ctx.fillText("Scan to create your poster", PAGE_W / 2, y);
+  y += 24;
+
+  ctx.fillStyle = "#333333";
+  ctx.font = `400 10px ${FONT}`;
+  for (const line of wrapLines(ctx, input.url, contentW, 2)) {
+    ctx.fillText(line, PAGE_W / 2, y);
+    y += 13;
+  }
+
+  if (input.samplePoster) {
+    const poster = await loadImage(input.samplePoster);
+    y += 20;
+
+    ctx.fillStyle = "#888888";
+    ctx.font = `400 9px ${FONT}`;
+    ctx.fillText("EXAMPLE", PAGE_W / 2, y);
+    y += 14;
+
+    const boxH = PAGE_H - MARGIN - y;
+    const scale = Math.min(contentW / poster.width, boxH / poster.height);
+    if (scale > 0) {
+      const w = poster.width * scale;
+      ctx.drawImage(poster, (PAGE_W - w) / 2, y, w, poster.height * scale);
+    }
+  }
+
+  doc.endPage();
+  return doc.close();
+}
@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { User } from "@supabase/supabase-js";
+import { supabaseServer } from "./server";
+import { supabaseAdmin } from "./admin";
+
+/**
+ * Shared authorization for organizer API routes.
+ *
+ * The session is resolved from the request cookies (`supabaseServer`); ownership is
+ * checked with the service-role client so a foreign event answers 403 rather than
+ * looking missing under RLS. Routes should call this before any mutation.
+ */
+
+export type AccessDenied = {
+  ok: false;
+  status: 401 | 403 | 404 | 500;
+  error: "Unauthorized" | "Forbidden" | "NotFound" | "ServerError";
+  message: string;
+};
+
+export type OwnedEvent = {
+  id: string;
+  owner_id: string;
+  event_code: string | null;
+  published: boolean | null;
+};
+
+export async function requireUser(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<{ ok: true; user: User } | AccessDenied> {
+  const supabase = supabaseServer(req, res);
+  const { data, error } = await supabase.auth.getUser();
+
+  if (error || !data.user) {
+    return { ok: false, status: 401, error: "Unauthorized", message: "Please login" };
+  }
+
+  return { ok: true, user: data.user };
+}
+
+export async function requireEventOwner(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  eventId: string
+): Promise<{ ok: true; user: User; event: OwnedEvent } | AccessDenied> {
+  return requireOwnerOf(req, res, "id", eventId);
+}
+
+/** Same as `requireEventOwner`, for routes that only know the public event code. */
+export async function requireEventOwnerByCode(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  eventCode: string
+): Promise<{ ok: true; user: User; event: OwnedEvent } | AccessDenied> {
+  return requireOwnerOf(req, res, "event_code", eventCode);
+}
+
+async function requireOwnerOf(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  column: "id" | "event_code",
+  value: string
+): Promise<{ ok: true; user: User; event: OwnedEvent } | AccessDenied> {
+  const auth = await requireUser(req, res);
+  if (!auth.ok) return auth;
+
+  const admin = supabaseAdmin();
+  if (!admin) {
+    return {
+      ok: false,
+      status: 500,
+      error: "ServerError",
+      message: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY",
+    };
+  }
+
+  const { data, error } = await admin
+    .from("events")
+    .select("id,owner_id,event_code,published")
+    .eq(column, value)
+    .maybeSingle<OwnedEvent>();
+
+  if (error) {
+    return { ok: false, status: 500, error: "ServerError", message: error.message };
+  }
+  if (!data) {
+    return { ok: false, status: 404, error: "NotFound", message: "Event not found" };
+  }
+  if (data.owner_id !== auth.user.id) {
+    return { ok: false, status: 403, error: "Forbidden", message: "You do not own this event" };
+  }
+
+  return { ok: true, user: auth.user, event: data };
+}
+
+/** Writes an `AccessDenied` result in the routes' `{ ok: false, error, message }` shape. */
+export function sendAccessDenied(res: NextApiResponse, denied: AccessDenied) {
+  return res.status(denied.status).json({ ok: false, error: denied.error, message: denied.message });
+}
@@ -0,0 +1,14 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client for API routes. Bypasses RLS, so callers must do their own
+ * access checks. Returns null when the env vars are missing so routes can answer 500.
+ */
+export function supabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return null;
+  return createClient(url, key);
+}
+
+export const EVENT_ASSETS_BUCKET = process.env.SUPABASE_BUCKET ?? "vf-event-assets";
@@ -0,0 +1,703 @@
+// admin/src/lib/template.ts
+import type {
+  ImageLayer,
+  Layer,
+  LayerKind,
+  LayerPlacement,
+  LegacyTemplate,
+  LogoLayer,
+  PhotoFilter,
+  PhotoFrame,
+  PhotoGlow,
+  PhotoOutline,
+  PosterExport,
+  PosterShare,
+  PosterWatermark,
+  ShapeLayer,
+  Template,
+  TextLayer,
+  TextShadow,
+  TextStroke,
+  TemplateVariant,
+  WatermarkPosition,
+} from "@/types/template";
+import { DEFAULT_FONT, POSTER_FONTS } from "@/lib/poster/fonts";
+import { CANVAS_PRESET_IDS, findCanvasPreset } from "@/lib/poster/presets";
+import { normalizeStoragePath } from "@/lib/storagePath";
+
+export const TEMPLATE_VERSION = 2;
+export const DEFAULT_CANVAS = { width: 1080, height: 1080 };
+
+/** Id of the layout stored in `template.layers` itself; `template.variants` may not reuse it. */
+export const MAIN_VARIANT_ID = "main";
+
+/** Mark drawn when a template has no `watermark` (and the floor for plans that cannot remove it). */
+export const DEFAULT_WATERMARK: PosterWatermark = {
+  kind: "text",
+  text: "ViroEvents",
+  position: "bottom-center",
+  opacity: 0.25,
+  size: 42,
+};
+
+export const WATERMARK_POSITIONS: readonly WatermarkPosition[] = [
+  "bottom-center",
+  "bottom-left",
+  "bottom-right",
+  "top-left",
+  "top-right",
+  "center",
+];
+
+/** Key of the watermark logo among layer assets; not a valid layer id, so it cannot collide. */
+export const WATERMARK_ASSET_ID = "@watermark";
+
+/** Text field every template is expected to collect; also used for share text and filenames. */
+export const NAME_FIELD = "name";
+
+/** Bounds enforced by `validateTemplate` (sizes are px, positions are 0..1). */
+export const TEMPLATE_LIMITS = {
+  canvasMin: 100,
+  canvasMax: 4096,
+  maxLayers: 40,
+  maxVariants: 5,
+  maxBleedMm: 10,
+  maxPx: 4096,
+  maxText: 200,
+  maxShareMessage: 500,
+  maxHashtags: 10,
+};
+
+const LAYER_ID_RE = /^[A-Za-z0-9_-]{1,40}$/;
+const FIELD_RE = /^[a-z0-9_]{1,32}$/;
+const FONT_FAMILIES = POSTER_FONTS.map((f) => f.family);
+const HASHTAG_RE = /^[\p{L}\p{N}_]{1,50}$/u;
+const HEX_COLOR_RE = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+function num(v: unknown, fallback: number): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : fallback;
+}
+
+function str(v: unknown, fallback: string): string {
+  return typeof v === "string" ? v : fallback;
+}
+
+export function newLayerId(kind: LayerKind): string {
+  return `${kind}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Template given to freshly created events: one photo slot and one name line. */
+export function createDefaultTemplate(): Template {
+  return {
+    version: TEMPLATE_VERSION,
+    canvas: { ...DEFAULT_CANVAS },
+    layers: [
+      { id: "photo", kind: "image", z: 0, x: 0.5, y: 0.4, size: 220, shape: "circle", label: "Your photo" },
+      {
+        id: "name",
+        kind: "text",
+        z: 1,
+        field: NAME_FIELD,
+        label: "Your name",
+        x: 0.5,
+        y: 0.78,
+        w: 0.82,
+        h: 0.14,
+        content: "YOUR NAME",
+        font: DEFAULT_FONT,
+        color: "#FFFFFF",
+        size: 36,
+      },
+    ],
+    background: { url: "" },
+  };
+}
+
+/**
+ * Converts a pre-layers template into the layered form.
+ * Sizes are rescaled into 1080-space, and the legacy 3× text size is undone,
+ * so the result renders exactly like the old attendee pipeline did.
+ * Keep in sync with supabase/migrations/*_template_layers.sql.
+ */
+export function migrateLegacyTemplate(legacy: LegacyTemplate): Template {
+  const baseW = num(legacy.canvas?.width, DEFAULT_CANVAS.width);
+  const scaleToOut = baseW ? DEFAULT_CANVAS.width / baseW : 1;
+
+  const photo: ImageLayer = {
+    id: "photo",
+    kind: "image",
+    z: 0,
+    label: "Your photo",
+    x: num(legacy.photo?.x, 0.5),
+    y: num(legacy.photo?.y, 0.35),
+    size: Math.round(num(legacy.photo?.size, 220) * scaleToOut),
+    shape: legacy.photo?.shape === "square" ? "square" : "circle",
+  };
+
+  const text: TextLayer = {
+    id: "name",
+    kind: "text",
+    z: 1,
+    field: NAME_FIELD,
+    label: "Your name",
+    x: num(legacy.text?.x, 0.5),
+    y: num(legacy.text?.y, 0.78),
+    w: num(legacy.text?.w, 0.82),
+    h: num(legacy.text?.h, 0.14),
+    content: str(legacy.text?.content, "YOUR NAME"),
+    font: str(legacy.text?.font, DEFAULT_FONT),
+    color: str(legacy.text?.color, "#FFD54F"),
+    size: Math.round((num(legacy.text?.size, 44) / 3) * scaleToOut),
+  };
+
+  return {
+    version: TEMPLATE_VERSION,
+    canvas: { ...DEFAULT_CANVAS },
+    layers: [photo, text],
+    background: { url: str(legacy.background?.url, "") },
+  };
+}
+
+export type TemplateIssue = { path: string; message: string };
+
+export type TemplateValidation =
+  | { ok: true; template: Template }
+  | { ok: false; issues: TemplateIssue[] };
+
+/**
+ * Collects issues while reading an untrusted template.
+ * Every reader returns a usable fallback, so the same pass serves strict
+ * validation (any issue rejects) and lenient normalization (issues are ignored).
+ */
+class TemplateReader {
+  issues: TemplateIssue[] = [];
+
+  fail<T>(path: string, message: string, fallback: T): T {
+    this.issues.push({ path, message });
+    return fallback;
+  }
+
+  number(v: unknown, path: string, min: number, max: number, fallback: number, optional = false): number {
+    if (v === undefined && optional) return fallback;
+    if (typeof v !== "number" || !Number.isFinite(v)) return this.fail(path, "Expected a number", fallback);
+    if (v < min || v > max) return this.fail(path, `Must be between ${min} and ${max}`, Math.min(max, Math.max(min, v)));
+    return v;
+  }
+
+  string(v: unknown, path: string, fallback: string, optional = false): string {
+    if (v === undefined && optional) return fallback;
+    if (typeof v !== "string") return this.fail(path, "Expected a string", fallback);
+    if (v.length > TEMPLATE_LIMITS.maxText) {
+      return this.fail(path, `Must be at most ${TEMPLATE_LIMITS.maxText} characters`, v.slice(0, TEMPLATE_LIMITS.maxText));
+    }
+    return v;
+  }
+
+  color(v: unknown, path: string, fallback: string): string {
+    if (typeof v !== "string" || !HEX_COLOR_RE.test(v)) return this.fail(path, "Expected a hex color like #FFD54F", fallback);
+    return v;
+  }
+
+  boolean(v: unknown, path: string, fallback: boolean): boolean {
+    if (typeof v !== "boolean") return this.fail(path, "Expected true or false", fallback);
+    return v;
+  }
+
+  oneOf<T extends string>(v: unknown, path: string, options: readonly T[], fallback: T): T {
+    if (typeof v === "string" && (options as readonly string[]).includes(v)) return v as T;
+    return this.fail(path, `Must be one of: ${options.join(", ")}`, fallback);
+  }
+
+  /** Normalized center position; shared by every layer kind. */
+  position(raw: Record<string, unknown>, path: string) {
+    return {
+      x: this.number(raw.x, `${path}.x`, 0, 1, 0.5),
+      y: this.number(raw.y, `${path}.y`, 0, 1, 0.5),
+    };
+  }
+
+  box(raw: Record<string, unknown>, path: string) {
+    return {
+      w: this.number(raw.w, `${path}.w`, 0.01, 1, 0.3),
+      h: this.number(raw.h, `${path}.h`, 0.01, 1, 0.1),
+    };
+  }
+}
+
+function readOutlineGradient(r: TemplateReader, raw: unknown, path: string): PhotoOutline["gradient"] {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail(path, "Expected an object", undefined);
+  return {
+    color: r.color(raw.color, `${path}.color`, "#FFFFFF"),
+    angle: r.number(raw.angle, `${path}.angle`, -360, 360, 90, true),
+  };
+}
+
+function readPhotoOutline(r: TemplateReader, raw: unknown, path: string): PhotoOutline | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail(path, "Expected an object", undefined);
+  return {
+    color: r.color(raw.color, `${path}.color`, "#FFFFFF"),
+    width: r.number(raw.width, `${path}.width`, 0, 100, 6),
+    gradient: readOutlineGradient(r, raw.gradient, `${path}.gradient`),
+  };
+}
+
+function readPhotoGlow(r: TemplateReader, raw: unknown, path: string): PhotoGlow | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail(path, "Expected an object", undefined);
+  return {
+    color: r.color(raw.color, `${path}.color`, "#FFFFFF"),
+    blur: r.number(raw.blur, `${path}.blur`, 0, 200, 24),
+  };
+}
+
+function readPhotoFrame(r: TemplateReader, raw: unknown, path: string): PhotoFrame | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail(path, "Expected an object", undefined);
+  return {
+    src: r.string(raw.src, `${path}.src`, ""),
+    scale: r.number(raw.scale, `${path}.scale`, 0.5, 2, 1, true),
+  };
+}
+
+function readPhotoFilter(r: TemplateReader, raw: unknown, path: string): PhotoFilter | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail(path, "Expected an object", undefined);
+
+  const tone = r.oneOf(raw.tone, `${path}.tone`, ["none", "grayscale", "sepia", "duotone"] as const, "none");
+  const duotone = isRecord(raw.duotone) ? raw.duotone : {};
+  return {
+    tone,
+    duotone:
+      tone === "duotone"
+        ? {
+            dark: r.color(duotone.dark, `${path}.duotone.dark`, "#1A237E"),
+            light: r.color(duotone.light, `${path}.duotone.light`, "#FFD54F"),
+          }
+        : undefined,
+    brightness: r.number(raw.brightness, `${path}.brightness`, 0, 200, 100, true),
+    contrast: r.number(raw.contrast, `${path}.contrast`, 0, 200, 100, true),
+    saturation: r.number(raw.saturation, `${path}.saturation`, 0, 200, 100, true),
+  };
+}
+
+function readImageLayer(r: TemplateReader, raw: Record<string, unknown>, path: string, base: { id: string; z: number }): ImageLayer {
+  return {
+    ...base,
+    kind: "image",
+    ...r.position(raw, path),
+    label: raw.label === undefined ? undefined : r.string(raw.label, `${path}.label`, ""),
+    size: r.number(raw.size, `${path}.size`, 10, TEMPLATE_LIMITS.maxPx, 220),
+    shape: r.oneOf(raw.shape, `${path}.shape`, ["circle", "square", "cutout"] as const, "circle"),
+    outline: readPhotoOutline(r, raw.outline, `${path}.outline`),
+    glow: readPhotoGlow(r, raw.glow, `${path}.glow`),
+    filter: readPhotoFilter(r, raw.filter, `${path}.filter`),
+    frame: readPhotoFrame(r, raw.frame, `${path}.frame`),
+  };
+}
+
+function readTextStroke(r: TemplateReader, raw: unknown, path: string): TextStroke | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail(path, "Expected an object", undefined);
+  return {
+    color: r.color(raw.color, `${path}.color`, "#000000"),
+    width: r.number(raw.width, `${path}.width`, 0, 200, 4),
+  };
+}
+
+function readTextShadow(r: TemplateReader, raw: unknown, path: string): TextShadow | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail(path, "Expected an object", undefined);
+  return {
+    color: r.color(raw.color, `${path}.color`, "#00000080"),
+    blur: r.number(raw.blur, `${path}.blur`, 0, 200, 12),
+    x: r.number(raw.x, `${path}.x`, -200, 200, 0),
+    y: r.number(raw.y, `${path}.y`, -200, 200, 4),
+  };
+}
+
+function readTextLayer(r: TemplateReader, raw: Record<string, unknown>, path: string, base: { id: string; z: number }): TextLayer {
+  const field = typeof raw.field === "string" && FIELD_RE.test(raw.field)
+    ? raw.field
+    : r.fail(`${path}.field`, "Expected lowercase letters, digits or _ (max 32)", NAME_FIELD);
+
+  return {
+    ...base,
+    kind: "text",
+    field,
+    ...r.position(raw, path),
+    ...r.box(raw, path),
+    label: raw.label === undefined ? undefined : r.string(raw.label, `${path}.label`, ""),
+    content: r.string(raw.content, `${path}.content`, "", true) || undefined,
+    font: raw.font === undefined ? undefined : r.oneOf(raw.font, `${path}.font`, FONT_FAMILIES, DEFAULT_FONT),
+    weight: raw.weight === undefined ? undefined : r.number(raw.weight, `${path}.weight`, 100, 900, 800),
+    color: r.color(raw.color, `${path}.color`, "#FFFFFF"),
+    size: r.number(raw.size, `${path}.size`, 4, 1000, 36),
+    letterSpacing:
+      raw.letterSpacing === undefined ? undefined : r.number(raw.letterSpacing, `${path}.letterSpacing`, -100, 500, 0),
+    align: raw.align === undefined ? undefined : r.oneOf(raw.align, `${path}.align`, ["left", "center", "right"] as const, "center"),
+    transform:
+      raw.transform === undefined
+        ? undefined
+        : r.oneOf(raw.transform, `${path}.transform`, ["none", "uppercase", "lowercase"] as const, "uppercase"),
+    stroke: readTextStroke(r, raw.stroke, `${path}.stroke`),
+    shadow: readTextShadow(r, raw.shadow, `${path}.shadow`),
+    autoFit: raw.autoFit === undefined ? undefined : r.boolean(raw.autoFit, `${path}.autoFit`, true),
+    minSize: raw.minSize === undefined ? undefined : r.number(raw.minSize, `${path}.minSize`, 4, 1000, 18),
+    maxLines: raw.maxLines === undefined ? undefined : r.number(raw.maxLines, `${path}.maxLines`, 1, 10, 1),
+    ellipsis: raw.ellipsis === undefined ? undefined : r.boolean(raw.ellipsis, `${path}.ellipsis`, true),
+  };
+}
+
+function readShapeLayer(r: TemplateReader, raw: Record<string, unknown>, path: string, base: { id: string; z: number }): ShapeLayer {
+  return {
+    ...base,
+    kind: "shape",
+    ...r.position(raw, path),
+    ...r.box(raw, path),
+    shape: r.oneOf(raw.shape, `${path}.shape`, ["rect", "ellipse"] as const, "rect"),
+    color: r.color(raw.color, `${path}.color`, "#000000"),
+    opacity: raw.opacity === undefined ? undefined : r.number(raw.opacity, `${path}.opacity`, 0, 1, 1),
+    radius: raw.radius === undefined ? undefined : r.number(raw.radius, `${path}.radius`, 0, TEMPLATE_LIMITS.maxPx, 0),
+  };
+}
+
+function readLogoLayer(r: TemplateReader, raw: Record<string, unknown>, path: string, base: { id: string; z: number }): LogoLayer {
+  return {
+    ...base,
+    kind: "logo",
+    ...r.position(raw, path),
+    ...r.box(raw, path),
+    src: r.string(raw.src, `${path}.src`, ""),
+  };
+}
+
+function readCanvas(r: TemplateReader, raw: unknown, path: string): Template["canvas"] {
+  const canvasRaw = isRecord(raw) ? raw : r.fail(path, "Expected an object", {} as Record<string, unknown>);
+  const { canvasMin, canvasMax } = TEMPLATE_LIMITS;
+  return {
+    width: Math.round(r.number(canvasRaw.width, `${path}.width`, canvasMin, canvasMax, DEFAULT_CANVAS.width)),
+    height: Math.round(r.number(canvasRaw.height, `${path}.height`, canvasMin, canvasMax, DEFAULT_CANVAS.height)),
+    preset:
+      canvasRaw.preset === undefined ? undefined : r.oneOf(canvasRaw.preset, `${path}.preset`, CANVAS_PRESET_IDS, "square"),
+  };
+}
+
+// Only the geometry the layer kind has; anything else is dropped
+function readPlacement(r: TemplateReader, raw: unknown, path: string, layer: Layer): LayerPlacement | null {
+  if (!isRecord(raw)) return r.fail(path, "Expected an object", null);
+
+  const opt = (key: "x" | "y" | "w" | "h" | "size", min: number, max: number) =>
+    raw[key] === undefined ? undefined : r.number(raw[key], `${path}.${key}`, min, max, min);
+
+  const placement: LayerPlacement = { x: opt("x", 0, 1), y: opt("y", 0, 1) };
+  if (layer.kind === "image") placement.size = opt("size", 10, TEMPLATE_LIMITS.maxPx);
+  if (layer.kind === "text") placement.size = opt("size", 4, 1000);
+  if (layer.kind !== "image") {
+    placement.w = opt("w", 0.01, 1);
+    placement.h = opt("h", 0.01, 1);
+  }
+  return placement;
+}
+
+function readVariants(r: TemplateReader, raw: unknown, layers: Layer[]): TemplateVariant[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) return r.fail("variants", "Expected an array", undefined);
+  if (raw.length > TEMPLATE_LIMITS.maxVariants) {
+    r.fail("variants", `At most ${TEMPLATE_LIMITS.maxVariants} variants are allowed`, null);
+  }
+
+  const byId = new Map(layers.map((l) => [l.id, l]));
+  const ids = new Set([MAIN_VARIANT_ID]);
+  const variants: TemplateVariant[] = [];
+
+  raw.slice(0, TEMPLATE_LIMITS.maxVariants).forEach((item, i) => {
+    const path = `variants[${i}]`;
+    if (!isRecord(item)) {
+      r.fail(path, "Expected an object", null);
+      return;
+    }
+    if (typeof item.id !== "string" || !LAYER_ID_RE.test(item.id)) {
+      r.fail(`${path}.id`, "Expected letters, digits, - or _ (max 40)", null);
+      return;
+    }
+    if (ids.has(item.id)) {
+      r.fail(`${path}.id`, `Duplicate variant id "${item.id}"`, null);
+      return;
+    }
+
+    const placementsRaw = isRecord(item.placements) ? item.placements : {};
+    if (item.placements !== undefined && !isRecord(item.placements)) {
+      r.fail(`${path}.placements`, "Expected an object", null);
+    }
+
+    const placements: Record<string, LayerPlacement> = {};
+    for (const [layerId, p] of Object.entries(placementsRaw)) {
+      const layer = byId.get(layerId);
+      if (!layer) {
+        r.fail(`${path}.placements.${layerId}`, "Unknown layer id", null);
+        continue;
+      }
+      const placement = readPlacement(r, p, `${path}.placements.${layerId}`, layer);
+      if (placement) placements[layerId] = placement;
+    }
+
+    ids.add(item.id);
+    variants.push({
+      id: item.id,
+      label: r.string(item.label, `${path}.label`, item.id, true) || item.id,
+      canvas: readCanvas(r, item.canvas, `${path}.canvas`),
+      placements,
+    });
+  });
+
+  return variants.length ? variants : undefined;
+}
+
+function readExport(r: TemplateReader, raw: unknown): PosterExport | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail("export", "Expected an object", undefined);
+
+  let pdf: PosterExport["pdf"];
+  if (isRecord(raw.pdf)) {
+    pdf = {
+      bleed: r.number(raw.pdf.bleed, "export.pdf.bleed", 0, TEMPLATE_LIMITS.maxBleedMm, 3, true),
+      cropMarks: raw.pdf.cropMarks === undefined ? true : r.boolean(raw.pdf.cropMarks, "export.pdf.cropMarks", true),
+    };
+  } else if (raw.pdf !== undefined) {
+    r.fail("export.pdf", "Expected an object", null);
+  }
+
+  return {
+    format: r.oneOf(raw.format, "export.format", ["jpeg", "png"] as const, "jpeg"),
+    scale: Math.round(r.number(raw.scale, "export.scale", 1, 3, 1, true)),
+    pdf,
+  };
+}
+
+function readWatermark(r: TemplateReader, raw: unknown): PosterWatermark | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail("watermark", "Expected an object", undefined);
+
+  const kind = r.oneOf(raw.kind, "watermark.kind", ["text", "logo", "none"] as const, "text");
+  return {
+    kind,
+    text: kind === "text" ? r.string(raw.text, "watermark.text", DEFAULT_WATERMARK.text!, true) : undefined,
+    src: kind === "logo" ? r.string(raw.src, "watermark.src", "") : undefined,
+    position: r.oneOf(raw.position, "watermark.position", WATERMARK_POSITIONS, DEFAULT_WATERMARK.position),
+    opacity: r.number(raw.opacity, "watermark.opacity", 0, 1, DEFAULT_WATERMARK.opacity, true),
+    size: r.number(raw.size, "watermark.size", 8, TEMPLATE_LIMITS.maxPx, DEFAULT_WATERMARK.size, true),
+  };
+}
+
+function readShare(r: TemplateReader, raw: unknown): PosterShare | undefined {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) return r.fail("share", "Expected an object", undefined);
+
+  let message = typeof raw.message === "string" ? raw.message : r.fail("share.message", "Expected a string", "");
+  if (message.length > TEMPLATE_LIMITS.maxShareMessage) {
+    message = r.fail(
+      "share.message",
+      `Must be at most ${TEMPLATE_LIMITS.maxShareMessage} characters`,
+      message.slice(0, TEMPLATE_LIMITS.maxShareMessage)
+    );
+  }
+
+  const tagsRaw = Array.isArray(raw.hashtags) ? raw.hashtags : r.fail("share.hashtags", "Expected an array", [] as unknown[]);
+  if (tagsRaw.length > TEMPLATE_LIMITS.maxHashtags) {
+    r.fail("share.hashtags", `At most ${TEMPLATE_LIMITS.maxHashtags} hashtags are allowed`, null);
+  }
+
+  const hashtags: string[] = [];
+  tagsRaw.slice(0, TEMPLATE_LIMITS.maxHashtags).forEach((tag, i) => {
+    const clean = typeof tag === "string" ? tag.trim().replace(/^#/, "") : "";
+    if (!HASHTAG_RE.test(clean)) {
+      r.fail(`share.hashtags[${i}]`, "Expected letters, digits or _ (max 50)", null);
+      return;
+    }
+    if (!hashtags.includes(clean)) hashtags.push(clean);
+  });
+
+  return { message, hashtags };
+}
+
+function readTemplate(raw: unknown): { template: Template; issues: TemplateIssue[] } {
+  const r = new TemplateReader();
+
+  if (!isRecord(raw)) {
+    return { template: createDefaultTemplate(), issues: [{ path: "", message: "Expected an object" }] };
+  }
+
+  const canvas = readCanvas(r, raw.canvas, "canvas");
+
+  const layersRaw = Array.isArray(raw.layers) ? raw.layers : r.fail("layers", "Expected an array", [] as unknown[]);
+  if (layersRaw.length > TEMPLATE_LIMITS.maxLayers) {
+    r.fail("layers", `At most ${TEMPLATE_LIMITS.maxLayers} layers are allowed`, null);
+  }
+
+  const layers: Layer[] = [];
+  const ids = new Set<string>();
+
+  layersRaw.slice(0, TEMPLATE_LIMITS.maxLayers).forEach((item, i) => {
+    const path = `layers[${i}]`;
+    if (!isRecord(item)) {
+      r.fail(path, "Expected an object", null);
+      return;
+    }
+
+    if (typeof item.id !== "string" || !LAYER_ID_RE.test(item.id)) {
+      r.fail(`${path}.id`, "Expected letters, digits, - or _ (max 40)", null);
+      return;
+    }
+    if (ids.has(item.id)) {
+      r.fail(`${path}.id`, `Duplicate layer id "${item.id}"`, null);
+      return;
+    }
+
+    const base = { id: item.id, z: r.number(item.z, `${path}.z`, -1000, 1000, i, true) };
+
+    switch (item.kind) {
+      case "image":
+        layers.push(readImageLayer(r, item, path, base));
+        break;
+      case "text":
+        layers.push(readTextLayer(r, item, path, base));
+        break;
+      case "shape":
+        layers.push(readShapeLayer(r, item, path, base));
+        break;
+      case "logo":
+        layers.push(readLogoLayer(r, item, path, base));
+        break;
+      default:
+        r.fail(`${path}.kind`, "Must be one of: image, text, shape, logo", null);
+        return;
+    }
+    ids.add(item.id);
+  });
+
+  let bgRaw: Record<string, unknown> = {};
+  if (isRecord(raw.background)) bgRaw = raw.background;
+  else if (raw.background !== undefined) r.fail("background", "Expected an object", null);
+  const background = { url: r.string(bgRaw.url, "background.url", "", true) };
+
+  const variants = readVariants(r, raw.variants, layers);
+
+  return {
+    template: {
+      version: TEMPLATE_VERSION,
+      canvas,
+      layers,
+      variants,
+      export: readExport(r, raw.export),
+      watermark: readWatermark(r, raw.watermark),
+      share: readShare(r, raw.share),
+      background,
+    },
+    issues: r.issues,
+  };
+}
+
+/**
+ * Strict check for template writes (update-template, create-event).
+ * Returns the cleaned template (unknown keys dropped) or field-level issues.
+ */
+export function validateTemplate(raw: unknown): TemplateValidation {
+  const { template, issues } = readTemplate(raw);
+  return issues.length ? { ok: false, issues } : { ok: true, template };
+}
+
+/** One-line summary of validation issues for `message` fields and UI errors. */
+export function formatTemplateIssues(issues: TemplateIssue[]): string {
+  const head = issues.slice(0, 3).map((i) => (i.path ? `${i.path}: ${i.message}` : i.message));
+  const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : "";
+  return head.join("; ") + more;
+}
+
+/**
+ * Reads whatever is stored in `events.template` and returns a layered template.
+ * Legacy rows are migrated on the fly; out-of-range values are clamped,
+ * unreadable layers dropped, and missing or broken values yield defaults.
+ */
+export function upgradeTemplate(raw: unknown): Template {
+  if (!isRecord(raw)) return createDefaultTemplate();
+
+  const layered = Array.isArray(raw.layers) ? raw : migrateLegacyTemplate(raw as LegacyTemplate);
+  return readTemplate(layered).template;
+}
+
+/** Layers in paint order (lowest z first); ties keep array order. */
+export function sortLayers(layers: Layer[]): Layer[] {
+  return layers
+    .map((layer, i) => ({ layer, i }))
+    .sort((a, b) => a.layer.z - b.layer.z || a.i - b.i)
+    .map(({ layer }) => layer);
+}
+
+export function imageLayers(tpl: Template): ImageLayer[] {
+  return sortLayers(tpl.layers).filter((l): l is ImageLayer => l.kind === "image");
+}
+
+export function textLayers(tpl: Template): TextLayer[] {
+  return sortLayers(tpl.layers).filter((l): l is TextLayer => l.kind === "text");
+}
+
+/** Distinct attendee text inputs, in paint order, with the first label found for each. */
+export function textFields(tpl: Template): { field: string; label: string }[] {
+  const seen = new Map<string, string>();
+  for (const l of textLayers(tpl)) {
+    if (!seen.has(l.field)) seen.set(l.field, l.label || l.field);
+  }
+  return Array.from(seen, ([field, label]) => ({ field, label }));
+}
+
+/**
+ * Storage paths of layer images (logo files, photo slot frames), keyed by layer id,
+ * plus the watermark logo under `WATERMARK_ASSET_ID`.
+ * Each layer owns at most one asset, so the id doubles as the key for signed URLs and downloads.
+ */
+export function layerAssetPaths(tpl: Template): { id: string; path: string }[] {
+  const assets = tpl.layers.map((l) => ({
+    id: l.id,
+    path: normalizeStoragePath(l.kind === "logo" ? l.src : l.kind === "image" ? l.frame?.src : undefined),
+  }));
+  if (tpl.watermark?.kind === "logo") {
+    assets.push({ id: WATERMARK_ASSET_ID, path: normalizeStoragePath(tpl.watermark.src) });
+  }
+  return assets.filter((l) => l.path);
+}
+
+/** The main layout and every variant, in display order. */
+export function templateVariants(tpl: Template): { id: string; label: string; canvas: Template["canvas"] }[] {
+  const main = { id: MAIN_VARIANT_ID, label: findCanvasPreset(tpl.canvas)?.label ?? "Main", canvas: tpl.canvas };
+  return [main, ...(tpl.variants ?? []).map(({ id, label, canvas }) => ({ id, label, canvas }))];
+}
+
+/**
+ * The template as laid out for one variant: its canvas, with its placements applied
+ * over the main layers. `MAIN_VARIANT_ID` (or no id) gives the main layout.
+ * Returns null for unknown ids. The result has no `variants`.
+ */
+export function resolveVariant(tpl: Template, variantId: string = MAIN_VARIANT_ID): Template | null {
+  const { variants, ...main } = tpl;
+  if (variantId === MAIN_VARIANT_ID) return main;
+
+  const variant = variants?.find((v) => v.id === variantId);
+  if (!variant) return null;
+
+  return {
+    ...main,
+    canvas: variant.canvas,
+    layers: tpl.layers.map((l) => {
+      const p = variant.placements[l.id];
+      if (!p) return l;
+      const placed = Object.fromEntries(Object.entries(p).filter(([, v]) => v !== undefined));
+      return { ...l, ...placed } as Layer;
+    }),
+  };
+}
@@ -0,0 +1,161 @@
+// admin/src/lib/templateHistory.ts
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { Template } from "@/types/template";
+import { normalizeStoragePath } from "@/lib/storagePath";
+
+/**
+ * Template revisions (`template_revisions` table).
+ * Every save appends a row; restoring copies an old row back onto the event
+ * and appends a new one, so history itself is never rewritten.
+ */
+
+export type TemplateRevisionSummary = {
+  id: string;
+  createdAt: string;
+  authorId: string | null;
+  authorEmail: string | null;
+  backgroundPath: string | null;
+  note: string | null;
+  layerCount: number;
+};
+
+export type RevisionRow = {
+  id: string;
+  created_at: string;
+  author_id: string | null;
+  author_email: string | null;
+  background_path: string | null;
+  note: string | null;
+  template: unknown;
+};
+
+export const REVISION_COLUMNS = "id,created_at,author_id,author_email,background_path,note,template";
+
+export function toRevisionSummary(row: RevisionRow): TemplateRevisionSummary {
+  const layers = (row.template as { layers?: unknown } | null)?.layers;
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    authorId: row.author_id,
+    authorEmail: row.author_email,
+    backgroundPath: row.background_path,
+    note: row.note,
+    layerCount: Array.isArray(layers) ? layers.length : 0,
+  };
+}
+
+/** Appends a revision for `template`. Returns the new revision id. */
+export async function recordRevision(
+  supabase: SupabaseClient,
+  input: { eventId: string; author: User; template: Template; note?: string }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("template_revisions")
+    .insert({
+      event_id: input.eventId,
+      author_id: input.author.id,
+      author_email: input.author.email ?? null,
+      template: input.template,
+      background_path: normalizeStoragePath(input.template.background?.url) || null,
+      note: input.note ?? null,
+    })
+    .select("id")
+    .single<{ id: string }>();
+
+  if (error || !data) throw new Error(error?.message ?? "Failed to record revision");
+  return data.id;
+}
+
+export async function fetchRevision(
+  supabase: SupabaseClient,
+  eventId: string,
+  revisionId: string
+): Promise<RevisionRow | null> {
+  const { data, error } = await supabase
+    .from("template_revisions")
+    .select(REVISION_COLUMNS)
+    .eq("event_id", eventId)
+    .eq("id", revisionId)
+    .maybeSingle<RevisionRow>();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export type TemplateChange = {
+  /** e.g. `canvas.width`, `background.url`, `layers.name`, `layers.name.size`, `variants.story` */
+  path: string;
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+};
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Field-level changes needed to turn `from` into `to`. Layers are matched by id. */
+export function diffTemplates(from: Template, to: Template): TemplateChange[] {
+  const changes: TemplateChange[] = [];
+
+  for (const key of ["width", "height", "preset"] as const) {
+    if (from.canvas[key] !== to.canvas[key]) {
+      changes.push({ path: `canvas.${key}`, type: "changed", before: from.canvas[key], after: to.canvas[key] });
+    }
+  }
+
+  const bgFrom = from.background?.url ?? "";
+  const bgTo = to.background?.url ?? "";
+  if (bgFrom !== bgTo) {
+    changes.push({ path: "background.url", type: "changed", before: bgFrom, after: bgTo });
+  }
+
+  if (!same(from.export, to.export)) {
+    changes.push({ path: "export", type: "changed", before: from.export, after: to.export });
+  }
+  if (!same(from.watermark, to.watermark)) {
+    changes.push({ path: "watermark", type: "changed", before: from.watermark, after: to.watermark });
+  }
+  if (!same(from.share, to.share)) {
+    changes.push({ path: "share", type: "changed", before: from.share, after: to.share });
+  }
+
+  const before = new Map(from.layers.map((l) => [l.id, l]));
+  const after = new Map(to.layers.map((l) => [l.id, l]));
+
+  for (const [id, layer] of before) {
+    if (!after.has(id)) changes.push({ path: `layers.${id}`, type: "removed", before: layer });
+  }
+
+  for (const [id, layer] of after) {
+    const prev = before.get(id);
+    if (!prev) {
+      changes.push({ path: `layers.${id}`, type: "added", after: layer });
+      continue;
+    }
+
+    const a = prev as unknown as Record<string, unknown>;
+    const b = layer as unknown as Record<string, unknown>;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!same(a[key], b[key])) {
+        changes.push({ path: `layers.${id}.${key}`, type: "changed", before: a[key], after: b[key] });
+      }
+    }
+  }
+
+  // Variants are compared whole; their placements are small
+  const variantsBefore = new Map((from.variants ?? []).map((v) => [v.id, v]));
+  const variantsAfter = new Map((to.variants ?? []).map((v) => [v.id, v]));
+
+  for (const [id, variant] of variantsBefore) {
+    if (!variantsAfter.has(id)) changes.push({ path: `variants.${id}`, type: "removed", before: variant });
+  }
+  for (const [id, variant] of variantsAfter) {
+    const prev = variantsBefore.get(id);
+    if (!prev) changes.push({ path: `variants.${id}`, type: "added", after: variant });
+    else if (!same(prev, variant)) changes.push({ path: `variants.${id}`, type: "changed", before: prev, after: variant });
+  }
+
+  return changes;
+}
@@ -0,0 +1,8 @@
+// admin/src/lib/uuid.ts
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Ids from requests are checked before querying, so bad input is a 400 rather than a database error. */
+export function isUuid(v: unknown): v is string {
+  return typeof v === "string" && UUID_RE.test(v);
+}
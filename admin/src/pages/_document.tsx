@@ -5,13 +5,8 @@ export default function Document() {
   return (
     <Html lang="en">
       <Head>
-        {/* Google Fonts */}
-        <link rel="preconnect" href="https://fonts.googleapis.com" />
-        <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="" />
-        <link
-          href="https://fonts.googleapis.com/css2?family=Poppins:wght@400;600;800&display=swap"
-          rel="stylesheet"
-        />
+        {/* Poster fonts are bundled (styles/fonts.css); preload the default face */}
+        <link rel="preload" href="/fonts/poppins-800.woff2" as="font" type="font/woff2" crossOrigin="" />
 
         {/* Favicon */}
         <link rel="icon" href="/favicon.ico" />
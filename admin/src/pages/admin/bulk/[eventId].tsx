@@ -0,0 +1,412 @@
+// src/pages/admin/bulk/[eventId].tsx
+import Head from "next/head";
+import Link from "next/link";
+import type { GetServerSideProps, NextApiRequest, NextApiResponse } from "next";
+import { useMemo, useRef, useState } from "react";
+import JSZip from "jszip";
+import { supabaseServer } from "@/lib/supabase/server";
+import { NAME_FIELD, imageLayers, textFields, upgradeTemplate } from "@/lib/template";
+import { parseCsvRecords, toCsv } from "@/lib/csv";
+import { posterFilename } from "@/lib/poster/render";
+
+type Slot = { id: string; label: string };
+
+type Props = {
+  eventId: string;
+  eventCode: string;
+  name: string;
+  fields: { field: string; label: string }[];
+  photoSlots: Slot[];
+};
+
+type RowError = { line: number; name: string; error: string };
+
+// Column names accepted for the first photo slot (others use `photo_<layerId>`)
+const PHOTO_COLUMNS = ["photo", "photo_url", "photourl", "photo url", "image", "image_url"];
+const CONCURRENCY = 2;
+
+export const getServerSideProps: GetServerSideProps<Props> = async (ctx) => {
+  const eventId = typeof ctx.params?.eventId === "string" ? ctx.params.eventId : "";
+  const supabase = supabaseServer(ctx.req as NextApiRequest, ctx.res as NextApiResponse);
+
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (!sessionData.session) {
+    return {
+      redirect: {
+        destination: `/auth?next=${encodeURIComponent(`/admin/bulk/${eventId}`)}`,
+        permanent: false,
+      },
+    };
+  }
+
+  // RLS only returns the organizer's own events
+  const { data } = await supabase
+    .from("events")
+    .select("id,event_code,name,template")
+    .eq("id", eventId)
+    .maybeSingle<{ id: string; event_code: string | null; name: string | null; template: unknown }>();
+
+  if (!data) return { notFound: true };
+
+  const template = upgradeTemplate(data.template);
+
+  return {
+    props: {
+      eventId: data.id,
+      eventCode: data.event_code ?? "",
+      name: data.name ?? "Untitled Event",
+      fields: textFields(template),
+      photoSlots: imageLayers(template).map((l) => ({ id: l.id, label: l.label || l.id })),
+    },
+  };
+};
+
+function isHttpUrl(v: string) {
+  return /^https?:\/\//i.test(v);
+}
+
+function imageType(filename: string) {
+  const ext = filename.split(".").pop()?.toLowerCase();
+  if (ext === "png") return "image/png";
+  if (ext === "webp") return "image/webp";
+  if (ext === "gif") return "image/gif";
+  return "image/jpeg";
+}
+
+function baseName(path: string) {
+  return (path.split("/").pop() ?? path).toLowerCase();
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export default function BulkGeneratePage({ eventId, eventCode, name, fields, photoSlots }: Props) {
+  const [csvName, setCsvName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [recordLines, setRecordLines] = useState<number[]>([]);
+
+  const [zipName, setZipName] = useState<string | null>(null);
+  // Photos from the uploaded ZIP, keyed by lower-cased file name
+  const [zipPhotos, setZipPhotos] = useState<Map<string, JSZip.JSZipObject>>(new Map());
+
+  const [running, setRunning] = useState(false);
+  const [done, setDone] = useState(0);
+  const [errors, setErrors] = useState<RowError[]>([]);
+  const [msg, setMsg] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Which CSV column feeds each text field / photo slot
+  const columnFor = useMemo(() => {
+    const has = (c: string) => headers.includes(c);
+    const text: Record<string, string | null> = {};
+    for (const f of fields) {
+      text[f.field] = [f.field, f.label.toLowerCase()].find(has) ?? null;
+    }
+    const photo: Record<string, string | null> = {};
+    photoSlots.forEach((slot, i) => {
+      const candidates = [`photo_${slot.id}`.toLowerCase(), ...(i === 0 ? PHOTO_COLUMNS : [])];
+      photo[slot.id] = candidates.find(has) ?? null;
+    });
+    return { text, photo };
+  }, [headers, fields, photoSlots]);
+
+  const missingColumns = [
+    ...fields.filter((f) => !columnFor.text[f.field]).map((f) => f.field),
+    ...photoSlots.filter((s) => !columnFor.photo[s.id]).map((s) => (s === photoSlots[0] ? "photo" : `photo_${s.id}`)),
+  ];
+
+  const onCsv = async (file: File) => {
+    setMsg(null);
+    setErrors([]);
+    setDone(0);
+    try {
+      const parsed = parseCsvRecords(await file.text());
+      setCsvName(file.name);
+      setHeaders(parsed.headers);
+      setRecords(parsed.records);
+      setRecordLines(parsed.lines);
+      if (parsed.records.length === 0) setMsg("The CSV has no rows under the header.");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Could not read CSV");
+    }
+  };
+
+  const onZip = async (file: File) => {
+    setMsg(null);
+    try {
+      const zip = await JSZip.loadAsync(file);
+      const map = new Map<string, JSZip.JSZipObject>();
+      zip.forEach((path, entry) => {
+        if (!entry.dir && !path.startsWith("__MACOSX/")) map.set(baseName(path), entry);
+      });
+      setZipName(file.name);
+      setZipPhotos(map);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Could not read ZIP");
+    }
+  };
+
+  const buildRowForm = async (rec: Record<string, string>): Promise<FormData> => {
+    const form = new FormData();
+    form.append("eventId", eventId);
+
+    for (const f of fields) {
+      const col = columnFor.text[f.field];
+      const value = col ? rec[col] ?? "" : "";
+      if (!value) throw new Error(`Missing ${f.field}`);
+      form.append(f.field, value);
+    }
+
+    for (const [i, slot] of photoSlots.entries()) {
+      const col = columnFor.photo[slot.id];
+      const value = col ? rec[col] ?? "" : "";
+      const suffix = i === 0 ? "" : `_${slot.id}`;
+
+      if (!value) throw new Error(`Missing photo for ${slot.label}`);
+
+      if (isHttpUrl(value)) {
+        form.append(`photoUrl${suffix}`, value);
+        continue;
+      }
+
+      const entry = zipPhotos.get(baseName(value));
+      if (!entry) throw new Error(`${value} not found in the photo ZIP`);
+      const blob = await entry.async("blob");
+      form.append(`photo${suffix}`, new File([blob], baseName(value), { type: imageType(value) }));
+    }
+
+    return form;
+  };
+
+  const generate = async () => {
+    if (running || records.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setRunning(true);
+    setDone(0);
+    setErrors([]);
+    setMsg(null);
+
+    const out = new JSZip();
+    const used = new Set<string>();
+    const rowErrors: RowError[] = [];
+    let next = 0;
+    let ok = 0;
+
+    const uniqueName = (filename: string) => {
+      let candidate = filename;
+      for (let n = 2; used.has(candidate); n++) candidate = filename.replace(/(\.\w+)$/, `-${n}$1`);
+      used.add(candidate);
+      return candidate;
+    };
+
+    const worker = async () => {
+      while (!controller.signal.aborted) {
+        const index = next++;
+        if (index >= records.length) return;
+
+        const rec = records[index];
+        const line = recordLines[index];
+        const nameCol = columnFor.text[NAME_FIELD];
+        const label = (nameCol && rec[nameCol]) || `Row ${line}`;
+
+        try {
+          const r = await fetch("/api/bulk-render", {
+            method: "POST",
+            body: await buildRowForm(rec),
+            signal: controller.signal,
+          });
+
+          if (!r.ok) {
+            const data = (await r.json().catch(() => null)) as { error?: string; message?: string } | null;
+            throw new Error(data?.message || data?.error || `Render failed (${r.status})`);
+          }
+
+          // The event's export settings pick the format (JPEG or PNG)
+          const ext = r.headers.get("content-type") === "image/png" ? "png" : "jpg";
+          out.file(uniqueName(posterFilename(label, eventCode, ext)), await r.blob());
+          ok++;
+        } catch (e) {
+          if (controller.signal.aborted) return;
+          rowErrors.push({ line, name: label, error: e instanceof Error ? e.message : "Unknown error" });
+          setErrors([...rowErrors]);
+        } finally {
+          setDone((d) => d + 1);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, records.length) }, worker));
+
+    if (controller.signal.aborted) {
+      setMsg("Cancelled.");
+      setRunning(false);
+      return;
+    }
+
+    if (rowErrors.length > 0) {
+      rowErrors.sort((a, b) => a.line - b.line);
+      setErrors(rowErrors);
+      out.file("errors.csv", toCsv([["line", "name", "error"], ...rowErrors.map((e) => [e.line, e.name, e.error])]));
+    }
+
+    if (ok > 0) {
+      const zipBlob = await out.generateAsync({ type: "blob" });
+      downloadBlob(zipBlob, `${eventCode || "posters"}-posters.zip`);
+    }
+
+    setMsg(
+      ok > 0
+        ? `Done ✅ ${ok} poster${ok === 1 ? "" : "s"} generated${rowErrors.length ? `, ${rowErrors.length} failed (see errors.csv)` : ""}.`
+        : "No posters could be generated. Check the errors below."
+    );
+    setRunning(false);
+  };
+
+  const total = records.length;
+  const pct = total ? Math.round((done / total) * 100) : 0;
+
+  return (
+    <>
+      <Head>
+        <title>{`Bulk Generate | ${name}`}</title>
+      </Head>
+
+      <main className="min-h-screen px-4 py-6 text-white">
+        <div className="max-w-3xl mx-auto">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h1 className="text-xl font-semibold">Bulk poster generation</h1>
+              <p className="text-sm text-white/60 mt-1">
+                {name} {eventCode ? <span className="font-mono">· {eventCode}</span> : null}
+              </p>
+            </div>
+            <Link
+              href="/admin"
+              className="rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm hover:bg-white/10"
+            >
+              ← Dashboard
+            </Link>
+          </div>
+
+          <div className="mt-6 rounded-2xl border border-white/10 bg-white/5 p-5 space-y-5">
+            <div>
+              <div className="text-sm font-semibold">1. Roster CSV</div>
+              <p className="text-xs text-white/60 mt-1">
+                Header row with{" "}
+                <span className="font-mono">
+                  {[...fields.map((f) => f.field), ...photoSlots.map((s, i) => (i === 0 ? "photo" : `photo_${s.id}`))].join(", ")}
+                </span>
+                . Photo cells can be an http(s) URL or a file name from the photo ZIP.
+              </p>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                disabled={running}
+                className="mt-2 block w-full text-sm text-white/60 file:mr-3 file:rounded-lg file:border-0 file:bg-white/10 file:px-4 file:py-2 file:text-white"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) void onCsv(f);
+                }}
+              />
+              {csvName && (
+                <div className="mt-2 text-xs text-white/60">
+                  {csvName}: {total} row{total === 1 ? "" : "s"}
+                  {missingColumns.length > 0 && (
+                    <span className="text-yellow-300"> · missing column(s): {missingColumns.join(", ")}</span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <div className="text-sm font-semibold">
+                2. Photo ZIP <span className="font-normal text-white/60">(optional)</span>
+              </div>
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                disabled={running}
+                className="mt-2 block w-full text-sm text-white/60 file:mr-3 file:rounded-lg file:border-0 file:bg-white/10 file:px-4 file:py-2 file:text-white"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) void onZip(f);
+                }}
+              />
+              {zipName && (
+                <div className="mt-2 text-xs text-white/60">
+                  {zipName}: {zipPhotos.size} file{zipPhotos.size === 1 ? "" : "s"}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => void generate()}
+                  disabled={running || total === 0}
+                  className="flex-1 rounded-xl bg-orange-500 text-white px-4 py-2 font-medium hover:bg-orange-600 transition disabled:opacity-50"
+                >
+                  {running ? `Generating… ${done}/${total}` : `3. Generate ${total || ""} posters`}
+                </button>
+                {running && (
+                  <button
+                    onClick={() => abortRef.current?.abort()}
+                    className="rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm hover:bg-white/10"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+
+              {(running || done > 0) && (
+                <div className="mt-3 h-2 rounded-full bg-white/10 overflow-hidden">
+                  <div className="h-full bg-orange-500 transition-all" style={{ width: `${pct}%` }} />
+                </div>
+              )}
+            </div>
+
+            {msg && <div className="text-sm rounded-xl border border-white/10 bg-black/20 p-3">{msg}</div>}
+          </div>
+
+          {errors.length > 0 && (
+            <div className="mt-6 rounded-2xl border border-red-500/20 bg-red-500/10 p-4">
+              <div className="text-sm font-semibold text-red-300">
+                {errors.length} row{errors.length === 1 ? "" : "s"} failed
+              </div>
+              <table className="mt-2 w-full text-xs">
+                <thead className="text-white/60 text-left">
+                  <tr>
+                    <th className="py-1 pr-3">Line</th>
+                    <th className="py-1 pr-3">Name</th>
+                    <th className="py-1">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {errors.map((e) => (
+                    <tr key={e.line} className="border-t border-white/10">
+                      <td className="py-1 pr-3 font-mono">{e.line}</td>
+                      <td className="py-1 pr-3">{e.name}</td>
+                      <td className="py-1 text-red-200">{e.error}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -2,11 +2,19 @@
 import Head from "next/head";
 import Link from "next/link";
 import type { GetServerSideProps, NextApiRequest } from "next";
+import { useEffect, useMemo, useState } from "react";
 import { supabaseServer } from "@/lib/supabase/server";
 
 import { normalizeStoragePath } from "@/lib/storagePath"; // Import helper
 
 import type { Template } from "@/types/template";
+import { NAME_FIELD, sortLayers, upgradeTemplate } from "@/lib/template";
+import { DESIGN_W, posterSize } from "@/lib/poster/render";
+import { eventStatusLabel } from "@/lib/eventAvailability";
+import { browserTimeZone } from "@/lib/analytics/range";
+import type { OrganizerOverview as Overview, OverviewEvent } from "@/lib/analytics/overview";
+import OrganizerOverview from "@/components/analytics/OrganizerOverview";
+import Sparkline from "@/components/analytics/Sparkline";
 
 type EventRow = {
   id: string;
@@ -16,15 +24,27 @@ type EventRow = {
   published: boolean | null;
   created_at: string | null;
   status: string | null;
+  publish_at: string | null;
+  expires_at: string | null;
   template: Template | null;
   backgroundUrl?: string | null;
 };
 
+// Server-rendered, so avoid locale/timezone-dependent output (hydration)
+function formatUtc(iso: string) {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
 type Props = {
   events: EventRow[];
   errorMsg: string | null;
 };
 
+type OverviewResp = { ok: true; overview: Overview } | { ok: false; error: string; message?: string };
+
+// Days covered by the dashboard trends
+const OVERVIEW_DAYS = 30;
+
 export const getServerSideProps: GetServerSideProps<Props> = async (ctx) => {
   const supabase = supabaseServer(ctx.req as NextApiRequest, ctx.res as any);
 
@@ -42,10 +62,13 @@ export const getServerSideProps: GetServerSideProps<Props> = async (ctx) => {
 
   const { data, error } = await supabase
     .from("events")
-    .select("id,event_code,name,description,published,created_at,status,template")
+    .select("id,event_code,name,description,published,created_at,status,publish_at,expires_at,template")
     .order("created_at", { ascending: false });
 
-  const events = (data ?? []) as EventRow[];
+  const events = ((data ?? []) as EventRow[]).map((e) => ({
+    ...e,
+    template: e.template ? upgradeTemplate(e.template) : null,
+  }));
 
   // 2. Collect background paths
   const paths: string[] = [];
@@ -101,7 +124,51 @@ export const getServerSideProps: GetServerSideProps<Props> = async (ctx) => {
   };
 };
 
+function CardStats({ stats }: { stats: OverviewEvent | undefined }) {
+  if (!stats) return null;
+  return (
+    <div className="mt-2 flex items-center gap-2 text-[11px] text-white/60">
+      <Sparkline values={stats.trend} className="flex-1 h-5" />
+      <span className="shrink-0">
+        <b className="text-white">{stats.totalDownloads}</b> posters · {stats.rangeDownloads} in {OVERVIEW_DAYS}d
+      </span>
+    </div>
+  );
+}
+
 export default function AdminDashboard({ events, errorMsg }: Props) {
+  const [overview, setOverview] = useState<Overview | null>(null);
+  const [overviewLoading, setOverviewLoading] = useState(true);
+  const [overviewErr, setOverviewErr] = useState<string | null>(null);
+
+  // Loaded client-side so the trend days follow the organizer's time zone
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const params = new URLSearchParams({ days: String(OVERVIEW_DAYS), tz: browserTimeZone() });
+        const r = await fetch(`/api/analytics-overview?${params.toString()}`);
+        const json = (await r.json()) as OverviewResp;
+        if (cancelled) return;
+        if (!r.ok || !json.ok) {
+          setOverviewErr(!json.ok ? json.message || json.error : `Request failed (${r.status})`);
+          return;
+        }
+        setOverview(json.overview);
+      } catch (e) {
+        if (!cancelled) setOverviewErr(e instanceof Error ? e.message : "Unknown error");
+      } finally {
+        if (!cancelled) setOverviewLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const statsById = useMemo(() => new Map((overview?.events ?? []).map((e) => [e.eventId, e])), [overview]);
+
   return (
     <>
       <Head>
@@ -141,6 +208,10 @@ export default function AdminDashboard({ events, errorMsg }: Props) {
             </div>
           ) : null}
 
+          {events.length > 0 ? (
+            <OrganizerOverview overview={overview} loading={overviewLoading} error={overviewErr} />
+          ) : null}
+
           <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {events.map((e) => (
               <div
@@ -151,7 +222,10 @@ export default function AdminDashboard({ events, errorMsg }: Props) {
                   href={`/editor/draft/${encodeURIComponent(e.id)}`}
                   className="block"
                 >
-                  <div className={`aspect-square relative flex items-center justify-center text-white/40 text-sm overflow-hidden group ${e.backgroundUrl ? '' : 'bg-black/30'}`}>
+                  <div
+                    className={`relative flex items-center justify-center text-white/40 text-sm overflow-hidden group ${e.backgroundUrl ? '' : 'bg-black/30'}`}
+                    style={{ aspectRatio: e.template ? `${e.template.canvas.width} / ${e.template.canvas.height}` : "1 / 1" }}
+                  >
                     {e.backgroundUrl ? (
                       <>
                         <img
@@ -160,35 +234,52 @@ export default function AdminDashboard({ events, errorMsg }: Props) {
                           className="absolute inset-0 w-full h-full object-cover transition duration-300 group-hover:scale-105"
                         />
                         {/* Preview Overlays */}
-                        {e.template?.photo && (
-                          <div
-                            className="absolute border-2 border-[var(--viro-primary)] bg-black/20"
-                            style={{
-                              left: `${(e.template.photo.x ?? 0.5) * 100}%`,
-                              top: `${(e.template.photo.y ?? 0.35) * 100}%`,
-                              width: `${((e.template.photo.size ?? 220) / (e.template.canvas?.width ?? 1080)) * 100}%`,
-                              height: `${((e.template.photo.size ?? 220) / (e.template.canvas?.width ?? 1080)) * 100}%`,
+                        {e.template &&
+                          sortLayers(e.template.layers).map((l) => {
+                            // Slot sizes are design px on a 1080 wide canvas
+                            const size = e.template ? posterSize(e.template) : { width: DESIGN_W, height: DESIGN_W };
+                            const w = l.kind === "image" ? l.size / DESIGN_W : l.w;
+                            const h = l.kind === "image" ? (l.size / DESIGN_W) * (size.width / size.height) : l.h;
+                            const box = {
+                              left: `${l.x * 100}%`,
+                              top: `${l.y * 100}%`,
+                              width: `${w * 100}%`,
+                              height: `${h * 100}%`,
                               transform: "translate(-50%, -50%)",
-                              borderRadius: e.template.photo.shape === "circle" ? "50%" : "4px",
-                            }}
-                          >
-                            <div className="w-full h-full flex items-center justify-center text-[8px] opacity-40">Photo</div>
-                          </div>
-                        )}
-                        {e.template?.text && (
-                          <div
-                            className="absolute border border-white/30 bg-white/10 flex items-center justify-center text-[6px] font-bold text-white/50"
-                            style={{
-                              left: `${(e.template.text.x ?? 0.5) * 100}%`,
-                              top: `${(e.template.text.y ?? 0.78) * 100}%`,
-                              width: `${(e.template.text.w ?? 0.82) * 100}%`,
-                              height: `${(e.template.text.h ?? 0.14) * 100}%`,
-                              transform: "translate(-50%, -50%)",
-                            }}
-                          >
-                            NAME SLOT
-                          </div>
-                        )}
+                            };
+
+                            if (l.kind === "image") {
+                              return (
+                                <div
+                                  key={l.id}
+                                  className="absolute border-2 border-[var(--viro-primary)] bg-black/20"
+                                  style={{ ...box, borderRadius: l.shape === "circle" ? "50%" : "4px" }}
+                                >
+                                  <div className="w-full h-full flex items-center justify-center text-[8px] opacity-40">Photo</div>
+                                </div>
+                              );
+                            }
+
+                            if (l.kind === "text") {
+                              return (
+                                <div
+                                  key={l.id}
+                                  className="absolute border border-white/30 bg-white/10 flex items-center justify-center text-[6px] font-bold text-white/50"
+                                  style={box}
+                                >
+                                  {l.field === NAME_FIELD ? "NAME SLOT" : (l.label || l.field).toUpperCase()}
+                                </div>
+                              );
+                            }
+
+                            return (
+                              <div
+                                key={l.id}
+                                className="absolute border border-dashed border-white/20"
+                                style={{ ...box, borderRadius: l.kind === "shape" && l.shape === "ellipse" ? "50%" : "2px" }}
+                              />
+                            );
+                          })}
                       </>
                     ) : (
                       <div className="flex flex-col items-center gap-2 opacity-40">
@@ -212,27 +303,58 @@ export default function AdminDashboard({ events, errorMsg }: Props) {
                     <div className="mt-2 flex items-center justify-between text-xs">
                       <span className="text-white/60">{e.event_code ?? "Not published"}</span>
                       <span className={e.published ? "text-green-300" : "text-yellow-300"}>
-                        {e.published ? "Published" : "Draft"}
+                        {eventStatusLabel(e)}
                       </span>
                     </div>
 
                     <div className="mt-2 text-[11px] text-white/50">
-                      {e.status ? `Status: ${e.status}` : ""}
+                      {e.publish_at || e.expires_at
+                        ? [
+                            e.publish_at ? `Opens ${formatUtc(e.publish_at)}` : null,
+                            e.expires_at ? `Closes ${formatUtc(e.expires_at)}` : null,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")
+                        : e.status
+                          ? `Status: ${e.status}`
+                          : ""}
                     </div>
+
+                    <CardStats stats={statsById.get(e.id)} />
                   </div>
                 </Link>
 
-                {/* Analytics Button */}
-                {e.published && e.event_code && (
-                  <div className="px-3 pb-3">
+                <div className="px-3 pb-3 flex gap-2">
+                  {/* Analytics Button */}
+                  {e.event_code && (e.published || e.status === "unpublished" || e.status === "archived") && (
                     <Link
                       href={`/analytics/${encodeURIComponent(e.event_code)}`}
-                      className="block text-center text-xs px-3 py-2 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 transition"
+                      className="flex-1 block text-center text-xs px-3 py-2 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 transition"
                     >
                       📊 View Analytics
                     </Link>
-                  </div>
-                )}
+                  )}
+
+                  {/* Bulk generation (CSV roster) */}
+                  {e.template?.background?.url && (
+                    <Link
+                      href={`/admin/bulk/${encodeURIComponent(e.id)}`}
+                      className="flex-1 block text-center text-xs px-3 py-2 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 transition"
+                    >
+                      🗂️ Bulk Generate
+                    </Link>
+                  )}
+
+                  {/* Printable QR poster for venues */}
+                  {e.event_code && e.published && (
+                    <a
+                      href={`/api/share-kit?eventId=${encodeURIComponent(e.id)}`}
+                      className="flex-1 block text-center text-xs px-3 py-2 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 transition"
+                    >
+                      🖨️ Share Kit
+                    </a>
+                  )}
+                </div>
               </div>
             ))}
           </div>
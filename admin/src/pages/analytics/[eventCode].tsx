@@ -3,12 +3,18 @@ import Head from "next/head";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { useEffect, useMemo, useState } from "react";
+import ShareKitPanel from "@/components/share/ShareKitPanel";
+import ReportLinksPanel from "@/components/analytics/ReportLinksPanel";
+import type { FunnelBreakdownRow, FunnelSummary } from "@/lib/funnel";
+import { browserTimeZone, type AnalyticsRange, type Granularity } from "@/lib/analytics/range";
 
-type DailyRow = { day: string; downloads: number };
+type SeriesRow = { bucket: string; downloads: number };
+type VariantRow = { variant: string; label: string; downloads: number };
 
 type ApiOk = {
   ok: true;
   eventCode: string;
+  access: "owner" | "report";
   event: {
     eventId: string | null;
     name: string | null;
@@ -17,7 +23,11 @@ type ApiOk = {
     createdAt: string | null;
   } | null;
   totalDownloads: number;
-  daily: DailyRow[];
+  range: AnalyticsRange;
+  rangeDownloads: number;
+  series: SeriesRow[];
+  variants: VariantRow[];
+  funnel: FunnelSummary;
 };
 
 type ApiErr = { ok: false; error: string; message?: string };
@@ -28,8 +38,57 @@ function cleanEventCode(raw: unknown): string {
   return raw.replace(/^=+/, "").trim();
 }
 
-function sumDownloads(rows: DailyRow[]) {
-  return rows.reduce((acc, r) => acc + (Number.isFinite(r.downloads) ? r.downloads : 0), 0);
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function FunnelTable({ title, rows }: { title: string; rows: FunnelBreakdownRow[] }) {
+  return (
+    <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4 overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="text-[var(--viro-muted)]">
+          <tr className="text-left">
+            <th className="font-normal pb-2">{title}</th>
+            <th className="font-normal pb-2 text-right">Opened</th>
+            <th className="font-normal pb-2 text-right">Photo</th>
+            <th className="font-normal pb-2 text-right">Downloaded</th>
+            <th className="font-normal pb-2 text-right">Shared</th>
+            <th className="font-normal pb-2 text-right">Conversion</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.key} className="border-t border-white/5">
+              <td className="py-1.5 text-white/90">{r.key}</td>
+              <td className="py-1.5 text-right">{r.steps.page_view}</td>
+              <td className="py-1.5 text-right">{r.steps.photo_chosen}</td>
+              <td className="py-1.5 text-right">{r.steps.downloaded}</td>
+              <td className="py-1.5 text-right">{r.steps.shared}</td>
+              <td className="py-1.5 text-right font-bold">{percent(r.conversion)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+type Preset = 7 | 30 | 90 | "custom";
+
+const EXPORTS: { dataset: string; label: string }[] = [
+  { dataset: "series", label: "Downloads over time" },
+  { dataset: "funnel", label: "Funnel by source & device" },
+  { dataset: "shares", label: "Shares by channel" },
+  { dataset: "downloads", label: "Raw downloads" },
+  { dataset: "funnel_events", label: "Raw funnel events" },
+];
+
+/** "2026-10-19T14:00" → "Oct 19, 14:00"; days stay as they are. */
+function bucketLabel(bucket: string) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}:\d{2})$/.exec(bucket);
+  if (!m) return bucket;
+  const month = new Date(Date.UTC(2000, Number(m[2]) - 1, 1)).toLocaleString("en", { month: "short", timeZone: "UTC" });
+  return `${month} ${Number(m[3])}, ${m[4]}`;
 }
 
 export default function AnalyticsPage() {
@@ -40,10 +99,33 @@ export default function AnalyticsPage() {
     return cleanEventCode(typeof q === "string" ? q : Array.isArray(q) ? q[0] : "");
   }, [router.query.eventCode]);
 
-  const [days, setDays] = useState<7 | 30 | 90>(30);
+  // Read-only report link token (?report=…); without it the API requires the owner's session
+  const reportToken = typeof router.query.report === "string" ? router.query.report : "";
+
+  const [preset, setPreset] = useState<Preset>(30);
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState("");
+  const [granularity, setGranularity] = useState<Granularity | "auto">("auto");
+
+  // Buckets follow the organizer's clock; only used client-side (after loading)
+  const tz = useMemo(() => browserTimeZone(), []);
+
+  const rangeQuery = useMemo(() => {
+    const params = new URLSearchParams({ eventCode, tz });
+    if (reportToken) params.set("report", reportToken);
+    if (preset === "custom") {
+      params.set("from", customFrom);
+      params.set("to", customTo);
+    } else {
+      params.set("days", String(preset));
+    }
+    if (granularity !== "auto") params.set("granularity", granularity);
+    return params.toString();
+  }, [eventCode, tz, reportToken, preset, customFrom, customTo, granularity]);
 
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
+  const [errStatus, setErrStatus] = useState<number | null>(null);
   const [data, setData] = useState<ApiOk | null>(null);
 
   const [copied, setCopied] = useState(false);
@@ -77,21 +159,22 @@ export default function AnalyticsPage() {
 
   useEffect(() => {
     if (!router.isReady || !eventCode) return;
+    if (preset === "custom" && (!customFrom || !customTo)) return;
 
     let cancelled = false;
     (async () => {
       setLoading(true);
       setErr(null);
+      setErrStatus(null);
 
       try {
-        const r = await fetch(
-          `/api/analytics?eventCode=${encodeURIComponent(eventCode)}&days=${days}`
-        );
+        const r = await fetch(`/api/analytics?${rangeQuery}`);
         const json = (await r.json()) as ApiResp;
         if (cancelled) return;
 
         if (!r.ok || !json.ok) {
           setErr(!json.ok ? json.message || json.error : `Request failed (${r.status})`);
+          setErrStatus(r.status);
           setData(null);
           return;
         }
@@ -107,13 +190,30 @@ export default function AnalyticsPage() {
     return () => {
       cancelled = true;
     };
-  }, [router.isReady, eventCode, days]);
+  }, [router.isReady, eventCode, rangeQuery, preset, customFrom, customTo]);
 
-  const daily = data?.daily ?? [];
-  const maxDay = Math.max(1, ...daily.map((d) => d.downloads || 0));
+  const pickCustom = () => {
+    // Start from the range currently shown
+    if (data?.range) {
+      setCustomFrom(data.range.from);
+      setCustomTo(data.range.to);
+    }
+    setPreset("custom");
+  };
+
+  const readOnly = data?.access === "report";
+
+  const series = data?.series ?? [];
+  const maxBucket = Math.max(1, ...series.map((d) => d.downloads || 0));
+  const hourly = data?.range.granularity === "hour";
+  const axisBuckets = [series[0], series[Math.floor(series.length / 2)], series[series.length - 1]];
+  const rangeLabel = data?.range ? `${data.range.from} → ${data.range.to}` : "";
+
+  const variants = data?.variants ?? [];
+  const maxVariant = Math.max(1, ...variants.map((v) => v.downloads || 0));
 
-  const last7 = daily.slice(-7);
-  const downloadsLast7 = sumDownloads(last7);
+  const funnel = data?.funnel ?? null;
+  const funnelStarted = (funnel?.steps[0]?.sessions ?? 0) > 0;
 
   return (
     <>
@@ -125,9 +225,13 @@ export default function AnalyticsPage() {
         <div className="mx-auto max-w-3xl">
           {/* top nav */}
           <div className="flex items-center justify-between mb-4">
-            <Link href="/admin" className="text-sm text-[var(--viro-muted)] hover:opacity-90">
-              ← Back to dashboard
-            </Link>
+            {readOnly ? (
+              <span className="text-sm text-[var(--viro-muted)]">Read-only report</span>
+            ) : (
+              <Link href="/admin" className="text-sm text-[var(--viro-muted)] hover:opacity-90">
+                ← Back to dashboard
+              </Link>
+            )}
 
             <div className="flex items-center gap-2">
               <Link
@@ -155,33 +259,91 @@ export default function AnalyticsPage() {
                 ) : null}
               </div>
 
-              {/* days toggle */}
-              <div className="flex items-center gap-2">
-                {[7, 30, 90].map((d) => {
-                  const active = days === d;
-                  return (
+              {/* range */}
+              <div className="flex flex-col items-start sm:items-end gap-2">
+                <div className="flex items-center gap-2">
+                  {([7, 30, 90, "custom"] as const).map((p) => {
+                    const active = preset === p;
+                    return (
+                      <button
+                        key={p}
+                        type="button"
+                        onClick={() => (p === "custom" ? pickCustom() : setPreset(p))}
+                        className={[
+                          "px-3 py-2 rounded-xl text-xs font-semibold border transition",
+                          active
+                            ? "border-[var(--viro-primary)] bg-[rgba(255,138,42,0.12)]"
+                            : "border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90",
+                        ].join(" ")}
+                      >
+                        {p === "custom" ? "Custom" : `${p}d`}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {preset === "custom" ? (
+                  <div className="flex items-center gap-2 text-xs">
+                    <input
+                      type="date"
+                      value={customFrom}
+                      max={customTo || undefined}
+                      onChange={(e) => setCustomFrom(e.target.value)}
+                      className="viro-input text-xs"
+                    />
+                    <span className="text-[var(--viro-muted)]">→</span>
+                    <input
+                      type="date"
+                      value={customTo}
+                      min={customFrom || undefined}
+                      onChange={(e) => setCustomTo(e.target.value)}
+                      className="viro-input text-xs"
+                    />
+                  </div>
+                ) : null}
+
+                <div className="flex items-center gap-1 text-[11px]">
+                  {(["auto", "day", "hour"] as const).map((g) => (
                     <button
-                      key={d}
+                      key={g}
                       type="button"
-                      onClick={() => setDays(d as 7 | 30 | 90)}
+                      onClick={() => setGranularity(g)}
                       className={[
-                        "px-3 py-2 rounded-xl text-xs font-semibold border transition",
-                        active
+                        "px-2 py-1 rounded-lg border transition",
+                        granularity === g
                           ? "border-[var(--viro-primary)] bg-[rgba(255,138,42,0.12)]"
                           : "border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90",
                       ].join(" ")}
                     >
-                      {d}d
+                      {g === "auto" ? "Auto" : g === "day" ? "Daily" : "Hourly"}
                     </button>
-                  );
-                })}
+                  ))}
+                </div>
               </div>
             </div>
 
             {loading ? (
               <div className="mt-4 text-[var(--viro-muted)]">Loading…</div>
+            ) : errStatus === 401 ? (
+              <div className="mt-4 text-sm text-[var(--viro-muted)]">
+                Analytics are only visible to the event owner.{" "}
+                <Link
+                  href={`/auth?next=${encodeURIComponent(`/analytics/${eventCode}`)}`}
+                  className="text-[var(--viro-primary)] hover:opacity-90"
+                >
+                  Log in
+                </Link>{" "}
+                to continue, or ask the organizer for a report link.
+              </div>
             ) : err ? (
-              <div className="mt-4 text-[var(--viro-danger)]">{err}</div>
+              <div className="mt-4 text-[var(--viro-danger)]">
+                {err}
+                {errStatus === 403 && !reportToken ? (
+                  <div className="mt-1 text-xs text-[var(--viro-muted)]">
+                    You are logged in with an account that does not own this event.
+                  </div>
+                ) : null}
+              </div>
             ) : (
               <>
                 {/* stats */}
@@ -192,8 +354,11 @@ export default function AnalyticsPage() {
                   </div>
 
                   <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4">
-                    <div className="text-xs text-[var(--viro-muted)]">Downloads (last 7d)</div>
-                    <div className="text-3xl font-black mt-1">{downloadsLast7}</div>
+                    <div className="text-xs text-[var(--viro-muted)]">Downloads in range</div>
+                    <div className="text-3xl font-black mt-1">{data?.rangeDownloads ?? 0}</div>
+                    <div className="text-[11px] text-[var(--viro-muted)] mt-1">
+                      {rangeLabel} · {data?.range.tz}
+                    </div>
                   </div>
 
                   <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4">
@@ -209,31 +374,76 @@ export default function AnalyticsPage() {
                   </div>
                 </div>
 
+                {/* QR + print kit, report links (owner only) */}
+                {!readOnly ? (
+                  <div className="mt-6">
+                    <div className="text-sm font-semibold mb-2">QR code &amp; share kit</div>
+                    <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4">
+                      <ShareKitPanel eventCode={data?.eventCode ?? eventCode} eventId={data?.event?.eventId} />
+                    </div>
+                  </div>
+                ) : null}
+
+                {!readOnly && data?.event?.eventId ? (
+                  <div className="mt-6">
+                    <div className="text-sm font-semibold mb-2">Report links</div>
+                    <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4">
+                      <ReportLinksPanel eventId={data.event.eventId} eventCode={data.eventCode} />
+                    </div>
+                  </div>
+                ) : null}
+
+                {/* per variant */}
+                {variants.length > 1 ? (
+                  <div className="mt-6">
+                    <div className="text-sm font-semibold mb-2">Downloads by format (all time)</div>
+
+                    <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4 space-y-3">
+                      {variants.map((v) => (
+                        <div key={v.variant}>
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-white/90">{v.label}</span>
+                            <span className="font-bold">{v.downloads}</span>
+                          </div>
+                          <div className="mt-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                            <div
+                              className="h-full rounded-full bg-[var(--viro-primary)]"
+                              style={{ width: `${Math.round((100 * (v.downloads || 0)) / maxVariant)}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
                 {/* chart */}
                 <div className="mt-6">
-                  <div className="text-sm font-semibold mb-2">Daily Downloads ({days} days)</div>
+                  <div className="text-sm font-semibold mb-2">
+                    {hourly ? "Hourly" : "Daily"} Downloads ({rangeLabel})
+                  </div>
 
                   <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-6">
                     <div className="h-40 flex items-end gap-1">
-                      {daily.map((d, i) => {
-                        const pct = maxDay > 0 ? Math.round((100 * (d.downloads || 0)) / maxDay) : 0;
-                        const isToday = i === daily.length - 1;
+                      {series.map((d, i) => {
+                        const pct = maxBucket > 0 ? Math.round((100 * (d.downloads || 0)) / maxBucket) : 0;
+                        const isLast = i === series.length - 1;
                         return (
                           <div
-                            key={d.day}
+                            key={d.bucket}
                             className="flex-1 flex flex-col items-center justify-end group relative"
                             style={{ height: "100%" }}
                           >
                             {/* Bar */}
                             <div
-                              className={`w-full max-w-[8px] rounded-t-sm transition-all duration-500 ${isToday ? 'bg-[var(--viro-primary)]' : 'bg-[var(--viro-primary)]/40 hover:bg-[var(--viro-primary)]/60'}`}
+                              className={`w-full max-w-[8px] rounded-t-sm transition-all duration-500 ${isLast ? 'bg-[var(--viro-primary)]' : 'bg-[var(--viro-primary)]/40 hover:bg-[var(--viro-primary)]/60'}`}
                               style={{ height: `${Math.max(pct, 4)}%` }}
                             ></div>
 
                             {/* Hover Tooltip */}
                             <div className="absolute bottom-full mb-2 opacity-0 group-hover:opacity-100 transition pointer-events-none z-10">
                               <div className="bg-black/80 backdrop-blur border border-white/10 text-xs px-2 py-1 rounded whitespace-nowrap">
-                                <span className="text-[var(--viro-muted)]">{d.day}:</span> <span className="font-bold">{d.downloads}</span>
+                                <span className="text-[var(--viro-muted)]">{bucketLabel(d.bucket)}:</span> <span className="font-bold">{d.downloads}</span>
                               </div>
                             </div>
                           </div>
@@ -243,18 +453,86 @@ export default function AnalyticsPage() {
 
                     {/* X-Axis Labels (show only some to avoid crowding) */}
                     <div className="mt-2 flex justify-between text-[10px] text-[var(--viro-muted)]">
-                      <div>{daily[0]?.day}</div>
-                      <div>{daily[Math.floor(daily.length / 2)]?.day}</div>
-                      <div>{daily[daily.length - 1]?.day}</div>
+                      {axisBuckets.map((b, i) => (
+                        <div key={i}>{b ? bucketLabel(b.bucket) : null}</div>
+                      ))}
                     </div>
 
-                    {daily.length === 0 ? (
+                    {(data?.rangeDownloads ?? 0) === 0 ? (
                       <div className="text-sm text-[var(--viro-muted)] text-center mt-3">
-                        No downloads recorded yet.
+                        No downloads in this range.
                       </div>
                     ) : null}
                   </div>
                 </div>
+
+                {/* funnel */}
+                <div className="mt-6">
+                  <div className="text-sm font-semibold mb-2">Attendee funnel ({rangeLabel})</div>
+
+                  {funnel && funnelStarted ? (
+                    <div className="space-y-3">
+                      <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4 space-y-3">
+                        {funnel.steps.map((s, i) => (
+                          <div key={s.step}>
+                            <div className="flex items-center justify-between text-xs">
+                              <span className="text-white/90">{s.label}</span>
+                              <span>
+                                <span className="font-bold">{s.sessions}</span>
+                                <span className="text-[var(--viro-muted)]">
+                                  {" "}· {percent(s.rate)}
+                                  {i > 0 ? ` · ${percent(s.stepRate)} of previous` : ""}
+                                </span>
+                              </span>
+                            </div>
+                            <div className="mt-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                              <div
+                                className="h-full rounded-full bg-[var(--viro-primary)]"
+                                style={{ width: `${Math.round(100 * s.rate)}%` }}
+                              />
+                            </div>
+                          </div>
+                        ))}
+
+                        {funnel.shareChannels.length > 0 ? (
+                          <div className="pt-1 text-[11px] text-[var(--viro-muted)]">
+                            Shares: {funnel.shareChannels.map((c) => `${c.label} ${c.shares}`).join(" · ")}
+                          </div>
+                        ) : null}
+                      </div>
+
+                      <FunnelTable title="Source" rows={funnel.sources} />
+                      <FunnelTable title="Device" rows={funnel.devices} />
+                    </div>
+                  ) : (
+                    <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4 text-sm text-[var(--viro-muted)]">
+                      No visits tracked in this period yet.
+                    </div>
+                  )}
+                </div>
+
+                {/* export */}
+                <div className="mt-6">
+                  <div className="text-sm font-semibold mb-2">Export ({rangeLabel})</div>
+                  <div className="rounded-xl border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] p-4 space-y-2">
+                    {EXPORTS.map((x) => (
+                      <div key={x.dataset} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="text-white/90">{x.label}</span>
+                        <span className="flex gap-2">
+                          {(["csv", "json"] as const).map((format) => (
+                            <a
+                              key={format}
+                              href={`/api/analytics-export?${rangeQuery}&dataset=${x.dataset}&format=${format}`}
+                              className="viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90"
+                            >
+                              {format.toUpperCase()}
+                            </a>
+                          ))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </>
             )}
           </div>
@@ -0,0 +1,136 @@
+// src/pages/api/analytics-export.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { sendAccessDenied } from "@/lib/supabase/access";
+import { toCsv } from "@/lib/csv";
+import { normalizeEventCode } from "@/lib/eventCode";
+import { parseAnalyticsRange, type AnalyticsRange } from "@/lib/analytics/range";
+import {
+  fetchDownloadSeries,
+  fetchFunnelCounts,
+  fetchRawDownloads,
+  fetchRawFunnelEvents,
+} from "@/lib/analytics/queries";
+import { requireAnalyticsAccess } from "@/lib/analytics/reportLinks";
+
+type Err = { ok: false; error: string; message?: string };
+
+type JsonExport = {
+  ok: true;
+  eventCode: string;
+  range: AnalyticsRange;
+  dataset: ExportDataset;
+  rows: Record<string, string | number | null>[];
+};
+
+const EXPORT_DATASETS = ["series", "funnel", "shares", "downloads", "funnel_events"] as const;
+type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+// CSV header per dataset, so an empty range still yields a usable file
+const EXPORT_COLUMNS: Record<ExportDataset, string[]> = {
+  series: ["bucket", "downloads"],
+  funnel: ["source", "device", "step", "sessions"],
+  shares: ["channel", "shares"],
+  downloads: ["createdAt", "localTime", "variant"],
+  funnel_events: ["createdAt", "localTime", "sessionId", "step", "channel", "source", "device"],
+};
+
+function isExportDataset(v: unknown): v is ExportDataset {
+  return typeof v === "string" && (EXPORT_DATASETS as readonly string[]).includes(v);
+}
+
+async function loadRows(
+  supabase: NonNullable<ReturnType<typeof supabaseAdmin>>,
+  dataset: ExportDataset,
+  eventCode: string,
+  range: AnalyticsRange
+): Promise<Record<string, string | number | null>[]> {
+  switch (dataset) {
+    case "series":
+      return fetchDownloadSeries(supabase, eventCode, range);
+    case "funnel":
+      return (await fetchFunnelCounts(supabase, eventCode, range)).counts;
+    case "shares":
+      return (await fetchFunnelCounts(supabase, eventCode, range)).channels;
+    case "downloads":
+      return fetchRawDownloads(supabase, eventCode, range);
+    case "funnel_events":
+      return fetchRawFunnelEvents(supabase, eventCode, range);
+  }
+}
+
+/**
+ * GET ?eventCode=VE-AB12C   (owner, or `report=<token>` from a report link)
+ *   from, to      days (YYYY-MM-DD, inclusive) in `tz`; or `days` for the last N days
+ *   tz            IANA time zone for the day/hour buckets (default UTC)
+ *   granularity   day | hour (series only; default hour for ranges up to 2 days)
+ *   dataset       series (default)   downloads per bucket
+ *                 funnel             sessions per source, device and step
+ *                 shares             shares per channel
+ *                 downloads          raw download rows
+ *                 funnel_events      raw funnel rows
+ *   format        csv (default) | json
+ *
+ * Downloadable analytics for sponsor reports. Raw rows carry the UTC timestamp
+ * and the local time in `tz`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<string | JsonExport | Err>) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventCode = normalizeEventCode(typeof req.query.eventCode === "string" ? req.query.eventCode : "");
+  if (!eventCode) {
+    return res.status(400).json({ ok: false, error: "Missing eventCode" });
+  }
+
+  const dataset = req.query.dataset ?? "series";
+  if (!isExportDataset(dataset)) {
+    return res.status(400).json({ ok: false, error: `dataset must be one of ${EXPORT_DATASETS.join(", ")}` });
+  }
+
+  const format = req.query.format ?? "csv";
+  if (format !== "csv" && format !== "json") {
+    return res.status(400).json({ ok: false, error: "format must be csv or json" });
+  }
+
+  const parsed = parseAnalyticsRange(req.query);
+  if (!parsed.ok) {
+    return res.status(400).json({ ok: false, error: parsed.message });
+  }
+  const range = parsed.range;
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" });
+  }
+
+  try {
+    const access = await requireAnalyticsAccess(req, res, eventCode);
+    if (!access.ok) return sendAccessDenied(res, access);
+
+    const rows = await loadRows(supabase, dataset, eventCode, range);
+
+    res.setHeader("Cache-Control", "no-store");
+    if (format === "json") {
+      return res.status(200).json({ ok: true, eventCode, range, dataset, rows });
+    }
+
+    const columns = EXPORT_COLUMNS[dataset];
+    const csv = toCsv([columns, ...rows.map((r) => columns.map((c) => r[c] ?? ""))]);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="analytics-${eventCode}-${dataset}-${range.from}_${range.to}.csv"`
+    );
+    return res.status(200).send(csv);
+  } catch (e) {
+    console.error("Unexpected error in analytics-export:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "Export failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  }
+}
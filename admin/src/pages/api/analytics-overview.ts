@@ -0,0 +1,67 @@
+// src/pages/api/analytics-overview.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireUser, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { parseAnalyticsRange, rangeDays } from "@/lib/analytics/range";
+import { fetchOwnerAnalytics } from "@/lib/analytics/queries";
+import { buildOverview, type OrganizerOverview, type OverviewEventRow } from "@/lib/analytics/overview";
+
+type Ok = { ok: true; overview: OrganizerOverview };
+type Err = { ok: false; error: string; message?: string };
+type Resp = Ok | Err;
+
+// Trends are daily, one point per day and event
+const MAX_OVERVIEW_DAYS = 120;
+
+/**
+ * GET (logged-in organizer)
+ *   from, to   days (YYYY-MM-DD, inclusive) in `tz`; or `days` for the last N days (default 30)
+ *   tz         IANA time zone for the daily trend (default UTC)
+ *
+ * Totals across all of the caller's events, per-event downloads with a daily trend,
+ * and funnel step counts for comparing events.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Resp>) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const parsed = parseAnalyticsRange(req.query);
+  if (!parsed.ok) {
+    return res.status(400).json({ ok: false, error: parsed.message });
+  }
+  const range = { ...parsed.range, granularity: "day" as const };
+  if (rangeDays(range.from, range.to) > MAX_OVERVIEW_DAYS) {
+    return res.status(400).json({ ok: false, error: `The overview is limited to ${MAX_OVERVIEW_DAYS} days` });
+  }
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" });
+  }
+
+  try {
+    const auth = await requireUser(req, res);
+    if (!auth.ok) return sendAccessDenied(res, auth);
+
+    const { data: events, error } = await supabase
+      .from("events")
+      .select("id,event_code,name,published")
+      .eq("owner_id", auth.user.id)
+      .returns<OverviewEventRow[]>();
+
+    if (error) throw new Error(error.message);
+
+    const data = await fetchOwnerAnalytics(supabase, auth.user.id, range);
+
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).json({ ok: true, overview: buildOverview(range, events ?? [], data) });
+  } catch (e) {
+    console.error("Unexpected error in analytics-overview:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "Overview failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  }
+}
@@ -1,14 +1,23 @@
 // admin/src/pages/api/analytics.ts
 import type { NextApiRequest, NextApiResponse } from "next";
 import { createClient } from "@supabase/supabase-js";
+import { sendAccessDenied } from "@/lib/supabase/access";
+import { normalizeEventCode } from "@/lib/eventCode";
+import { requireAnalyticsAccess } from "@/lib/analytics/reportLinks";
+import { templateVariants, upgradeTemplate } from "@/lib/template";
+import { summarizeFunnel, type FunnelSummary } from "@/lib/funnel";
+import { parseAnalyticsRange, type AnalyticsRange } from "@/lib/analytics/range";
+import { fetchDownloadSeries, fetchFunnelCounts, type SeriesRow } from "@/lib/analytics/queries";
 
 type Err = { ok: false; error: string; message?: string };
 
-type DailyRow = { day: string; downloads: number };
+type VariantRow = { variant: string; label: string; downloads: number };
 
 type Ok = {
   ok: true;
   eventCode: string;
+  /** "report" when opened through a read-only report link. */
+  access: "owner" | "report";
   event: {
     eventId: string | null;
     name: string | null;
@@ -17,7 +26,15 @@ type Ok = {
     createdAt: string | null;
   } | null;
   totalDownloads: number;
-  daily: DailyRow[];
+  range: AnalyticsRange;
+  /** Downloads in the range. */
+  rangeDownloads: number;
+  /** Downloads per local day or hour of the range, empty buckets included. */
+  series: SeriesRow[];
+  /** Downloads per template variant (all time); every current variant is listed. */
+  variants: VariantRow[];
+  /** Attendee funnel over the same range, with source and device splits. */
+  funnel: FunnelSummary;
 };
 
 type Resp = Ok | Err;
@@ -28,27 +45,33 @@ function getQueryString(q: unknown): string {
   return "";
 }
 
-function clampInt(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
-}
-
 function isRecord(x: unknown): x is Record<string, unknown> {
   return typeof x === "object" && x !== null;
 }
 
-function toDailyRow(x: unknown): DailyRow {
-  if (!isRecord(x)) return { day: "", downloads: 0 };
-
-  const dayVal = x.day;
-  const downloadsVal = x.downloads;
-
-  const day = typeof dayVal === "string" ? dayVal : String(dayVal ?? "");
-  const downloads =
-    typeof downloadsVal === "number"
-      ? downloadsVal
-      : Number(downloadsVal ?? 0);
+/**
+ * Joins per-variant counts with the event's variants, so unused layouts show 0
+ * and variants that were since removed keep their (id-labelled) counts.
+ */
+function toVariantRows(counts: unknown, template: unknown): VariantRow[] {
+  const byId = new Map<string, number>();
+  if (Array.isArray(counts)) {
+    for (const x of counts) {
+      if (!isRecord(x) || typeof x.variant !== "string") continue;
+      const n = Number(x.downloads ?? 0);
+      byId.set(x.variant, Number.isFinite(n) ? n : 0);
+    }
+  }
 
-  return { day, downloads: Number.isFinite(downloads) ? downloads : 0 };
+  const rows: VariantRow[] = templateVariants(upgradeTemplate(template)).map((v) => ({
+    variant: v.id,
+    label: v.label,
+    downloads: byId.get(v.id) ?? 0,
+  }));
+  for (const [variant, downloads] of byId) {
+    if (!rows.some((r) => r.variant === variant)) rows.push({ variant, label: variant, downloads });
+  }
+  return rows;
 }
 
 export default async function handler(
@@ -59,7 +82,7 @@ export default async function handler(
     return res.status(405).json({ ok: false, error: "method_not_allowed" });
   }
 
-  const eventCode = getQueryString(req.query.eventCode);
+  const eventCode = normalizeEventCode(getQueryString(req.query.eventCode));
   if (!eventCode) {
     return res.status(400).json({
       ok: false,
@@ -68,9 +91,16 @@ export default async function handler(
     });
   }
 
-  const daysStr = getQueryString(req.query.days);
-  const daysNum = /^\d+$/.test(daysStr) ? Number(daysStr) : 30;
-  const days = clampInt(daysNum, 7, 120);
+  // from/to/tz/granularity; the older `days` parameter still works
+  const parsed = parseAnalyticsRange(req.query);
+  if (!parsed.ok) {
+    return res.status(400).json({
+      ok: false,
+      error: "bad_request",
+      message: parsed.message,
+    });
+  }
+  const range = parsed.range;
 
   const supabaseUrl = process.env.SUPABASE_URL;
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -86,10 +116,14 @@ export default async function handler(
   const supabase = createClient(supabaseUrl, serviceKey);
 
   try {
+    // Owner session or a signed report link
+    const access = await requireAnalyticsAccess(req, res, eventCode);
+    if (!access.ok) return sendAccessDenied(res, access);
+
     // 1) Event details
     const { data: eventRow, error: evErr } = await supabase
       .from("events")
-      .select("id, name, description, published, created_at, event_code")
+      .select("id, name, description, published, created_at, event_code, template")
       .eq("event_code", eventCode)
       .maybeSingle();
 
@@ -115,30 +149,42 @@ export default async function handler(
       });
     }
 
-    // 3) Daily downloads via RPC
-    const { data: dailyRaw, error: rpcErr } = await supabase.rpc(
-      "vf_downloads_daily",
-      {
-        p_event_code: eventCode,
-        p_days: days,
-      }
+    // 3) Downloads per variant via RPC
+    const { data: variantRaw, error: variantErr } = await supabase.rpc(
+      "vf_downloads_by_variant",
+      { p_event_code: eventCode }
     );
 
-    if (rpcErr) {
+    if (variantErr) {
       return res.status(500).json({
         ok: false,
         error: "rpc_failed",
-        message: rpcErr.message,
+        message: variantErr.message,
       });
     }
 
-    const daily: DailyRow[] = Array.isArray(dailyRaw)
-      ? dailyRaw.map(toDailyRow)
-      : [];
+    // 4) Range series and funnel
+    let series: SeriesRow[];
+    let funnel: FunnelSummary;
+    try {
+      const [seriesRows, funnelCounts] = await Promise.all([
+        fetchDownloadSeries(supabase, eventCode, range),
+        fetchFunnelCounts(supabase, eventCode, range),
+      ]);
+      series = seriesRows;
+      funnel = summarizeFunnel(funnelCounts.counts, funnelCounts.channels);
+    } catch (e) {
+      return res.status(500).json({
+        ok: false,
+        error: "rpc_failed",
+        message: e instanceof Error ? e.message : "Unknown error",
+      });
+    }
 
     return res.status(200).json({
       ok: true,
       eventCode,
+      access: access.mode,
       event: eventRow
         ? {
             eventId: (eventRow as { id?: string }).id ?? null,
@@ -149,7 +195,11 @@ export default async function handler(
           }
         : null,
       totalDownloads: count ?? 0,
-      daily,
+      range,
+      rangeDownloads: series.reduce((acc, r) => acc + r.downloads, 0),
+      series,
+      variants: toVariantRows(variantRaw, (eventRow as { template?: unknown } | null)?.template),
+      funnel,
     });
   } catch (e) {
     return res.status(500).json({
@@ -0,0 +1,120 @@
+// src/pages/api/bulk-render.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Files } from "formidable";
+import { firstString, parseForm, removeUploads } from "@/lib/multipart";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { posterFilename } from "@/lib/poster/render";
+import { MAX_PHOTO_BYTES, readPosterForm } from "@/lib/poster/formInput";
+import { MAIN_VARIANT_ID, NAME_FIELD, resolveVariant } from "@/lib/template";
+import {
+  POSTER_CONTENT_TYPES,
+  downloadBackground,
+  downloadLayerAssets,
+  fetchEventById,
+  posterExtension,
+  readExportOptions,
+  renderPosterBuffer,
+} from "@/lib/poster/server";
+
+export const config = { api: { bodyParser: false } };
+
+type Err = { ok: false; error: string; message?: string };
+
+/**
+ * POST multipart/form-data — one roster row of a bulk (CSV) generation.
+ *   eventId            event to render (owner only; drafts and closed events allowed)
+ *   <field> / photo…   same inputs as /api/render-poster, plus `photoUrl[_<layerId>]`
+ *   variant            optional template variant id (default: the main layout)
+ *   format             "jpeg" | "png" | "pdf"; defaults to the event's `template.export.format`.
+ *                      "pdf" (print, with bleed/crop marks) only when the event enables it
+ *
+ * The admin bulk page calls this once per row so it can show progress and per-row
+ * errors, then zips the results in the browser. Not counted as attendee downloads.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Buffer | Err>) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" });
+  }
+
+  let uploads: Files | undefined;
+  try {
+    const { fields, files } = await parseForm(req, { maxFileSize: MAX_PHOTO_BYTES });
+    uploads = files;
+
+    const eventId = firstString(fields.eventId).trim();
+    const formatRaw = firstString(fields.format).toLowerCase();
+
+    if (!eventId) {
+      return res.status(400).json({ ok: false, error: "Missing eventId" });
+    }
+
+    const access = await requireEventOwner(req, res, eventId);
+    if (!access.ok) return sendAccessDenied(res, access);
+
+    const event = await fetchEventById(supabase, eventId);
+    if (!event) {
+      return res.status(404).json({ ok: false, error: "Event not found" });
+    }
+
+    const exportOptions = readExportOptions(event.template, formatRaw);
+    if (!exportOptions.ok) {
+      return res.status(400).json({ ok: false, error: exportOptions.error });
+    }
+    const { format } = exportOptions;
+
+    const form = await readPosterForm(event.template, fields, files, { allowPhotoUrls: true });
+    if (!form.ok) {
+      return res.status(400).json({ ok: false, error: form.error });
+    }
+
+    const variant = firstString(fields.variant).trim() || MAIN_VARIANT_ID;
+    const template = resolveVariant(event.template, variant);
+    if (!template) {
+      return res.status(400).json({ ok: false, error: "Unknown variant" });
+    }
+
+    const background = await downloadBackground(supabase, event.template);
+    if (!background) {
+      return res.status(409).json({ ok: false, error: "Event has no background" });
+    }
+
+    const image = await renderPosterBuffer({
+      template,
+      plan: event.plan,
+      background,
+      photos: form.input.photos,
+      texts: form.input.texts,
+      assets: await downloadLayerAssets(supabase, event.template),
+      format,
+      scale: exportOptions.scale,
+      pdf: exportOptions.pdf,
+    });
+
+    const filename = posterFilename(
+      form.input.texts[NAME_FIELD] ?? "",
+      event.eventCode,
+      posterExtension(format),
+      variant === MAIN_VARIANT_ID ? undefined : variant
+    );
+
+    res.setHeader("Content-Type", POSTER_CONTENT_TYPES[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).send(image);
+  } catch (e) {
+    console.error("Unexpected error in bulk-render:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "Render failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  } finally {
+    removeUploads(uploads);
+  }
+}
@@ -1,16 +1,11 @@
 // src/pages/api/create-event.ts
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseServer } from "@/lib/supabase/server";
+import { isUniqueViolation, makeEventCode } from "@/lib/eventCode";
+import { createDefaultTemplate, formatTemplateIssues, validateTemplate, type TemplateIssue } from "@/lib/template";
 
 type Ok = { ok: true; eventId: string; eventCode: string };
-type Err = { ok: false; error: string; message?: string };
-
-function makeCode(prefix = "VE") {
-  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
-  let out = "";
-  for (let i = 0; i < 5; i++) out += chars[Math.floor(Math.random() * chars.length)];
-  return `${prefix}-${out}`;
-}
+type Err = { ok: false; error: string; message?: string; issues?: TemplateIssue[] };
 
 export default async function handler(
   req: NextApiRequest,
@@ -33,7 +28,7 @@ export default async function handler(
     return res.status(401).json({ ok: false, error: "Unauthorized", message: "Please login" });
   }
 
-  const body = req.body as { name?: unknown; description?: unknown } | undefined;
+  const body = req.body as { name?: unknown; description?: unknown; template?: unknown } | undefined;
   const name = typeof body?.name === "string" ? body.name.trim() : "";
   const description = typeof body?.description === "string" ? body.description.trim() : "";
 
@@ -41,24 +36,23 @@ export default async function handler(
     return res.status(400).json({ ok: false, error: "BadRequest", message: "Event name is required" });
   }
 
-  const emptyTemplate = {
-    canvas: { width: 1080, height: 1080 },
-    photo: { x: 0.5, y: 0.4, size: 220, shape: "circle" },
-    text: {
-      x: 0.5,
-      y: 0.78,
-      w: 0.82,
-      h: 0.14,
-      content: "YOUR NAME",
-      font: "Poppins",
-      color: "#FFFFFF",
-      size: 48,
-    },
-    background: { url: "" },
-  };
+  // Optional starting template (e.g. duplicating an event); otherwise the default layout
+  let template = createDefaultTemplate();
+  if (body?.template !== undefined) {
+    const checked = validateTemplate(body.template);
+    if (!checked.ok) {
+      return res.status(400).json({
+        ok: false,
+        error: "BadRequest",
+        message: `Invalid template: ${formatTemplateIssues(checked.issues)}`,
+        issues: checked.issues,
+      });
+    }
+    template = checked.template;
+  }
 
   for (let attempt = 0; attempt < 5; attempt++) {
-    const eventCode = makeCode("VE");
+    const eventCode = makeEventCode("VE");
 
     const { data, error } = await supabase
       .from("events")
@@ -69,7 +63,7 @@ export default async function handler(
         status: "draft",
         published: false,
         event_code: eventCode,
-        template: emptyTemplate,
+        template,
       })
       .select("id,event_code")
       .single();
@@ -78,10 +72,7 @@ export default async function handler(
       return res.status(200).json({ ok: true, eventId: data.id, eventCode: data.event_code });
     }
 
-    const msg = (error?.message ?? "").toLowerCase();
-    const isDup = msg.includes("duplicate") || msg.includes("unique");
-
-    if (!isDup) {
+    if (!isUniqueViolation(error)) {
       return res.status(500).json({
         ok: false,
         error: "DatabaseError",
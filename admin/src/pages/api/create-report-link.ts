@@ -0,0 +1,73 @@
+// src/pages/api/create-report-link.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  REPORT_LINK_COLUMNS,
+  reportSecret,
+  toReportLink,
+  type ReportLink,
+  type ReportLinkRow,
+} from "@/lib/analytics/reportLinks";
+
+type Ok = { ok: true; link: ReportLink };
+type Err = { ok: false; error: string; message?: string };
+
+const MAX_LABEL = 80;
+const MAX_EXPIRY_DAYS = 365;
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+/**
+ * POST { eventId, label?, expiresInDays? }
+ * Creates a read-only analytics report link. Without `expiresInDays` (1–365) it stays
+ * valid until revoked.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventId = isNonEmptyString(req.body?.eventId) ? req.body.eventId.trim() : "";
+  if (!eventId) {
+    return res.status(400).json({ ok: false, error: "Missing eventId" });
+  }
+
+  const label = isNonEmptyString(req.body?.label) ? req.body.label.trim().slice(0, MAX_LABEL) : null;
+
+  const expiresInDays = req.body?.expiresInDays ?? null;
+  if (
+    expiresInDays !== null &&
+    (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)
+  ) {
+    return res.status(400).json({ ok: false, error: `expiresInDays must be 1–${MAX_EXPIRY_DAYS}` });
+  }
+
+  const access = await requireEventOwner(req, res, eventId);
+  if (!access.ok) return sendAccessDenied(res, access);
+
+  const supabase = supabaseAdmin();
+  const secret = reportSecret();
+  if (!supabase || !secret) {
+    return res.status(500).json({ ok: false, error: "Supabase env or ANALYTICS_REPORT_SECRET not set" });
+  }
+
+  const { data, error } = await supabase
+    .from("analytics_report_links")
+    .insert({
+      event_id: eventId,
+      created_by: access.user.id,
+      label,
+      expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null,
+    })
+    .select(REPORT_LINK_COLUMNS)
+    .single<ReportLinkRow>();
+
+  if (error || !data) {
+    return res.status(500).json({ ok: false, error: "Failed to create report link", message: error?.message });
+  }
+
+  return res.status(200).json({ ok: true, link: toReportLink(data, secret) });
+}
@@ -0,0 +1,94 @@
+// src/pages/api/detect-face.ts
+import fs from "fs";
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Files } from "formidable";
+import { getLocalPath, getSingleFile, parseForm, removeUploads } from "@/lib/multipart";
+import { MAX_PHOTO_BYTES } from "@/lib/poster/formInput";
+import { readFaceResult, type FaceBox } from "@/lib/faceDetection";
+
+export const config = { api: { bodyParser: false } };
+
+type Ok = { ok: true; found: boolean; face?: FaceBox };
+type Err = { ok: false; error: string; message?: string };
+
+const UPSTREAM_TIMEOUT_MS = 10_000;
+
+/**
+ * POST multipart/form-data
+ *   file   attendee photo
+ *
+ * Proxies to the face detection service (python_api) at FACE_DETECT_URL,
+ * e.g. http://localhost:8000/detect-face, so browsers never talk to it directly.
+ * Responds 503 NotConfigured when the env var is missing; clients then fall back.
+ *
+ * Response: { ok: true, found, face?: { x, y, w, h } } (normalized, x/y = face center)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const upstreamUrl = process.env.FACE_DETECT_URL;
+  if (!upstreamUrl) {
+    return res.status(503).json({ ok: false, error: "NotConfigured", message: "FACE_DETECT_URL is not set" });
+  }
+
+  let uploads: Files | undefined;
+  try {
+    const { files } = await parseForm(req, { maxFileSize: MAX_PHOTO_BYTES });
+    uploads = files;
+    const file = getSingleFile(files, "file");
+    const localPath = file ? getLocalPath(file) : "";
+
+    if (!file || !localPath) {
+      return res.status(400).json({ ok: false, error: "Missing file" });
+    }
+    const type = typeof file.mimetype === "string" ? file.mimetype : "";
+    if (!type.startsWith("image/")) {
+      return res.status(400).json({ ok: false, error: "File must be an image" });
+    }
+
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([new Uint8Array(fs.readFileSync(localPath))], { type }),
+      file.originalFilename || "photo"
+    );
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(upstreamUrl, {
+        method: "POST",
+        body: form,
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      });
+    } catch (e) {
+      return res.status(502).json({
+        ok: false,
+        error: "UpstreamError",
+        message: e instanceof Error ? e.message : "Face detection service unreachable",
+      });
+    }
+
+    if (!upstream.ok) {
+      return res.status(502).json({ ok: false, error: "UpstreamError", message: `Service returned ${upstream.status}` });
+    }
+
+    const data: unknown = await upstream.json().catch(() => null);
+    if (!data || (data as { ok?: unknown }).ok !== true) {
+      return res.status(502).json({ ok: false, error: "UpstreamError", message: "Unexpected response from service" });
+    }
+
+    const face = readFaceResult(data);
+    return res.status(200).json(face ? { ok: true, found: true, face } : { ok: true, found: false });
+  } catch (e) {
+    console.error("Unexpected error in detect-face:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "Detection failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  } finally {
+    removeUploads(uploads);
+  }
+}
@@ -1,20 +1,23 @@
 // src/pages/api/get-event-by-code.ts
 import type { NextApiRequest, NextApiResponse } from "next";
 import { createClient } from "@supabase/supabase-js";
-
-type Template = {
-  canvas?: { width?: number; height?: number };
-  photo?: { x?: number; y?: number; size?: number; shape?: "circle" | "square" };
-  text?: { x?: number; y?: number; w?: number; h?: number; size?: number; color?: string };
-  background?: { url?: string };
-};
-
-type EventRow = {
+import type { Template } from "@/types/template";
+import { layerAssetPaths, upgradeTemplate } from "@/lib/template";
+import { normalizeEventCode } from "@/lib/eventCode";
+import { effectiveWatermark, fetchOrganizerPlan } from "@/lib/plans";
+import {
+  EVENT_WINDOW_COLUMNS,
+  getEventAvailability,
+  type EventAvailability,
+  type EventWindowRow,
+} from "@/lib/eventAvailability";
+
+type EventRow = EventWindowRow & {
   id: string;
   event_code: string;
-  template: Template | null;
+  owner_id: string | null;
+  template: unknown;
   created_at: string | null;
-  published: boolean | null;
 };
 
 type Ok = {
@@ -25,15 +28,27 @@ type Ok = {
     event: {
       eventId: string;
       eventCode: string;
-      template: Template | null;
+      /** `watermark` is already resolved against the organizer's plan. */
+      template: Template;
       createdAt: string | null;
+      /** Set when the event has a closing time. */
+      closesAt: string | null;
       backgroundPath: string | null;
       backgroundSignedUrl: string | null;
+      /** Signed URLs for layer images (logos, photo frames, watermark logo), keyed by layer id. */
+      assetUrls: Record<string, string>;
     };
   };
 };
 
-type Err = { ok: false; error: string; message?: string; upstream?: unknown };
+type Err = {
+  ok: false;
+  error: string;
+  message?: string;
+  upstream?: unknown;
+  /** Present when the event exists but is not accepting attendees right now. */
+  availability?: EventAvailability;
+};
 type Resp = Ok | Err;
 
 function isNonEmptyString(v: unknown): v is string {
@@ -62,7 +77,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     }
 
     const eventCodeRaw = req.query.eventCode;
-    const eventCode = typeof eventCodeRaw === "string" ? eventCodeRaw.replace(/^=+/, "").trim() : "";
+    const eventCode = typeof eventCodeRaw === "string" ? normalizeEventCode(eventCodeRaw) : "";
     if (!isNonEmptyString(eventCode)) {
       return res.status(400).json({ ok: false, error: "Missing eventCode" });
     }
@@ -82,9 +97,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
 
     const { data, error } = await supabase
       .from("events")
-      .select("id,event_code,template,created_at,published")
+      .select(`id,event_code,owner_id,template,created_at,${EVENT_WINDOW_COLUMNS}`)
       .eq("event_code", eventCode)
-      .eq("published", true)
       .maybeSingle<EventRow>();
 
     if (error) {
@@ -96,10 +110,30 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       });
     }
 
-    if (!data) {
+    const availability = data ? getEventAvailability(data) : null;
+
+    if (!data || !availability || availability.state === "unavailable") {
       return res.status(404).json({ ok: false, error: "Event not found or not published" });
     }
 
+    if (availability.state === "scheduled") {
+      return res.status(403).json({
+        ok: false,
+        error: "NotYetOpen",
+        message: "This event is not open yet",
+        availability,
+      });
+    }
+
+    if (availability.state === "closed") {
+      return res.status(410).json({
+        ok: false,
+        error: "Closed",
+        message: "This event is closed",
+        availability,
+      });
+    }
+
     const backgroundPath = getBackgroundPathFromTemplate(data.template);
     console.log("Extracted background path:", backgroundPath);
 
@@ -119,6 +153,26 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       console.log("No background path found in template");
     }
 
+    // Attendees get the watermark the plan allows, never the raw setting
+    const stored = upgradeTemplate(data.template);
+    const plan = await fetchOrganizerPlan(supabase, data.owner_id);
+    const template: Template = { ...stored, watermark: effectiveWatermark(stored.watermark, plan) };
+
+    const assetUrls: Record<string, string> = {};
+    const assetPaths = layerAssetPaths(template);
+
+    if (assetPaths.length > 0) {
+      const { data: signedAssets, error: assetErr } = await supabase.storage
+        .from(bucket)
+        .createSignedUrls(assetPaths.map((l) => l.path), 60 * 60);
+
+      if (assetErr) console.error("Layer asset signed URL error:", assetErr);
+
+      signedAssets?.forEach((item, i) => {
+        if (item.signedUrl) assetUrls[assetPaths[i].id] = item.signedUrl;
+      });
+    }
+
     return res.status(200).json({
       ok: true,
       eventCode: String(data.event_code),
@@ -127,10 +181,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
         event: {
           eventId: String(data.id),
           eventCode: String(data.event_code),
-          template: data.template ?? null,
+          template,
           createdAt: data.created_at ?? null,
+          closesAt: availability.closesAt,
           backgroundPath,
           backgroundSignedUrl,
+          assetUrls,
         },
       },
     });
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { createClient } from "@supabase/supabase-js";
+import { MAIN_VARIANT_ID } from "@/lib/template";
 
 type Ok = { ok: true };
 type Err = { ok: false; error: string; message?: string };
@@ -9,6 +10,9 @@ function isNonEmptyString(v: unknown): v is string {
   return typeof v === "string" && v.trim().length > 0;
 }
 
+// Same shape as template variant ids
+const VARIANT_RE = /^[A-Za-z0-9_-]{1,40}$/;
+
 function isPlainObject(v: unknown): v is Record<string, unknown> {
   return !!v && typeof v === "object" && !Array.isArray(v);
 }
@@ -26,6 +30,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     return res.status(400).json({ ok: false, error: "Missing eventId or eventCode" });
   }
 
+  // Optional: which layout was downloaded; omitted by older clients
+  const variant = body.variant ?? MAIN_VARIANT_ID;
+  if (typeof variant !== "string" || !VARIANT_RE.test(variant)) {
+    return res.status(400).json({ ok: false, error: "Invalid variant" });
+  }
+
   const url = process.env.SUPABASE_URL;
   const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
   if (!url || !key) return res.status(500).json({ ok: false, error: "Missing Supabase env" });
@@ -35,6 +45,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
   const { error } = await supabase.from("event_downloads").insert({
     event_id: eventId,
     event_code: eventCode,
+    variant,
   });
 
   if (error) return res.status(500).json({ ok: false, error: "Insert failed", message: error.message });
@@ -0,0 +1,63 @@
+// src/pages/api/og-image.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { normalizeEventCode } from "@/lib/eventCode";
+import { EVENT_WINDOW_COLUMNS, getEventAvailability, type EventWindowRow } from "@/lib/eventAvailability";
+import { upgradeTemplate } from "@/lib/template";
+import { downloadBackground, renderLinkPreview } from "@/lib/poster/server";
+
+type Err = { ok: false; error: string; message?: string };
+
+/**
+ * GET ?eventCode=VE-AB12C
+ *
+ * Link preview image (og:image / twitter:image) for an open event: the event
+ * background cropped to 1200×628. A stable URL, unlike signed storage URLs, so
+ * crawlers can cache it.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Buffer | Err>) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventCode = normalizeEventCode(typeof req.query.eventCode === "string" ? req.query.eventCode : "");
+  if (!eventCode) {
+    return res.status(400).json({ ok: false, error: "Missing eventCode" });
+  }
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" });
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("events")
+      .select(`template,${EVENT_WINDOW_COLUMNS}`)
+      .eq("event_code", eventCode)
+      .maybeSingle<EventWindowRow & { template: unknown }>();
+
+    if (error) throw new Error(error.message);
+    if (!data || getEventAvailability(data).state !== "open") {
+      return res.status(404).json({ ok: false, error: "Event not found or not open" });
+    }
+
+    const background = await downloadBackground(supabase, upgradeTemplate(data.template));
+    if (!background) {
+      return res.status(404).json({ ok: false, error: "Event has no background" });
+    }
+
+    const image = await renderLinkPreview(background);
+
+    res.setHeader("Content-Type", "image/jpeg");
+    res.setHeader("Cache-Control", "public, max-age=3600, s-maxage=86400");
+    return res.status(200).send(image);
+  } catch (e) {
+    console.error("Unexpected error in og-image:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "Preview failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  }
+}
@@ -1,6 +1,15 @@
 // src/pages/api/publish-event.ts
 import type { NextApiRequest, NextApiResponse } from "next";
-import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@supabase/supabase-js";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { parseOptionalTimestamp } from "@/lib/eventAvailability";
+import {
+  generateUniqueEventCode,
+  isEventCodeTaken,
+  isUniqueViolation,
+  normalizeEventCode,
+  vanityCodeError,
+} from "@/lib/eventCode";
 
 /** JSON type (Supabase-style) */
 export type Json =
@@ -23,6 +32,10 @@ export interface Database {
           template: Json | null; // ✅ no any
           name: string | null;
           description: string | null;
+          status: string | null;
+          publish_at: string | null;
+          expires_at: string | null;
+          archived_at: string | null;
         };
         Insert: {
           id?: string;
@@ -32,6 +45,10 @@ export interface Database {
           template?: Json | null; // ✅ no any
           name?: string | null;
           description?: string | null;
+          status?: string | null;
+          publish_at?: string | null;
+          expires_at?: string | null;
+          archived_at?: string | null;
         };
         Update: {
           id?: never;
@@ -41,6 +58,10 @@ export interface Database {
           template?: Json | null; // ✅ no any
           name?: string | null;
           description?: string | null;
+          status?: string | null;
+          publish_at?: string | null;
+          expires_at?: string | null;
+          archived_at?: string | null;
         };
         Relationships: [];
       };
@@ -51,36 +72,19 @@ export interface Database {
   };
 }
 
-type TypedSupabaseClient = SupabaseClient<Database>;
-
-type Ok = { ok: true; eventId: string; eventCode: string };
+type Ok = {
+  ok: true;
+  eventId: string;
+  eventCode: string;
+  publishAt: string | null;
+  expiresAt: string | null;
+};
 type Err = { ok: false; error: string; message?: string };
 
 function isNonEmptyString(v: unknown): v is string {
   return typeof v === "string" && v.trim().length > 0;
 }
 
-function generateEventCode(): string {
-  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
-  let code = "VF-";
-  for (let i = 0; i < 5; i++) code += chars[Math.floor(Math.random() * chars.length)];
-  return code;
-}
-
-async function generateUniqueEventCode(supabase: TypedSupabaseClient): Promise<string> {
-  for (let attempts = 0; attempts < 10; attempts++) {
-    const code = generateEventCode();
-    const { data } = await supabase
-      .from("events")
-      .select("id")
-      .eq("event_code", code)
-      .maybeSingle();
-
-    if (!data) return code;
-  }
-  throw new Error("Failed to generate unique event code after 10 attempts");
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<Ok | Err>
@@ -94,6 +98,25 @@ export default async function handler(
     return res.status(400).json({ ok: false, error: "Missing eventId" });
   }
 
+  // Optional publishing window (ISO timestamps; null clears)
+  const publishAt = parseOptionalTimestamp(req.body?.publishAt);
+  const expiresAt = parseOptionalTimestamp(req.body?.expiresAt);
+  if (!publishAt.ok || !expiresAt.ok) {
+    return res.status(400).json({ ok: false, error: "publishAt / expiresAt must be ISO dates" });
+  }
+
+  // Optional vanity code (e.g. LIONS2026); otherwise the current code is kept
+  const requestedCode = isNonEmptyString(req.body?.eventCode) ? normalizeEventCode(req.body.eventCode) : "";
+  if (requestedCode) {
+    const codeErr = vanityCodeError(requestedCode);
+    if (codeErr) {
+      return res.status(400).json({ ok: false, error: "Invalid eventCode", message: codeErr });
+    }
+  }
+
+  const access = await requireEventOwner(req, res, eventId);
+  if (!access.ok) return sendAccessDenied(res, access);
+
   const url = process.env.SUPABASE_URL;
   const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
@@ -106,9 +129,31 @@ export default async function handler(
 
   const supabase = createClient<Database>(url, key);
 
-  let eventCode: string;
+  // A partial update is checked against the stored side of the window (the DB rejects an inverted one)
+  const { data: stored, error: storedErr } = await supabase
+    .from("events")
+    .select("publish_at,expires_at")
+    .eq("id", eventId)
+    .single();
+
+  if (storedErr) {
+    return res.status(500).json({ ok: false, error: "Failed to load event", message: storedErr.message });
+  }
+
+  const opens = publishAt.value !== undefined ? publishAt.value : stored.publish_at;
+  const closes = expiresAt.value !== undefined ? expiresAt.value : stored.expires_at;
+  if (opens && closes && Date.parse(closes) <= Date.parse(opens)) {
+    return res.status(400).json({ ok: false, error: "expiresAt must be after publishAt" });
+  }
+
+  // Publishing is idempotent: links and QR codes already shared keep working
+  const currentCode = access.event.event_code ?? "";
+  let eventCode = requestedCode || currentCode;
   try {
-    eventCode = await generateUniqueEventCode(supabase);
+    if (requestedCode && requestedCode !== currentCode && (await isEventCodeTaken(supabase, requestedCode, eventId))) {
+      return res.status(409).json({ ok: false, error: "CodeTaken", message: `${requestedCode} is already in use` });
+    }
+    if (!eventCode) eventCode = await generateUniqueEventCode(supabase);
   } catch (e: unknown) {
     return res.status(500).json({
       ok: false,
@@ -118,13 +163,23 @@ export default async function handler(
   }
 
   // ✅ remove `as any` — now types will match
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from("events")
     .update({
       event_code: eventCode,
       published: true,
+      status: "published",
+      archived_at: null,
+      ...(publishAt.value !== undefined ? { publish_at: publishAt.value } : {}),
+      ...(expiresAt.value !== undefined ? { expires_at: expiresAt.value } : {}),
     })
-    .eq("id", eventId);
+    .eq("id", eventId)
+    .select("publish_at,expires_at")
+    .single();
+
+  if (isUniqueViolation(error)) {
+    return res.status(409).json({ ok: false, error: "CodeTaken", message: `${eventCode} is already in use` });
+  }
 
   if (error) {
     return res.status(500).json({
@@ -134,5 +189,11 @@ export default async function handler(
     });
   }
 
-  return res.status(200).json({ ok: true, eventId, eventCode });
+  return res.status(200).json({
+    ok: true,
+    eventId,
+    eventCode,
+    publishAt: data.publish_at,
+    expiresAt: data.expires_at,
+  });
 }
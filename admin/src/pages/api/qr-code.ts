@@ -0,0 +1,91 @@
+// src/pages/api/qr-code.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { normalizeEventCode } from "@/lib/eventCode";
+import { eventPageUrl, readUtmTags, trustedOrigin } from "@/lib/share";
+import { qrCodePng, qrCodeSvg } from "@/lib/shareKit";
+
+type Err = { ok: false; error: string; message?: string };
+
+const DEFAULT_PX = 1024;
+const MIN_PX = 128;
+const MAX_PX = 4096;
+
+/**
+ * GET ?eventCode=VE-AB12C
+ *   format     png (default) | svg
+ *   size       PNG width in px, 128–4096 (default 1024)
+ *   source     optional utm_source, e.g. "banner"; utm_medium then defaults to "qr"
+ *   medium     optional utm_medium
+ *   campaign   optional utm_campaign
+ *   download   1 to answer as an attachment
+ *
+ * QR code for the event's attendee page. Only published events get one.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Buffer | string | Err>) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventCode = normalizeEventCode(typeof req.query.eventCode === "string" ? req.query.eventCode : "");
+  if (!eventCode) {
+    return res.status(400).json({ ok: false, error: "Missing eventCode" });
+  }
+
+  const format = typeof req.query.format === "string" ? req.query.format.toLowerCase() : "png";
+  if (format !== "png" && format !== "svg") {
+    return res.status(400).json({ ok: false, error: "format must be png or svg" });
+  }
+
+  const sizeRaw = Number(req.query.size ?? DEFAULT_PX);
+  const size = Number.isFinite(sizeRaw) ? Math.round(Math.min(MAX_PX, Math.max(MIN_PX, sizeRaw))) : DEFAULT_PX;
+
+  const origin = trustedOrigin(req.headers);
+  if (!origin) {
+    return res.status(500).json({ ok: false, error: "Missing NEXT_PUBLIC_APP_URL" });
+  }
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" });
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("events")
+      .select("event_code")
+      .eq("event_code", eventCode)
+      .eq("published", true)
+      .maybeSingle<{ event_code: string }>();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      return res.status(404).json({ ok: false, error: "Event not found or not published" });
+    }
+
+    const utm = readUtmTags(req.query);
+    if (utm.source && !utm.medium) utm.medium = "qr";
+    const url = eventPageUrl(origin, data.event_code, utm);
+
+    if (req.query.download === "1") {
+      const suffix = utm.source ? `-${utm.source}` : "";
+      res.setHeader("Content-Disposition", `attachment; filename="qr-${data.event_code}${suffix}.${format}"`);
+    }
+    res.setHeader("Cache-Control", "public, max-age=3600");
+
+    if (format === "svg") {
+      res.setHeader("Content-Type", "image/svg+xml");
+      return res.status(200).send(await qrCodeSvg(url));
+    }
+
+    res.setHeader("Content-Type", "image/png");
+    return res.status(200).send(await qrCodePng(url, size));
+  } catch (e) {
+    console.error("Unexpected error in qr-code:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "QR code failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  }
+}
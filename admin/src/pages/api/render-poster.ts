@@ -0,0 +1,133 @@
+// src/pages/api/render-poster.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Files } from "formidable";
+import { firstString, parseForm, removeUploads } from "@/lib/multipart";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { normalizeEventCode } from "@/lib/eventCode";
+import { posterFilename } from "@/lib/poster/render";
+import { MAX_PHOTO_BYTES, readPosterForm } from "@/lib/poster/formInput";
+import { MAIN_VARIANT_ID, NAME_FIELD, resolveVariant } from "@/lib/template";
+import {
+  POSTER_CONTENT_TYPES,
+  downloadBackground,
+  downloadLayerAssets,
+  fetchPublishedEvent,
+  posterExtension,
+  readExportOptions,
+  renderPosterBuffer,
+  tryAcquireRenderSlot,
+} from "@/lib/poster/server";
+
+export const config = { api: { bodyParser: false } };
+
+type Err = { ok: false; error: string; message?: string };
+
+/**
+ * POST multipart/form-data
+ *   eventCode          published event code
+ *   name               attendee name (plus one field per extra text layer, e.g. `role`)
+ *   photo              image file for the first photo slot
+ *   photo_<layerId>    image file for any other photo slot
+ *   focusX/Y           optional 0..1 focus point inside `photo` (e.g. face center);
+ *                      `focusX_<layerId>` / `focusY_<layerId>` for other slots
+ *   zoom / rotate      optional crop: zoom 1..5 and degrees; focusX/Y is then the
+ *                      image point at the slot center (`_<layerId>` suffix for other slots)
+ *   variant            optional template variant id (default: the main layout)
+ *   format             "jpeg" | "png" | "pdf"; defaults to the event's `template.export.format`.
+ *                      "pdf" (print, with bleed/crop marks) only when the event enables it
+ *
+ * Responds with the rendered poster image, same as the attendee page download. Public,
+ * so it is not counted as a download (the page logs that) and answers 503 while every
+ * render slot is busy.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Buffer | Err>) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" });
+  }
+
+  const release = tryAcquireRenderSlot();
+  if (!release) {
+    res.setHeader("Retry-After", "5");
+    return res.status(503).json({ ok: false, error: "Busy", message: "Too many posters are being rendered, try again shortly" });
+  }
+
+  let uploads: Files | undefined;
+  try {
+    const { fields, files } = await parseForm(req, { maxFileSize: MAX_PHOTO_BYTES });
+    uploads = files;
+
+    const eventCode = normalizeEventCode(firstString(fields.eventCode));
+    const formatRaw = firstString(fields.format).toLowerCase();
+
+    if (!eventCode) {
+      return res.status(400).json({ ok: false, error: "Missing eventCode" });
+    }
+
+    const event = await fetchPublishedEvent(supabase, eventCode);
+    if (!event) {
+      return res.status(404).json({ ok: false, error: "Event not found or not open" });
+    }
+
+    const exportOptions = readExportOptions(event.template, formatRaw);
+    if (!exportOptions.ok) {
+      return res.status(400).json({ ok: false, error: exportOptions.error });
+    }
+    const { format } = exportOptions;
+
+    const form = await readPosterForm(event.template, fields, files);
+    if (!form.ok) {
+      return res.status(400).json({ ok: false, error: form.error });
+    }
+    const { texts, photos } = form.input;
+
+    const variant = firstString(fields.variant).trim() || MAIN_VARIANT_ID;
+    const template = resolveVariant(event.template, variant);
+    if (!template) {
+      return res.status(400).json({ ok: false, error: "Unknown variant" });
+    }
+
+    const background = await downloadBackground(supabase, event.template);
+    if (!background) {
+      return res.status(409).json({ ok: false, error: "Event has no background" });
+    }
+
+    const image = await renderPosterBuffer({
+      template,
+      plan: event.plan,
+      background,
+      photos,
+      texts,
+      assets: await downloadLayerAssets(supabase, event.template),
+      format,
+      scale: exportOptions.scale,
+      pdf: exportOptions.pdf,
+    });
+
+    const filename = posterFilename(
+      texts[NAME_FIELD] ?? "",
+      event.eventCode,
+      posterExtension(format),
+      variant === MAIN_VARIANT_ID ? undefined : variant
+    );
+
+    res.setHeader("Content-Type", POSTER_CONTENT_TYPES[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).send(image);
+  } catch (e) {
+    console.error("Unexpected error in render-poster:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "Render failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  } finally {
+    removeUploads(uploads);
+    release();
+  }
+}
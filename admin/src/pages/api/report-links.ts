@@ -0,0 +1,58 @@
+// src/pages/api/report-links.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  REPORT_LINK_COLUMNS,
+  reportSecret,
+  toReportLink,
+  type ReportLink,
+  type ReportLinkRow,
+} from "@/lib/analytics/reportLinks";
+
+type Ok = { ok: true; links: ReportLink[] };
+type Err = { ok: false; error: string; message?: string };
+
+function getQueryString(q: unknown): string {
+  if (typeof q === "string") return q.trim();
+  if (Array.isArray(q)) return String(q[0] ?? "").trim();
+  return "";
+}
+
+/**
+ * GET ?eventId=<uuid>
+ * Lists the event's analytics report links, newest first (revoked ones included).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventId = getQueryString(req.query.eventId);
+  if (!eventId) {
+    return res.status(400).json({ ok: false, error: "Missing eventId" });
+  }
+
+  const access = await requireEventOwner(req, res, eventId);
+  if (!access.ok) return sendAccessDenied(res, access);
+
+  const supabase = supabaseAdmin();
+  const secret = reportSecret();
+  if (!supabase || !secret) {
+    return res.status(500).json({ ok: false, error: "Supabase env or ANALYTICS_REPORT_SECRET not set" });
+  }
+
+  const { data, error } = await supabase
+    .from("analytics_report_links")
+    .select(REPORT_LINK_COLUMNS)
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false })
+    .returns<ReportLinkRow[]>();
+
+  if (error) {
+    return res.status(500).json({ ok: false, error: "Failed to load report links", message: error.message });
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(200).json({ ok: true, links: (data ?? []).map((r) => toReportLink(r, secret)) });
+}
@@ -0,0 +1,77 @@
+// src/pages/api/restore-template.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Template } from "@/types/template";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { upgradeTemplate } from "@/lib/template";
+import { fetchRevision, recordRevision } from "@/lib/templateHistory";
+import { isUuid } from "@/lib/uuid";
+
+type Ok = { ok: true; template: Template; revisionId: string | null };
+type Err = { ok: false; error: string; message?: string };
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+/**
+ * POST { eventId, revisionId }
+ * Copies a revision back onto the event and records the restore as a new revision.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventId = isNonEmptyString(req.body?.eventId) ? req.body.eventId.trim() : "";
+  const revisionId = isNonEmptyString(req.body?.revisionId) ? req.body.revisionId.trim() : "";
+
+  if (!eventId || !revisionId) {
+    return res.status(400).json({ ok: false, error: "Missing eventId or revisionId" });
+  }
+  if (!isUuid(eventId) || !isUuid(revisionId)) {
+    return res.status(400).json({ ok: false, error: "Invalid eventId or revisionId" });
+  }
+
+  const access = await requireEventOwner(req, res, eventId);
+  if (!access.ok) return sendAccessDenied(res, access);
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Supabase env not set" });
+  }
+
+  try {
+    const revision = await fetchRevision(supabase, eventId, revisionId);
+    if (!revision) {
+      return res.status(404).json({ ok: false, error: "Revision not found" });
+    }
+
+    const template = upgradeTemplate(revision.template);
+
+    const { error } = await supabase.from("events").update({ template }).eq("id", eventId);
+    if (error) {
+      return res.status(500).json({ ok: false, error: "Failed to restore template", message: error.message });
+    }
+
+    let newRevisionId: string | null = null;
+    try {
+      newRevisionId = await recordRevision(supabase, {
+        eventId,
+        author: access.user,
+        template,
+        note: `Restored from ${revision.created_at}`,
+      });
+    } catch (e) {
+      console.error("restore-template: revision log failed:", e);
+    }
+
+    return res.status(200).json({ ok: true, template, revisionId: newRevisionId });
+  } catch (e) {
+    return res.status(500).json({
+      ok: false,
+      error: "Failed to restore template",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  }
+}
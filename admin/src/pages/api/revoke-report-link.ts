@@ -0,0 +1,64 @@
+// src/pages/api/revoke-report-link.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireUser, sendAccessDenied } from "@/lib/supabase/access";
+import { isReportLinkId } from "@/lib/analytics/reportLinks";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+
+type Ok = { ok: true; linkId: string };
+type Err = { ok: false; error: string; message?: string };
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+/**
+ * POST { linkId }
+ * Revokes an analytics report link; anyone opening it afterwards gets 403.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const linkId = isNonEmptyString(req.body?.linkId) ? req.body.linkId.trim().toLowerCase() : "";
+  if (!linkId) {
+    return res.status(400).json({ ok: false, error: "Missing linkId" });
+  }
+  if (!isReportLinkId(linkId)) {
+    return res.status(400).json({ ok: false, error: "Invalid linkId" });
+  }
+
+  const auth = await requireUser(req, res);
+  if (!auth.ok) return sendAccessDenied(res, auth);
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Supabase env not set" });
+  }
+
+  const { data: link, error: linkErr } = await supabase
+    .from("analytics_report_links")
+    .select("id,events!inner(owner_id)")
+    .eq("id", linkId)
+    .maybeSingle<{ id: string; events: { owner_id: string } }>();
+
+  if (linkErr) {
+    return res.status(500).json({ ok: false, error: "Failed to load report link", message: linkErr.message });
+  }
+  // Someone else's link answers like a missing one, so ids cannot be probed
+  if (!link || link.events.owner_id !== auth.user.id) {
+    return res.status(404).json({ ok: false, error: "Report link not found" });
+  }
+
+  const { error } = await supabase
+    .from("analytics_report_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", linkId)
+    .is("revoked_at", null);
+
+  if (error) {
+    return res.status(500).json({ ok: false, error: "Failed to revoke report link", message: error.message });
+  }
+
+  return res.status(200).json({ ok: true, linkId });
+}
@@ -0,0 +1,74 @@
+// src/pages/api/segment-photo.ts
+import fs from "fs";
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Files } from "formidable";
+import { getLocalPath, getSingleFile, parseForm, removeUploads } from "@/lib/multipart";
+import { MAX_PHOTO_BYTES } from "@/lib/poster/formInput";
+import { SegmentationNotConfigured, requestCutout } from "@/lib/poster/segment";
+
+export const config = { api: { bodyParser: false } };
+
+type Err = { ok: false; error: string; message?: string };
+
+/**
+ * POST multipart/form-data
+ *   file   attendee photo
+ *
+ * Removes the photo background through the segmentation service (python_api) at
+ * SEGMENT_URL, e.g. http://localhost:8000/segment, for cutout photo slots.
+ * Responds 503 NotConfigured when the env var is missing; clients then fall back to a circle.
+ *
+ * Response: image/png of the same size with a transparent background
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Buffer | Err>) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  if (!process.env.SEGMENT_URL) {
+    return res.status(503).json({ ok: false, error: "NotConfigured", message: "SEGMENT_URL is not set" });
+  }
+
+  let uploads: Files | undefined;
+  try {
+    const { files } = await parseForm(req, { maxFileSize: MAX_PHOTO_BYTES });
+    uploads = files;
+    const file = getSingleFile(files, "file");
+    const localPath = file ? getLocalPath(file) : "";
+
+    if (!file || !localPath) {
+      return res.status(400).json({ ok: false, error: "Missing file" });
+    }
+    const type = typeof file.mimetype === "string" ? file.mimetype : "";
+    if (!type.startsWith("image/")) {
+      return res.status(400).json({ ok: false, error: "File must be an image" });
+    }
+
+    let png: Buffer;
+    try {
+      png = await requestCutout(fs.readFileSync(localPath), type);
+    } catch (e) {
+      if (e instanceof SegmentationNotConfigured) {
+        return res.status(503).json({ ok: false, error: "NotConfigured", message: e.message });
+      }
+      return res.status(502).json({
+        ok: false,
+        error: "UpstreamError",
+        message: e instanceof Error ? e.message : "Segmentation service unreachable",
+      });
+    }
+
+    res.setHeader("Content-Type", "image/png");
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).send(png);
+  } catch (e) {
+    console.error("Unexpected error in segment-photo:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "Segmentation failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  } finally {
+    removeUploads(uploads);
+  }
+}
@@ -0,0 +1,111 @@
+// src/pages/api/share-kit.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { posterSize } from "@/lib/poster/render";
+import { textLayers } from "@/lib/template";
+import { eventPageUrl, readUtmTags, trustedOrigin } from "@/lib/share";
+import { renderShareKitPdf } from "@/lib/shareKit";
+import {
+  downloadBackground,
+  downloadLayerAssets,
+  fetchEventById,
+  registerPosterFonts,
+  renderPosterBuffer,
+} from "@/lib/poster/server";
+
+type Err = { ok: false; error: string; message?: string };
+
+// The example poster only needs to look sharp at roughly 300 pt wide
+const SAMPLE_MAX_SIDE = 1200;
+
+/**
+ * GET ?eventId=<uuid>   (owner only)
+ *   source / medium / campaign   optional UTM tags for the QR link (medium defaults to "qr")
+ *
+ * Printable A4 share kit: event name, QR code to the attendee page and an example
+ * poster filled with the template's placeholder texts. The event must be published.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Buffer | Err>) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventId = typeof req.query.eventId === "string" ? req.query.eventId.trim() : "";
+  if (!eventId) {
+    return res.status(400).json({ ok: false, error: "Missing eventId" });
+  }
+
+  const origin = trustedOrigin(req.headers);
+  if (!origin) {
+    return res.status(500).json({ ok: false, error: "Missing NEXT_PUBLIC_APP_URL" });
+  }
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" });
+  }
+
+  try {
+    const access = await requireEventOwner(req, res, eventId);
+    if (!access.ok) return sendAccessDenied(res, access);
+
+    const event = await fetchEventById(supabase, eventId);
+    if (!event) {
+      return res.status(404).json({ ok: false, error: "Event not found" });
+    }
+    // Same rule as the QR code: only published events are shared
+    if (!access.event.published || !event.eventCode) {
+      return res.status(409).json({ ok: false, error: "Publish the event to get a share kit" });
+    }
+
+    const { data: details } = await supabase
+      .from("events")
+      .select("name,description")
+      .eq("id", eventId)
+      .maybeSingle<{ name: string | null; description: string | null }>();
+
+    const utm = readUtmTags(req.query);
+    if (utm.source && !utm.medium) utm.medium = "qr";
+    const url = eventPageUrl(origin, event.eventCode, utm);
+
+    registerPosterFonts();
+
+    let samplePoster: Buffer | null = null;
+    const background = await downloadBackground(supabase, event.template);
+    if (background) {
+      const size = posterSize(event.template);
+      const texts: Record<string, string> = {};
+      for (const l of textLayers(event.template)) texts[l.field] ??= l.content || l.label || l.field;
+
+      samplePoster = await renderPosterBuffer({
+        template: event.template,
+        plan: event.plan,
+        background,
+        photos: {},
+        texts,
+        assets: await downloadLayerAssets(supabase, event.template),
+        scale: Math.min(1, SAMPLE_MAX_SIDE / Math.max(size.width, size.height)),
+      });
+    }
+
+    const pdf = await renderShareKitPdf({
+      eventName: details?.name?.trim() || event.eventCode,
+      description: details?.description,
+      url,
+      samplePoster,
+    });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="share-kit-${event.eventCode}.pdf"`);
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).send(pdf);
+  } catch (e) {
+    console.error("Unexpected error in share-kit:", e);
+    return res.status(500).json({
+      ok: false,
+      error: "Share kit failed",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  }
+}
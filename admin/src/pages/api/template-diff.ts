@@ -0,0 +1,81 @@
+// src/pages/api/template-diff.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { upgradeTemplate } from "@/lib/template";
+import { diffTemplates, fetchRevision, type TemplateChange } from "@/lib/templateHistory";
+import { isUuid } from "@/lib/uuid";
+
+type Ok = { ok: true; from: string; to: string; changes: TemplateChange[] };
+type Err = { ok: false; error: string; message?: string };
+
+function getQueryString(q: unknown): string {
+  if (typeof q === "string") return q.trim();
+  if (Array.isArray(q)) return String(q[0] ?? "").trim();
+  return "";
+}
+
+/**
+ * GET ?eventId=<uuid>&from=<revisionId>&to=<revisionId|current>
+ * Field-level changes between two revisions; `to` defaults to the event's current template.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventId = getQueryString(req.query.eventId);
+  const from = getQueryString(req.query.from);
+  const to = getQueryString(req.query.to) || "current";
+
+  if (!eventId || !from) {
+    return res.status(400).json({ ok: false, error: "Missing eventId or from" });
+  }
+  if (!isUuid(eventId) || !isUuid(from) || !(to === "current" || isUuid(to))) {
+    return res.status(400).json({ ok: false, error: "Invalid eventId, from or to" });
+  }
+
+  const access = await requireEventOwner(req, res, eventId);
+  if (!access.ok) return sendAccessDenied(res, access);
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Supabase env not set" });
+  }
+
+  const loadTemplate = async (ref: string): Promise<unknown> => {
+    if (ref === "current") {
+      const { data, error } = await supabase
+        .from("events")
+        .select("template")
+        .eq("id", eventId)
+        .single<{ template: unknown }>();
+      if (error) throw new Error(error.message);
+      return data.template;
+    }
+
+    const row = await fetchRevision(supabase, eventId, ref);
+    return row ? row.template : undefined;
+  };
+
+  try {
+    const [before, after] = await Promise.all([loadTemplate(from), loadTemplate(to)]);
+
+    if (before === undefined || after === undefined) {
+      return res.status(404).json({ ok: false, error: "Revision not found" });
+    }
+
+    return res.status(200).json({
+      ok: true,
+      from,
+      to,
+      changes: diffTemplates(upgradeTemplate(before), upgradeTemplate(after)),
+    });
+  } catch (e) {
+    return res.status(500).json({
+      ok: false,
+      error: "Failed to diff revisions",
+      message: e instanceof Error ? e.message : "Unknown error",
+    });
+  }
+}
@@ -0,0 +1,59 @@
+// src/pages/api/template-revisions.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  REVISION_COLUMNS,
+  toRevisionSummary,
+  type RevisionRow,
+  type TemplateRevisionSummary,
+} from "@/lib/templateHistory";
+
+type Ok = { ok: true; revisions: TemplateRevisionSummary[] };
+type Err = { ok: false; error: string; message?: string };
+
+const MAX_REVISIONS = 50;
+
+function getQueryString(q: unknown): string {
+  if (typeof q === "string") return q.trim();
+  if (Array.isArray(q)) return String(q[0] ?? "").trim();
+  return "";
+}
+
+/**
+ * GET ?eventId=<uuid>
+ * Lists the event's template revisions, newest first (template bodies omitted).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventId = getQueryString(req.query.eventId);
+  if (!eventId) {
+    return res.status(400).json({ ok: false, error: "Missing eventId" });
+  }
+
+  const access = await requireEventOwner(req, res, eventId);
+  if (!access.ok) return sendAccessDenied(res, access);
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Supabase env not set" });
+  }
+
+  const { data, error } = await supabase
+    .from("template_revisions")
+    .select(REVISION_COLUMNS)
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_REVISIONS)
+    .returns<RevisionRow[]>();
+
+  if (error) {
+    return res.status(500).json({ ok: false, error: "Failed to load revisions", message: error.message });
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(200).json({ ok: true, revisions: (data ?? []).map(toRevisionSummary) });
+}
@@ -0,0 +1,90 @@
+// src/pages/api/track-event.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { cleanSource, deviceType, isFunnelStep, isShareChannel } from "@/lib/funnel";
+import { isUuid } from "@/lib/uuid";
+
+type Ok = { ok: true };
+type Err = { ok: false; error: string; message?: string };
+type Resp = Ok | Err;
+
+const SESSION_RE = /^[A-Za-z0-9-]{8,64}$/;
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+/**
+ * POST JSON (also accepted as a sendBeacon body)
+ *   eventId, eventCode   event the attendee page is showing
+ *   sessionId            random id kept per browser session
+ *   step                 page_view | photo_chosen | poster_generated | downloaded | shared
+ *   channel              shared only: whatsapp | native | copy_link | instagram
+ *   source               utm_source / referrer name the session arrived with
+ *
+ * Only published events are tracked, and `eventCode` must be the event's code.
+ * The device type comes from the User-Agent header, not the body.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Resp>) {
+  if (req.method !== "POST") return res.status(405).json({ ok: false, error: "Method not allowed" });
+
+  let body: unknown = req.body;
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      body = null;
+    }
+  }
+  if (!isPlainObject(body)) return res.status(400).json({ ok: false, error: "Invalid body" });
+
+  const { eventId, eventCode, sessionId, step, channel } = body;
+
+  if (!isNonEmptyString(eventId) || !isNonEmptyString(eventCode)) {
+    return res.status(400).json({ ok: false, error: "Missing eventId or eventCode" });
+  }
+  if (!isUuid(eventId)) {
+    return res.status(400).json({ ok: false, error: "Invalid eventId" });
+  }
+  if (typeof sessionId !== "string" || !SESSION_RE.test(sessionId)) {
+    return res.status(400).json({ ok: false, error: "Invalid sessionId" });
+  }
+  if (!isFunnelStep(step)) {
+    return res.status(400).json({ ok: false, error: "Invalid step" });
+  }
+  if (step === "shared" ? !isShareChannel(channel) : channel !== undefined) {
+    return res.status(400).json({ ok: false, error: "Invalid channel" });
+  }
+
+  const supabase = supabaseAdmin();
+  if (!supabase) return res.status(500).json({ ok: false, error: "Missing Supabase env" });
+
+  const { data: event, error: eventErr } = await supabase
+    .from("events")
+    .select("id,event_code,published")
+    .eq("id", eventId)
+    .maybeSingle<{ id: string; event_code: string | null; published: boolean | null }>();
+
+  if (eventErr) return res.status(500).json({ ok: false, error: "Event lookup failed", message: eventErr.message });
+  if (!event || !event.published || event.event_code !== eventCode) {
+    return res.status(404).json({ ok: false, error: "Event not found or not published" });
+  }
+
+  const { error } = await supabase.from("event_funnel_events").insert({
+    event_id: event.id,
+    event_code: event.event_code,
+    session_id: sessionId,
+    step,
+    channel: step === "shared" ? channel : null,
+    source: cleanSource(body.source),
+    device: deviceType(req.headers["user-agent"]),
+  });
+
+  if (error) return res.status(500).json({ ok: false, error: "Insert failed", message: error.message });
+
+  return res.status(200).json({ ok: true });
+}
@@ -0,0 +1,51 @@
+// src/pages/api/unpublish-event.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { EventStatus } from "@/lib/eventAvailability";
+
+type Ok = { ok: true; eventId: string; status: EventStatus };
+type Err = { ok: false; error: string; message?: string };
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+/**
+ * POST { eventId }
+ * Takes a published event offline. The event code is kept, so attendees with the
+ * link see a "closed" page, and publishing again brings the same link back.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  }
+
+  const eventId = isNonEmptyString(req.body?.eventId) ? req.body.eventId.trim() : "";
+  if (!eventId) {
+    return res.status(400).json({ ok: false, error: "Missing eventId" });
+  }
+
+  const access = await requireEventOwner(req, res, eventId);
+  if (!access.ok) return sendAccessDenied(res, access);
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
+    return res.status(500).json({ ok: false, error: "Supabase env not set" });
+  }
+
+  const { error } = await supabase
+    .from("events")
+    .update({ published: false, status: "unpublished" })
+    .eq("id", eventId);
+
+  if (error) {
+    return res.status(500).json({
+      ok: false,
+      error: "Failed to unpublish event",
+      message: error.message,
+    });
+  }
+
+  return res.status(200).json({ ok: true, eventId, status: "unpublished" });
+}
@@ -1,10 +1,19 @@
 // src/pages/api/update-template.ts
 import type { NextApiRequest, NextApiResponse } from "next";
-import { createClient } from "@supabase/supabase-js";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { formatTemplateIssues, upgradeTemplate, validateTemplate, type TemplateIssue } from "@/lib/template";
+import { recordRevision } from "@/lib/templateHistory";
 
-type Ok = { ok: true };
-type Err = { ok: false; error: string; message?: string };
+type Ok = { ok: true; revisionId: string | null };
+type Err = { ok: false; error: string; message?: string; issues?: TemplateIssue[] };
 
+/**
+ * POST { eventId, template }   (owner only)
+ * Replaces the event template and records a revision. A template without
+ * `watermark` keeps the stored one, so editors that only see the plan-resolved
+ * watermark cannot overwrite the organizer's setting.
+ */
 export default async function handler(req: NextApiRequest, res: NextApiResponse<Ok | Err>) {
   if (req.method !== "POST") {
     return res.status(405).json({ ok: false, error: "Method not allowed" });
@@ -16,19 +25,42 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     return res.status(400).json({ ok: false, error: "Missing eventId or template" });
   }
 
-  const url = process.env.SUPABASE_URL!;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  const checked = validateTemplate(template);
+  if (!checked.ok) {
+    return res.status(400).json({
+      ok: false,
+      error: "Invalid template",
+      message: `Invalid template: ${formatTemplateIssues(checked.issues)}`,
+      issues: checked.issues,
+    });
+  }
 
-  if (!url || !key) {
+  const access = await requireEventOwner(req, res, String(eventId));
+  if (!access.ok) return sendAccessDenied(res, access);
+
+  const supabase = supabaseAdmin();
+  if (!supabase) {
     return res.status(500).json({ ok: false, error: "Supabase env not set" });
   }
 
-  const supabase = createClient(url, key);
+  const next = checked.template;
+  if (next.watermark === undefined) {
+    const { data: stored, error: loadErr } = await supabase
+      .from("events")
+      .select("template")
+      .eq("id", access.event.id)
+      .maybeSingle<{ template: unknown }>();
+
+    if (loadErr) {
+      return res.status(500).json({ ok: false, error: "Failed to load template", message: loadErr.message });
+    }
+    next.watermark = upgradeTemplate(stored?.template).watermark;
+  }
 
   const { error } = await supabase
     .from("events")
-    .update({ template })
-    .eq("id", eventId);
+    .update({ template: next })
+    .eq("id", access.event.id);
 
   if (error) {
     return res.status(500).json({
@@ -38,5 +70,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     });
   }
 
-  return res.status(200).json({ ok: true });
+  // Keep every save in the history; the template itself is already stored
+  let revisionId: string | null = null;
+  try {
+    revisionId = await recordRevision(supabase, {
+      eventId: access.event.id,
+      author: access.user,
+      template: next,
+    });
+  } catch (e) {
+    console.error("update-template: revision log failed:", e);
+  }
+
+  return res.status(200).json({ ok: true, revisionId });
 }
\ No newline at end of file
@@ -1,82 +1,59 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import formidable, { type File as FormidableFile, type Files, type Fields } from "formidable";
 import fs from "fs";
-import { createClient } from "@supabase/supabase-js";
+import { randomUUID } from "crypto";
+import type { Files } from "formidable";
+import { firstString, getLocalPath, getSingleFile, parseForm, removeUploads } from "@/lib/multipart";
+import { requireEventOwner, sendAccessDenied } from "@/lib/supabase/access";
+import { EVENT_ASSETS_BUCKET, supabaseAdmin } from "@/lib/supabase/admin";
 
 export const config = { api: { bodyParser: false } };
 
 type Ok = { ok: true; path: string };
-type Err = { ok: false; error: string };
+type Err = { ok: false; error: string; message?: string };
 type Resp = Ok | Err;
 
-function parseForm(req: NextApiRequest): Promise<{ fields: Fields; files: Files }> {
-  const form = formidable({ multiples: false });
-  return new Promise((resolve, reject) => {
-    form.parse(req, (err, fields, files) => {
-      if (err) reject(err);
-      else resolve({ fields, files });
-    });
-  });
-}
-
-function firstString(v: unknown): string {
-  if (typeof v === "string") return v;
-  if (Array.isArray(v) && typeof v[0] === "string") return v[0];
-  return "";
-}
-
-function getSingleFile(input: unknown): FormidableFile | null {
-  if (!input) return null;
-  if (Array.isArray(input)) {
-    const f = input[0];
-    return isFormidableFile(f) ? f : null;
-  }
-  return isFormidableFile(input) ? input : null;
-}
-
-function isFormidableFile(v: unknown): v is FormidableFile {
-  if (!v || typeof v !== "object") return false;
-  const obj = v as Record<string, unknown>;
-  return (
-    typeof obj.originalFilename === "string" ||
-    typeof obj.mimetype === "string" ||
-    typeof obj.size === "number"
-  );
-}
-
-function getLocalPath(file: FormidableFile): string {
-  // Formidable v2 uses `filepath`. Older versions used `path`.
-  const maybe = file as unknown as { filepath?: unknown; path?: unknown };
-  if (typeof maybe.filepath === "string") return maybe.filepath;
-  if (typeof maybe.path === "string") return maybe.path;
-  return "";
-}
+// The storage key's extension comes from this map, never from the client filename.
+// No SVG: the bucket serves files back to browsers, and an SVG can carry script.
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse<Resp>) {
+  let uploads: Files | undefined;
   try {
     if (req.method !== "POST") {
       return res.status(405).json({ ok: false, error: "Method not allowed" });
     }
 
-    const url = process.env.SUPABASE_URL;
-    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    if (!url || !key) {
+    const supabase = supabaseAdmin();
+    if (!supabase) {
       return res.status(500).json({ ok: false, error: "Missing Supabase env vars" });
     }
 
-    const supabase = createClient(url, key);
-
     const { fields, files } = await parseForm(req);
+    uploads = files;
     const eventId = firstString(fields.eventId);
+    // Optional: upload an asset for a logo layer instead of the background
+    const layerId = firstString(fields.layerId).replace(/[^a-zA-Z0-9_-]/g, "");
 
     // "file" is the field name you append in FormData
-    const fileUnknown = (files as unknown as Record<string, unknown>)["file"];
-    const file = getSingleFile(fileUnknown);
+    const file = getSingleFile(files, "file");
 
     if (!eventId || !file) {
       return res.status(400).json({ ok: false, error: "Missing eventId or file" });
     }
 
+    const contentType = typeof file.mimetype === "string" ? file.mimetype.toLowerCase() : "";
+    const ext = EXTENSIONS[contentType];
+    if (!ext) {
+      return res.status(400).json({ ok: false, error: "Unsupported image type (use JPG, PNG or WebP)" });
+    }
+
+    const access = await requireEventOwner(req, res, eventId);
+    if (!access.ok) return sendAccessDenied(res, access);
+
     const localPath = getLocalPath(file);
     if (!localPath) {
       return res.status(400).json({ ok: false, error: "Formidable file path missing" });
@@ -84,15 +61,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
 
     const buffer = fs.readFileSync(localPath);
 
-    const originalName = typeof file.originalFilename === "string" ? file.originalFilename : "";
-    const ext = originalName.includes(".") ? originalName.split(".").pop() || "png" : "png";
-    const storagePath = `events/${eventId}/background/original.${ext}`;
-
-    const contentType =
-      typeof file.mimetype === "string" && file.mimetype ? file.mimetype : "image/png";
+    // A new file per upload: template revisions keep pointing at the image they were saved with
+    const version = `${Date.now()}-${randomUUID().slice(0, 8)}`;
+    const storagePath = layerId
+      ? `events/${eventId}/layers/${layerId}-${version}.${ext}`
+      : `events/${eventId}/background/${version}.${ext}`;
 
-    const { error } = await supabase.storage.from("vf-event-assets").upload(storagePath, buffer, {
-      upsert: true,
+    const { error } = await supabase.storage.from(EVENT_ASSETS_BUCKET).upload(storagePath, buffer, {
+      upsert: false,
       contentType,
     });
 
@@ -104,5 +80,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     return res.status(200).json({ ok: true, path: storagePath });
   } catch (e) {
     return res.status(500).json({ ok: false, error: e instanceof Error ? e.message : "Unknown error" });
+  } finally {
+    removeUploads(uploads);
   }
 }
@@ -1,14 +1,52 @@
 // Full corrected file content for admin/src/pages/e/[eventCode].tsx
+import type { GetServerSideProps } from "next";
 import Head from "next/head";
 import { useRouter } from "next/router";
 import React, { useEffect, useMemo, useRef, useState } from "react";
-
-type Template = {
-  canvas?: { width?: number; height?: number };
-  photo?: { x?: number; y?: number; size?: number; shape?: "circle" | "square" };
-  text?: { x?: number; y?: number; w?: number; h?: number; size?: number; color?: string };
-  background?: { url?: string };
-};
+import type { Template } from "@/types/template";
+import {
+  DESIGN_W,
+  PHOTO_ZOOM_MAX,
+  computePosterLayout,
+  cropFromFocus,
+  drawPoster,
+  exportScale,
+  hasPhotoSlotDecor,
+  photoSlotShape,
+  posterFilename,
+  posterSize,
+  type FocusPoint,
+  type PhotoCrop,
+  type PosterImage,
+  type PosterPhoto,
+} from "@/lib/poster/render";
+import PhotoCropper from "@/components/poster/PhotoCropper";
+import PhotoSlotCanvas from "@/components/poster/PhotoSlotCanvas";
+import PosterText from "@/components/poster/PosterText";
+import { ensurePosterFonts } from "@/lib/poster/fonts";
+import {
+  MAIN_VARIANT_ID,
+  NAME_FIELD,
+  imageLayers,
+  resolveVariant,
+  templateVariants,
+  textFields,
+  textLayers,
+} from "@/lib/template";
+import {
+  EVENT_WINDOW_COLUMNS,
+  getEventAvailability,
+  type EventAvailability,
+  type EventWindowRow,
+} from "@/lib/eventAvailability";
+import { detectFace } from "@/lib/faceDetection";
+import { fetchCutout } from "@/lib/photoCutout";
+import { filterPhotoBlob, isPhotoFilterActive } from "@/lib/poster/photoFilter";
+import { formatShareText, requestOrigin, type ShareMeta } from "@/lib/share";
+import { trackFunnelStep, type FunnelStep, type ShareChannel } from "@/lib/funnel";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { normalizeEventCode } from "@/lib/eventCode";
+import { upgradeTemplate } from "@/lib/template";
 
 type ApiOk = {
   ok: true;
@@ -18,62 +56,83 @@ type ApiOk = {
     event: {
       eventId: string;
       eventCode: string;
-      template: Template | null;
+      template: Template;
       createdAt: string | null;
+      closesAt: string | null;
       backgroundPath: string | null;
       backgroundSignedUrl: string | null;
+      assetUrls: Record<string, string>;
     };
   };
 };
 
-type ApiErr = { ok: false; error: string; message?: string };
+type ApiErr = { ok: false; error: string; message?: string; availability?: EventAvailability };
 type ApiResp = ApiOk | ApiErr;
 
-const OUT_W = 1080;
-const OUT_H = 1080;
+type PageProps = {
+  /** Link preview tags; null unless the event is open to attendees. */
+  meta: ShareMeta | null;
+};
 
-function cleanEventCode(raw: unknown): string {
-  if (typeof raw !== "string") return "";
-  return raw.replace(/^=+/, "").trim();
-}
+// Link previews are fetched by crawlers that never run the page's JavaScript
+export const getServerSideProps: GetServerSideProps<PageProps> = async (ctx) => {
+  const raw = ctx.params?.eventCode;
+  const eventCode = normalizeEventCode(Array.isArray(raw) ? (raw[0] ?? "") : (raw ?? ""));
+  const supabase = supabaseAdmin();
+  if (!eventCode || !supabase) return { props: { meta: null } };
+
+  const { data, error } = await supabase
+    .from("events")
+    .select(`event_code,name,description,template,${EVENT_WINDOW_COLUMNS}`)
+    .eq("event_code", eventCode)
+    .maybeSingle<
+      EventWindowRow & { event_code: string; name: string | null; description: string | null; template: unknown }
+    >();
+
+  if (error) console.error("Event page meta lookup failed:", error);
+  // Same window as get-event-by-code: no preview for scheduled or closed events
+  if (!data || getEventAvailability(data).state !== "open") return { props: { meta: null } };
+
+  const origin = requestOrigin(ctx.req.headers);
+  const code = encodeURIComponent(data.event_code);
+  const title = data.name?.trim() || "ViroEvent";
+
+  return {
+    props: {
+      meta: {
+        title,
+        description: data.description?.trim() || `Create your ${title} poster with your photo and name in seconds.`,
+        url: `${origin}/e/${code}`,
+        image: upgradeTemplate(data.template).background?.url ? `${origin}/api/og-image?eventCode=${code}` : null,
+      },
+    },
+  };
+};
 
-function clamp(v: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, v));
+// A plain function, not a component: next/head only picks up its direct children (or one fragment)
+function metaTags(meta: ShareMeta | null) {
+  if (!meta) return null;
+  return (
+    <>
+      <meta name="description" content={meta.description} />
+      <meta property="og:type" content="website" />
+      <meta property="og:title" content={meta.title} />
+      <meta property="og:description" content={meta.description} />
+      <meta property="og:url" content={meta.url} />
+      {meta.image && <meta property="og:image" content={meta.image} />}
+      {meta.image && <meta property="og:image:width" content="1200" />}
+      {meta.image && <meta property="og:image:height" content="628" />}
+      <meta name="twitter:card" content={meta.image ? "summary_large_image" : "summary"} />
+      <meta name="twitter:title" content={meta.title} />
+      <meta name="twitter:description" content={meta.description} />
+      {meta.image && <meta name="twitter:image" content={meta.image} />}
+    </>
+  );
 }
 
-// Modified coverDraw to support focus point and alignment
-function coverDraw(
-  ctx: CanvasRenderingContext2D,
-  img: HTMLImageElement,
-  dx: number,
-  dy: number,
-  dw: number,
-  dh: number,
-  focus?: { x: number; y: number },
-  align: { x: number; y: number } = { x: 0.5, y: 0.5 }
-) {
-  const iw = img.naturalWidth || img.width;
-  const ih = img.naturalHeight || img.height;
-  if (!iw || !ih) return;
-
-  const scale = Math.max(dw / iw, dh / ih);
-  const sw = dw / scale;
-  const sh = dh / scale;
-
-  // Default center (0.5)
-  const fx = focus?.x ?? 0.5;
-  const fy = focus?.y ?? 0.5;
-
-  // Calculate source x/y based on focus point and desired alignment
-  // We want source point (fx * iw) to be at destination relative point (align.x * sw)
-  let sx = (iw * fx) - (sw * align.x);
-  let sy = (ih * fy) - (sh * align.y);
-
-  // Clamp to ensure we don't go outside image bounds
-  sx = Math.max(0, Math.min(iw - sw, sx));
-  sy = Math.max(0, Math.min(ih - sh, sy));
-
-  ctx.drawImage(img, sx, sy, sw, sh, dx, dy, dw, dh);
+function cleanEventCode(raw: unknown): string {
+  if (typeof raw !== "string") return "";
+  return raw.replace(/^=+/, "").trim();
 }
 
 async function loadImage(src: string) {
@@ -95,6 +154,12 @@ function isAbortError(e: unknown): boolean {
   return err.name === "AbortError" || /abort/i.test(err.message ?? "");
 }
 
+function canvasToBlob(canvas: HTMLCanvasElement, type: "image/jpeg" | "image/png") {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode poster"))), type, 0.95);
+  });
+}
+
 function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -107,51 +172,52 @@ function downloadBlob(blob: Blob, filename: string) {
   setTimeout(() => URL.revokeObjectURL(url), 1500);
 }
 
-// ✅ Watermark helper - Simple white text with opacity
-function drawWatermark(ctx: CanvasRenderingContext2D) {
-  ctx.save();
-
-  // Set 25% opacity
-  ctx.globalAlpha = 0.25;
-
-  // White text, bold, centered at bottom
-  ctx.fillStyle = "#ffffff";
-  ctx.font = "bold 42px Arial, sans-serif";
-  ctx.textAlign = "center";
-  ctx.textBaseline = "bottom";
-
-  // Draw text centered at bottom with some padding
-  ctx.fillText("ViroEvents", OUT_W / 2, OUT_H - 40);
-
-  ctx.restore();
-}
-
-// Helper to detect face
-async function detectFace(file: File): Promise<{ x: number; y: number } | null> {
-  try {
-    const formData = new FormData();
-    formData.append("file", file);
-
-    // Assume Python service is running on localhost:8000
-    // In production, this URL should be an env var or relative proxy 
-    const res = await fetch("http://localhost:8000/detect-face", {
-      method: "POST",
-      body: formData,
-    });
-
-    if (!res.ok) return null;
-    const data = await res.json();
-
-    if (data.ok && data.found && data.face) {
-      return { x: data.face.x, y: data.face.y };
-    }
-  } catch (e) {
-    console.warn("Face detection failed:", e);
-  }
-  return null;
+function PhotoCropControls({
+  crop,
+  onChange,
+  onReset,
+  hasFace,
+}: {
+  crop: PhotoCrop;
+  onChange: (crop: PhotoCrop) => void;
+  onReset: () => void;
+  hasFace: boolean;
+}) {
+  return (
+    <div className="-mt-2 mb-4 space-y-2 text-xs text-[var(--viro-muted)]">
+      <div className="flex items-center gap-3">
+        <span className="w-12">Zoom</span>
+        <input
+          type="range"
+          min={100}
+          max={PHOTO_ZOOM_MAX * 100}
+          value={Math.round(crop.zoom * 100)}
+          onChange={(e) => onChange({ ...crop, zoom: Number(e.target.value) / 100 })}
+          className="flex-1 accent-[var(--viro-primary)]"
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <span className="w-12">Rotate</span>
+        <input
+          type="range"
+          min={-180}
+          max={180}
+          value={Math.round(crop.rotate)}
+          onChange={(e) => onChange({ ...crop, rotate: Number(e.target.value) })}
+          className="flex-1 accent-[var(--viro-primary)]"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <span>Drag the photo in the preview to move it.</span>
+        <button type="button" onClick={onReset} className="text-[var(--viro-primary)] hover:opacity-80">
+          {hasFace ? "Reset to face" : "Reset"}
+        </button>
+      </div>
+    </div>
+  );
 }
 
-export default function EventCodePage() {
+export default function EventCodePage({ meta }: PageProps) {
   const router = useRouter();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -166,14 +232,30 @@ export default function EventCodePage() {
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
   const [event, setEvent] = useState<ApiOk["data"]["event"] | null>(null);
-
-  const [name, setName] = useState("");
-  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  // Set when the event exists but is scheduled or closed
+  const [availability, setAvailability] = useState<EventAvailability | null>(null);
+
+  // Attendee inputs keyed by text layer field, photos keyed by image layer id
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  // Background-removed photos for cutout slots; missing when segmentation is unavailable
+  const [cutoutUrls, setCutoutUrls] = useState<Record<string, string>>({});
   const [generating, setGenerating] = useState(false);
+  const [makingPdf, setMakingPdf] = useState(false);
+  const name = values[NAME_FIELD] ?? "";
+
+  // Photo slot the hidden file input is currently picking for
+  const pickingLayerRef = useRef<string | null>(null);
+  const photoUrlsRef = useRef<Record<string, string>>({});
+  // Original uploads, sent as-is for server-rendered print PDFs
+  const photoFilesRef = useRef<Record<string, File>>({});
+  const cutoutUrlsRef = useRef<Record<string, string>>({});
 
   // New state for face detection
-  const [faceCenter, setFaceCenter] = useState<{ x: number; y: number } | null>(null);
-  const [processingPhoto, setProcessingPhoto] = useState(false);
+  const [faceCenters, setFaceCenters] = useState<Record<string, FocusPoint>>({});
+  // Attendee framing per photo slot (pan/zoom/rotate), used by preview and export
+  const [crops, setCrops] = useState<Record<string, PhotoCrop>>({});
+  const [processingLayerId, setProcessingLayerId] = useState<string | null>(null);
 
   // ✅ Share state
   const [didDownload, setDidDownload] = useState(false);
@@ -181,6 +263,7 @@ export default function EventCodePage() {
 
   // ✅ Store generated image for sharing
   const [resultBlob, setResultBlob] = useState<Blob | null>(null);
+  const [resultVariantId, setResultVariantId] = useState(MAIN_VARIANT_ID);
   const [resultPreviewUrl, setResultPreviewUrl] = useState<string | null>(null);
   const [sharing, setSharing] = useState(false);
   const [shareNotice, setShareNotice] = useState<string | null>(null);
@@ -193,16 +276,26 @@ export default function EventCodePage() {
     return `${origin}/e/${eventCode}`;
   }, [eventCode]);
 
-  const shareText = useMemo(() => {
-    const n = name.trim() ? `(${name.trim()}) ` : "";
-    return `🇨🇲🦁 Let’s support the Lions! ${n}Create your FREE custom AFCON poster with your photo + name in seconds.\nTap here: ${shareLink}`;
-  }, [name, shareLink]);
+  const shareText = useMemo(
+    () => formatShareText(event?.template.share, { name, event: meta?.title ?? eventCode, link: shareLink }),
+    [event, meta, eventCode, name, shareLink]
+  );
+
+  // Funnel analytics (best effort; each step once per session, every share)
+  const track = (step: FunnelStep, channel?: ShareChannel) => {
+    if (event) trackFunnelStep(event, step, channel);
+  };
+
+  useEffect(() => {
+    if (event) trackFunnelStep(event, "page_view");
+  }, [event]);
 
   const whatsappHref = useMemo(() => {
     return `https://wa.me/?text=${encodeURIComponent(shareText)}`;
   }, [shareText]);
 
-  const copyLink = async () => {
+  const copyLink = async (channel: ShareChannel = "copy_link") => {
+    track("shared", channel);
     try {
       await navigator.clipboard.writeText(shareLink);
       setCopied(true);
@@ -228,14 +321,9 @@ export default function EventCodePage() {
 
     setShareNotice(null);
 
-    const safeName = (name.trim() || "poster")
-      .toLowerCase()
-      .replace(/\s+/g, "-")
-      .replace(/[^a-z0-9-_]/g, "");
-    const safeCode = (eventCode || "VF").replace(/[^a-z0-9-_]/gi, "");
-    const filename = `${safeName || "poster"}-${safeCode}.jpg`;
+    const filename = variantFilename(resultVariantId);
 
-    const file = new File([resultBlob], filename, { type: "image/jpeg" });
+    const file = new File([resultBlob], filename, { type: resultBlob.type || "image/jpeg" });
 
     const nav = navigator as unknown as {
       share?: (data: ShareData) => Promise<void>;
@@ -253,8 +341,8 @@ export default function EventCodePage() {
 
       const shareData: ShareData = {
         files: [file],
-        title: "ViroEvent Poster",
-        text: "My supporter poster",
+        title: meta?.title ?? "ViroEvent Poster",
+        text: shareText,
       };
 
       if (nav.canShare && !nav.canShare(shareData)) {
@@ -264,6 +352,7 @@ export default function EventCodePage() {
       }
 
       await nav.share(shareData);
+      track("shared", "native");
     } catch (e) {
       if (isAbortError(e)) return; // user cancelled
       downloadBlob(resultBlob, filename);
@@ -290,10 +379,12 @@ export default function EventCodePage() {
         if (cancelled) return;
 
         if (!r.ok || !data.ok) {
+          if (!data.ok && data.availability) setAvailability(data.availability);
           setErr(!data.ok ? data.message || data.error : `Request failed (${r.status})`);
           return;
         }
 
+        setAvailability(null);
         setEvent(data.data.event);
       } catch (e) {
         if (!cancelled) setErr(e instanceof Error ? e.message : "Unknown error");
@@ -322,11 +413,17 @@ export default function EventCodePage() {
   }, []);
 
   // Cleanup object URLs properly
+  useEffect(() => {
+    photoUrlsRef.current = photoUrls;
+    cutoutUrlsRef.current = cutoutUrls;
+  }, [photoUrls, cutoutUrls]);
+
   useEffect(() => {
     return () => {
-      if (photoUrl) URL.revokeObjectURL(photoUrl);
+      Object.values(photoUrlsRef.current).forEach((u) => URL.revokeObjectURL(u));
+      Object.values(cutoutUrlsRef.current).forEach((u) => URL.revokeObjectURL(u));
     };
-  }, [photoUrl]);
+  }, []);
 
   useEffect(() => {
     return () => {
@@ -334,93 +431,119 @@ export default function EventCodePage() {
     };
   }, [resultPreviewUrl]);
 
-  const tpl = event?.template ?? {};
+  const tpl = event?.template ?? null;
 
-  const baseW = tpl.canvas?.width ?? OUT_W;
-  const scaleToOut = baseW ? OUT_W / baseW : 1;
+  const imageExt = tpl?.export?.format === "png" ? "png" : "jpg";
+  const variantFilename = (id: string, ext: "jpg" | "png" | "pdf" = imageExt) =>
+    posterFilename(name, eventCode, ext, id === MAIN_VARIANT_ID ? undefined : id);
 
-  const xNormPhoto = tpl.photo?.x ?? 0.5;
-  const yNormPhoto = tpl.photo?.y ?? 0.35;
-  const photoSizeBase = tpl.photo?.size ?? 220;
-  const photoSizeOut = photoSizeBase * scaleToOut;
-  const photoShape = tpl.photo?.shape ?? "circle";
+  // Layouts of the same poster (square, story…); content is shared, slots move per layout
+  const variants = useMemo(() => (tpl ? templateVariants(tpl) : []), [tpl]);
+  const [variantId, setVariantId] = useState(MAIN_VARIANT_ID);
+  const viewTpl = useMemo(() => (tpl ? (resolveVariant(tpl, variantId) ?? tpl) : null), [tpl, variantId]);
 
-  const xNormText = tpl.text?.x ?? 0.5;
-  const yNormText = tpl.text?.y ?? 0.78;
-  const textWNorm = tpl.text?.w ?? 0.82;
-  const textHNorm = tpl.text?.h ?? 0.14;
+  const size = useMemo(() => (viewTpl ? posterSize(viewTpl) : { width: DESIGN_W, height: DESIGN_W }), [viewTpl]);
+  const layout = useMemo(() => (viewTpl ? computePosterLayout(viewTpl) : []), [viewTpl]);
+  const outScale = exportScale(size, tpl?.export?.scale);
+  const photoLayers = useMemo(() => (tpl ? imageLayers(tpl) : []), [tpl]);
+  const fields = useMemo(() => (tpl ? textFields(tpl) : []), [tpl]);
 
-  const textSizeBase = (tpl.text?.size ?? 44) / 3;
-  const textSizeOut = textSizeBase * scaleToOut;
+  // Slot outline color follows the first text line, like the single-slot design did
+  const accentColor = (tpl && textLayers(tpl)[0]?.color) || "#FFD54F";
 
-  const textColor = tpl.text?.color ?? "#FFD54F";
+  const previewScale = previewPx / size.width;
 
-  let photoXOut = xNormPhoto * OUT_W;
-  let photoYOut = yNormPhoto * OUT_H;
+  const canGenerate =
+    !!event?.backgroundSignedUrl &&
+    fields.every((f) => (values[f.field] ?? "").trim()) &&
+    photoLayers.every((l) => !!photoUrls[l.id]);
 
-  const r = photoSizeOut / 2;
-  photoXOut = clamp(photoXOut, r, OUT_W - r);
-  photoYOut = clamp(photoYOut, r, OUT_H - r);
-
-  const textXOut = xNormText * OUT_W;
-  const textYOut = yNormText * OUT_H;
-
-  const previewScale = previewPx / OUT_W;
-
-  const photoStyle: React.CSSProperties = {
-    left: `${(photoXOut / OUT_W) * 100}%`,
-    top: `${(photoYOut / OUT_H) * 100}%`,
+  const boxStyle = (x: number, y: number, w: number, h: number): React.CSSProperties => ({
+    left: `${(x / size.width) * 100}%`,
+    top: `${(y / size.height) * 100}%`,
     transform: "translate(-50%, -50%)",
-    width: photoSizeOut * previewScale,
-    height: photoSizeOut * previewScale,
-    borderRadius: photoShape === "circle" ? "9999px" : "12px",
-  };
+    width: w * previewScale,
+    height: h * previewScale,
+  });
 
-  const textStyle: React.CSSProperties = {
-    left: `${(textXOut / OUT_W) * 100}%`,
-    top: `${(textYOut / OUT_H) * 100}%`,
-    transform: "translate(-50%, -50%)",
-    width: textWNorm * previewPx,
-    height: textHNorm * previewPx,
-    fontSize: textSizeOut * previewScale,
-    color: textColor,
-    letterSpacing: "0.5px",
-    textShadow: "0 2px 14px rgba(0,0,0,0.55)",
+  const setCrop = (layerId: string, crop: PhotoCrop) => {
+    setCrops((prev) => ({ ...prev, [layerId]: crop }));
+    setDidDownload(false);
   };
 
-  // Defined above: previewPhotoStyle used for object-position logic
-  const previewPhotoStyle: React.CSSProperties = {
-    width: "100%",
-    height: "100%",
-    objectFit: "cover",
-    objectPosition: faceCenter ? `${faceCenter.x * 100}% ${faceCenter.y * 100}%` : "50% 50%",
-    transition: "object-position 0.5s ease"
+  const pickPhoto = (layerId: string) => {
+    pickingLayerRef.current = layerId;
+    fileInputRef.current?.click();
   };
 
-  const pickPhoto = () => fileInputRef.current?.click();
+  const setValue = (field: string, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+  };
 
-  const onPhotoFile = async (file: File) => {
-    if (photoUrl) URL.revokeObjectURL(photoUrl);
-    setPhotoUrl(URL.createObjectURL(file));
+  const onPhotoFile = async (layerId: string, file: File) => {
+    const prevUrl = photoUrls[layerId];
+    if (prevUrl) URL.revokeObjectURL(prevUrl);
+    const originalUrl = URL.createObjectURL(file);
+    photoFilesRef.current[layerId] = file;
+    track("photo_chosen");
+    setPhotoUrls((prev) => ({ ...prev, [layerId]: originalUrl }));
+    const prevCutout = cutoutUrls[layerId];
+    if (prevCutout) URL.revokeObjectURL(prevCutout);
+    setCutoutUrls((prev) => {
+      const next = { ...prev };
+      delete next[layerId];
+      return next;
+    });
     setDidDownload(false);
     setResultBlob(null);
     setShareNotice(null);
 
     // Face detection
-    setFaceCenter(null);
+    setFaceCenters((prev) => {
+      const next = { ...prev };
+      delete next[layerId];
+      return next;
+    });
+    setCrops((prev) => ({ ...prev, [layerId]: cropFromFocus(null) }));
     if (resultPreviewUrl) URL.revokeObjectURL(resultPreviewUrl);
     setResultPreviewUrl(null);
 
-    setProcessingPhoto(true);
-    const face = await detectFace(file);
+    setProcessingLayerId(layerId);
+    const layer = photoLayers.find((l) => l.id === layerId);
+    const filter = isPhotoFilterActive(layer?.filter) ? layer.filter : null;
+
+    // Color grading is baked into the preview images, so the export draws exactly what is shown
+    const grade = (blob: Blob) =>
+      filter
+        ? filterPhotoBlob(blob, filter).catch((e) => {
+            console.warn("Photo filter failed:", e);
+            return blob;
+          })
+        : blob;
+
+    const [face, cutout, graded] = await Promise.all([
+      detectFace(file),
+      layer?.shape === "cutout" ? fetchCutout(file).then((b) => (b ? grade(b) : null)) : null,
+      filter ? grade(file) : null,
+    ]);
+    if (graded) {
+      URL.revokeObjectURL(originalUrl);
+      setPhotoUrls((prev) => ({ ...prev, [layerId]: URL.createObjectURL(graded) }));
+    }
+    if (cutout) {
+      setCutoutUrls((prev) => ({ ...prev, [layerId]: URL.createObjectURL(cutout) }));
+    }
     if (face) {
-      setFaceCenter(face);
+      setFaceCenters((prev) => ({ ...prev, [layerId]: face }));
+      setCrops((prev) => ({ ...prev, [layerId]: cropFromFocus(face) }));
     }
-    setProcessingPhoto(false);
+    setProcessingLayerId(null);
   };
 
-  const generateAndDownload = async () => {
-    if (!event?.backgroundSignedUrl || !name.trim() || !photoUrl || !canvasRef.current) return;
+  // Renders the given layouts one after another (photos and assets are loaded once),
+  // downloading and logging each. The shown variant becomes the shareable result.
+  const generateAndDownload = async (variantIds: string[]) => {
+    if (!event?.backgroundSignedUrl || !tpl || !canGenerate || !canvasRef.current) return;
 
     setGenerating(true);
     setErr(null);
@@ -431,9 +554,6 @@ export default function EventCodePage() {
       const ctx = canvas.getContext("2d");
       if (!ctx) throw new Error("Canvas not supported");
 
-      canvas.width = OUT_W;
-      canvas.height = OUT_H;
-
       const bgSrc =
         event.backgroundSignedUrl +
         (event.backgroundSignedUrl.includes("?") ? "&" : "?") +
@@ -441,93 +561,167 @@ export default function EventCodePage() {
         Date.now();
 
       const bgImg = await loadImage(bgSrc);
-      ctx.drawImage(bgImg, 0, 0, OUT_W, OUT_H);
-
-      const userImg = await loadImage(photoUrl);
-
-      ctx.save();
-      ctx.beginPath();
-
-      if (photoShape === "circle") {
-        ctx.arc(photoXOut, photoYOut, r, 0, Math.PI * 2);
-      } else {
-        const half = r;
-        const x = photoXOut - half;
-        const y = photoYOut - half;
-        const rr = 18;
-        ctx.moveTo(x + rr, y);
-        ctx.arcTo(x + 2 * half, y, x + 2 * half, y + 2 * half, rr);
-        ctx.arcTo(x + 2 * half, y + 2 * half, x, y + 2 * half, rr);
-        ctx.arcTo(x, y + 2 * half, x, y, rr);
-        ctx.arcTo(x, y, x + 2 * half, y, rr);
+
+      const photos: Record<string, PosterPhoto> = {};
+      for (const l of photoLayers) {
+        const cutoutUrl = cutoutUrls[l.id];
+        photos[l.id] = {
+          image: await loadImage(cutoutUrl ?? photoUrls[l.id]),
+          focus: faceCenters[l.id],
+          crop: crops[l.id],
+          cutout: !!cutoutUrl,
+        };
+      }
+
+      const assets: Record<string, PosterImage> = {};
+      for (const [layerId, url] of Object.entries(event.assetUrls ?? {})) {
+        assets[layerId] = await loadImage(url);
       }
 
-      ctx.clip();
-
-      const dx = photoXOut - r;
-      const dy = photoYOut - r;
-      // Pass faceCenter
-      coverDraw(ctx, userImg, dx, dy, photoSizeOut, photoSizeOut, faceCenter || undefined);
-
-      ctx.restore();
-
-      // name text
-      ctx.font = `800 ${Math.round(textSizeOut)}px Arial, sans-serif`;
-      ctx.fillStyle = textColor;
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.fillText(name.trim().toUpperCase(), textXOut, textYOut);
-
-      // ✅ WATERMARK
-      drawWatermark(ctx);
-
-      canvas.toBlob(
-        (blob) => {
-          if (!blob) {
-            setGenerating(false);
-            return;
-          }
-
-          // store for share
-          setResultBlob(blob);
-          if (resultPreviewUrl) URL.revokeObjectURL(resultPreviewUrl);
-          const previewUrl = URL.createObjectURL(blob);
-          setResultPreviewUrl(previewUrl);
-
-          // download
-          const safeName = name
-            .trim()
-            .toLowerCase()
-            .replace(/\s+/g, "-")
-            .replace(/[^a-z0-9-_]/g, "");
-          const safeCode = (eventCode || "VF").replace(/[^a-z0-9-_]/gi, "");
-          const filename = `${safeName || "poster"}-${safeCode}.jpg`;
-
-          downloadBlob(blob, filename);
-
-          // log download (non-blocking)
-          fetch("/api/log-download", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ eventId: event?.eventId, eventCode }),
-          }).catch(() => { });
-
-          setDidDownload(true);
-          setGenerating(false);
-        },
-        "image/jpeg",
-        0.95
-      );
+      await ensurePosterFonts(textLayers(tpl));
+
+      let shown: { id: string; blob: Blob } | null = null;
+
+      for (const id of variantIds) {
+        const variantTpl = resolveVariant(tpl, id);
+        if (!variantTpl) continue;
+
+        // High-res exports re-render everything at scale rather than upsampling the 1× poster
+        const variantSize = posterSize(variantTpl);
+        const scale = exportScale(variantSize, tpl.export?.scale);
+        canvas.width = Math.round(variantSize.width * scale);
+        canvas.height = Math.round(variantSize.height * scale);
+        ctx.setTransform(scale, 0, 0, scale, 0, 0);
+
+        drawPoster(ctx, {
+          size: variantSize,
+          layout: computePosterLayout(variantTpl),
+          background: bgImg,
+          photos,
+          texts: values,
+          assets,
+          watermark: tpl.watermark,
+        });
+
+        const blob = await canvasToBlob(canvas, imageExt === "png" ? "image/png" : "image/jpeg");
+        track("poster_generated");
+        downloadBlob(blob, variantFilename(id));
+        track("downloaded");
+        if (!shown || id === variantId) shown = { id, blob };
+
+        // log download (non-blocking)
+        fetch("/api/log-download", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ eventId: event?.eventId, eventCode, variant: id }),
+        }).catch(() => { });
+      }
+
+      if (shown) {
+        // store for share
+        setResultBlob(shown.blob);
+        setResultVariantId(shown.id);
+        if (resultPreviewUrl) URL.revokeObjectURL(resultPreviewUrl);
+        setResultPreviewUrl(URL.createObjectURL(shown.blob));
+        setDidDownload(true);
+      }
     } catch (e) {
-      setGenerating(false);
       setErr(e instanceof Error ? e.message : "Failed to generate flyer");
+    } finally {
+      setGenerating(false);
     }
   };
 
+  // Print PDFs (bleed, crop marks) are rendered by /api/render-poster from the original
+  // uploads; it applies cutouts and filters itself. The download is logged here, like image downloads.
+  const downloadPrintPdf = async () => {
+    if (!tpl?.export?.pdf || !canGenerate) return;
+
+    setMakingPdf(true);
+    setErr(null);
+
+    try {
+      const form = new FormData();
+      form.append("eventCode", eventCode);
+      form.append("format", "pdf");
+      form.append("variant", variantId);
+      for (const f of fields) form.append(f.field, values[f.field] ?? "");
+      for (const l of photoLayers) {
+        const file = photoFilesRef.current[l.id];
+        if (!file) throw new Error("Please upload your photo again");
+        const crop = crops[l.id] ?? cropFromFocus(faceCenters[l.id]);
+        form.append(`photo_${l.id}`, file);
+        form.append(`focusX_${l.id}`, String(crop.x));
+        form.append(`focusY_${l.id}`, String(crop.y));
+        form.append(`zoom_${l.id}`, String(crop.zoom));
+        form.append(`rotate_${l.id}`, String(crop.rotate));
+      }
+
+      const r = await fetch("/api/render-poster", { method: "POST", body: form });
+      if (!r.ok) {
+        const data = (await r.json().catch(() => null)) as { error?: string; message?: string } | null;
+        throw new Error(data?.message || data?.error || `PDF export failed (${r.status})`);
+      }
+
+      track("poster_generated");
+      downloadBlob(await r.blob(), variantFilename(variantId, "pdf"));
+      track("downloaded");
+
+      fetch("/api/log-download", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventId: event?.eventId, eventCode, variant: variantId }),
+      }).catch(() => { });
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "PDF export failed");
+    } finally {
+      setMakingPdf(false);
+    }
+  };
+
+  if (availability && availability.state !== "open") {
+    const scheduled = availability.state === "scheduled";
+    // Unpublished/archived events can be closed before their scheduled end
+    const closedAt =
+      availability.closesAt && Date.parse(availability.closesAt) <= Date.now() ? availability.closesAt : null;
+    const when = scheduled ? availability.opensAt : closedAt;
+
+    return (
+      <>
+        <Head>
+          <title>{meta ? `${meta.title} | ViroEvent` : `ViroEvent | ${eventCode}`}</title>
+          {metaTags(meta)}
+        </Head>
+
+        <main className="min-h-screen text-white flex items-center justify-center p-6">
+          <div className="viro-card max-w-md w-full p-8 text-center">
+            <div className="text-4xl mb-3">{scheduled ? "⏳" : "🔒"}</div>
+            <h1 className="text-xl font-semibold">
+              {scheduled ? "Not open yet" : "This event is closed"}
+            </h1>
+            <p className="mt-2 text-sm text-[var(--viro-muted)]">
+              {scheduled
+                ? when
+                  ? `Poster creation opens ${new Date(when).toLocaleString()}. Come back then!`
+                  : "Poster creation opens soon. Come back later!"
+                : when
+                  ? `Poster creation closed ${new Date(when).toLocaleString()}. Thanks for joining!`
+                  : "The organizer is no longer accepting posters for this event."}
+            </p>
+            <div className="mt-4 text-xs text-[var(--viro-muted)]">
+              Event: <span className="text-[var(--viro-primary)]">{eventCode}</span>
+            </div>
+          </div>
+        </main>
+      </>
+    );
+  }
+
   return (
     <>
       <Head>
-        <title>ViroEvent | {eventCode}</title>
+        <title>{meta ? `${meta.title} | ViroEvent` : `ViroEvent | ${eventCode}`}</title>
+        {metaTags(meta)}
       </Head>
 
       <canvas ref={canvasRef} className="hidden" />
@@ -539,7 +733,9 @@ export default function EventCodePage() {
         className="hidden"
         onChange={(e) => {
           const file = e.target.files?.[0];
-          if (file) onPhotoFile(file);
+          const layerId = pickingLayerRef.current;
+          e.target.value = "";
+          if (file && layerId) onPhotoFile(layerId, file);
         }}
       />
 
@@ -558,44 +754,85 @@ export default function EventCodePage() {
             )}
           </div>
 
-          <label className="text-sm text-[var(--viro-muted)]">Your name</label>
-          <input
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            placeholder="Enter your name"
-            className="mt-2 mb-4 viro-input"
-          />
+          {fields.map((f) => (
+            <div key={f.field}>
+              <label className="text-sm text-[var(--viro-muted)]">{f.label}</label>
+              <input
+                value={values[f.field] ?? ""}
+                onChange={(e) => setValue(f.field, e.target.value)}
+                placeholder={f.field === NAME_FIELD ? "Enter your name" : `Enter ${f.label.toLowerCase()}`}
+                className="mt-2 mb-4 viro-input"
+              />
+            </div>
+          ))}
+
+          {photoLayers.map((l) => (
+            <div key={l.id}>
+              <div className="flex items-center justify-between">
+                <label className="text-sm text-[var(--viro-muted)]">
+                  {photoLayers.length > 1 ? `Upload ${(l.label || "photo").toLowerCase()}` : "Upload photo"}
+                </label>
+                <button
+                  type="button"
+                  className="text-xs text-[var(--viro-primary)] hover:opacity-80"
+                  onClick={() => pickPhoto(l.id)}
+                >
+                  {photoUrls[l.id] ? "Change file" : "Choose file"}
+                </button>
+              </div>
 
-          <div className="flex items-center justify-between">
-            <label className="text-sm text-[var(--viro-muted)]">Upload photo</label>
-            <button
-              type="button"
-              className="text-xs text-[var(--viro-primary)] hover:opacity-80"
-              onClick={pickPhoto}
-            >
-              Choose file
-            </button>
-          </div>
+              <button
+                type="button"
+                onClick={() => pickPhoto(l.id)}
+                className="mt-2 mb-4 w-full viro-card p-4 border border-[var(--viro-border)] hover:opacity-90 transition"
+              >
+                <div className="text-sm font-semibold">{photoUrls[l.id] ? "Photo added ✅" : "Tap to upload"}</div>
+                <div className="text-xs text-[var(--viro-muted)] mt-1">
+                  Tip: use a clear face photo for best results.
+                </div>
+              </button>
 
-          <button
-            type="button"
-            onClick={pickPhoto}
-            className="mt-2 mb-4 w-full viro-card p-4 border border-[var(--viro-border)] hover:opacity-90 transition"
-          >
-            <div className="text-sm font-semibold">Tap to upload</div>
-            <div className="text-xs text-[var(--viro-muted)] mt-1">
-              Tip: use a clear face photo for best results.
+              {photoUrls[l.id] && (
+                <PhotoCropControls
+                  crop={crops[l.id] ?? cropFromFocus(faceCenters[l.id])}
+                  onChange={(c) => setCrop(l.id, c)}
+                  onReset={() => setCrop(l.id, cropFromFocus(faceCenters[l.id]))}
+                  hasFace={!!faceCenters[l.id]}
+                />
+              )}
             </div>
-          </button>
+          ))}
 
           <button
-            onClick={generateAndDownload}
-            disabled={generating || !name.trim() || !photoUrl || !event?.backgroundSignedUrl}
+            onClick={() => generateAndDownload([variantId])}
+            disabled={generating || !canGenerate}
             className="w-full viro-btn viro-btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {generating ? "Generating..." : "Generate & Download"}
           </button>
 
+          {variants.length > 1 && (
+            <button
+              type="button"
+              onClick={() => generateAndDownload(variants.map((v) => v.id))}
+              disabled={generating || !canGenerate}
+              className="mt-2 w-full viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Download all {variants.length} formats
+            </button>
+          )}
+
+          {tpl?.export?.pdf && (
+            <button
+              type="button"
+              onClick={downloadPrintPdf}
+              disabled={makingPdf || !canGenerate}
+              className="mt-2 w-full viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {makingPdf ? "Preparing PDF..." : "Download print PDF"}
+            </button>
+          )}
+
           {/* ✅ SHARE IMAGE BOX */}
           {didDownload && (
             <div className="mt-4 viro-card p-4 border border-[var(--viro-border)]">
@@ -629,6 +866,7 @@ export default function EventCodePage() {
                     href={whatsappHref}
                     target="_blank"
                     rel="noreferrer"
+                    onClick={() => track("shared", "whatsapp")}
                     className="flex-1 text-center viro-btn border border-[var(--viro-border)] bg-[rgba(37,211,102,0.1)] hover:bg-[rgba(37,211,102,0.2)] text-sm"
                   >
                     <div className="flex items-center justify-center gap-1">
@@ -644,7 +882,7 @@ export default function EventCodePage() {
                     onClick={() => {
                       // Instagram doesn't have a direct share URL like WhatsApp
                       // Best we can do is copy link and prompt user
-                      copyLink();
+                      copyLink("instagram");
                       alert("Link copied! Open Instagram and paste the link in your story or post.");
                     }}
                     className="flex-1 viro-btn border border-[var(--viro-border)] bg-[rgba(193,53,132,0.1)] hover:bg-[rgba(193,53,132,0.2)] text-sm"
@@ -659,7 +897,7 @@ export default function EventCodePage() {
 
                   <button
                     type="button"
-                    onClick={copyLink}
+                    onClick={() => copyLink()}
                     className="flex-1 viro-btn border border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90 text-sm"
                   >
                     {copied ? "✓ Copied" : "Copy Link"}
@@ -670,7 +908,10 @@ export default function EventCodePage() {
           )}
 
           <div className="mt-4 text-xs text-[var(--viro-muted)] space-y-1">
-            <div>• Output: 1080×1080 JPG</div>
+            <div>
+              • Output: {Math.round(size.width * outScale)}×{Math.round(size.height * outScale)} {imageExt.toUpperCase()}
+            </div>
+            {tpl?.export?.pdf && <div>• Print PDF with {tpl.export.pdf.bleed} mm bleed</div>}
             <div>• Perfect for IG / WhatsApp</div>
           </div>
 
@@ -689,9 +930,37 @@ export default function EventCodePage() {
               </span>
             </div>
 
+            {variants.length > 1 && (
+              <div className="flex flex-wrap justify-center gap-2 mb-4">
+                {variants.map((v) => {
+                  const active = v.id === variantId;
+                  return (
+                    <button
+                      key={v.id}
+                      type="button"
+                      onClick={() => setVariantId(v.id)}
+                      className={[
+                        "px-3 py-1.5 rounded-full text-xs font-semibold border transition",
+                        active
+                          ? "border-[var(--viro-primary)] bg-[rgba(255,138,42,0.12)]"
+                          : "border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)] hover:opacity-90",
+                      ].join(" ")}
+                    >
+                      {v.label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
             <div
               ref={previewRef}
-              className="relative w-full aspect-square max-w-[420px] mx-auto rounded-xl overflow-hidden shadow-2xl bg-black/20"
+              className="relative w-full mx-auto rounded-xl overflow-hidden shadow-2xl bg-black/20"
+              // Tall formats (stories, print) get narrower so the preview fits on screen
+              style={{
+                aspectRatio: `${size.width} / ${size.height}`,
+                maxWidth: Math.min(420, (600 * size.width) / size.height),
+              }}
             >
               {event?.backgroundSignedUrl ? (
                 <img
@@ -703,47 +972,137 @@ export default function EventCodePage() {
                 <div className="absolute inset-0 bg-black/20" />
               )}
 
-              <button
-                type="button"
-                onClick={pickPhoto}
-                className="absolute overflow-hidden bg-black/30"
-                style={photoStyle}
-                aria-label="Upload photo"
-                title="Tap to upload photo"
-              >
-                <div
-                  className="absolute inset-0"
-                  style={{
-                    borderRadius: photoShape === "circle" ? "9999px" : "12px",
-                    border: `2px solid ${textColor}`,
-                    boxShadow: "0 10px 30px rgba(0,0,0,0.35)",
-                  }}
-                />
-
-                {photoUrl ? (
-                  <img
-                    src={photoUrl}
-                    alt="photo"
-                    className="w-full h-full"
-                    style={previewPhotoStyle}
-                  />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center text-white/80 text-xs text-center flex-col gap-1 p-2">
-                    <span>Tap to upload</span>
-                  </div>
-                )}
-
-                {/* Spinner when recognizing face */}
-                {processingPhoto && (
-                  <div className="absolute inset-0 z-10 bg-black/50 flex items-center justify-center">
-                    <div className="w-8 h-8 rounded-full border-2 border-white/20 border-t-[var(--viro-primary)] animate-spin" />
-                  </div>
-                )}
-              </button>
-
-              <div className="absolute flex items-center justify-center font-extrabold text-center" style={textStyle}>
-                {name.trim() || "YOUR NAME"}
-              </div>
+              {layout.map((item) => {
+                switch (item.kind) {
+                  case "image": {
+                    const url = photoUrls[item.layer.id];
+                    const cutoutUrl = cutoutUrls[item.layer.id];
+                    // A cutout slot turns into a circle when its photo could not be cut out
+                    const shape = url ? photoSlotShape(item.layer, { cutout: !!cutoutUrl }) : item.layer.shape;
+                    const radius = shape === "circle" ? "9999px" : shape === "square" ? "12px" : "0px";
+                    const crop = crops[item.layer.id] ?? cropFromFocus(faceCenters[item.layer.id]);
+                    const sizePx = item.size * previewScale;
+
+                    // Cutouts, rings, glows and frames are painted by the export renderer itself
+                    const painted = !!cutoutUrl || hasPhotoSlotDecor(item.layer);
+                    const slotCanvas = painted && (
+                      <div className="absolute pointer-events-none" style={boxStyle(item.x, item.y, item.size, item.size)}>
+                        <PhotoSlotCanvas
+                          slot={item}
+                          url={cutoutUrl ?? url}
+                          cutout={!!cutoutUrl}
+                          crop={crop}
+                          frameUrl={item.layer.frame ? event?.assetUrls?.[item.layer.id] : null}
+                          sizePx={sizePx}
+                        />
+                      </div>
+                    );
+
+                    const outline = (
+                      <div
+                        className="absolute inset-0 pointer-events-none"
+                        style={{
+                          borderRadius: radius,
+                          border: `2px ${shape === "cutout" ? "dashed" : "solid"} ${accentColor}`,
+                          boxShadow: shape === "cutout" ? undefined : "0 10px 30px rgba(0,0,0,0.35)",
+                        }}
+                      />
+                    );
+
+                    if (!url) {
+                      return (
+                        <React.Fragment key={item.layer.id}>
+                          {slotCanvas}
+                          <button
+                            type="button"
+                            onClick={() => pickPhoto(item.layer.id)}
+                            className="absolute overflow-hidden bg-black/30"
+                            style={{ ...boxStyle(item.x, item.y, item.size, item.size), borderRadius: radius }}
+                            aria-label="Upload photo"
+                            title="Tap to upload photo"
+                          >
+                            {outline}
+                            <div className="w-full h-full flex items-center justify-center text-white/80 text-xs text-center flex-col gap-1 p-2">
+                              <span>Tap to upload</span>
+                            </div>
+                          </button>
+                        </React.Fragment>
+                      );
+                    }
+
+                    return (
+                      <React.Fragment key={item.layer.id}>
+                        {slotCanvas}
+                        <div
+                          className={`absolute overflow-hidden ${painted ? "" : "bg-black/30"}`}
+                          style={{ ...boxStyle(item.x, item.y, item.size, item.size), borderRadius: radius }}
+                          title="Drag to move, pinch or scroll to zoom"
+                        >
+                          <PhotoCropper
+                            url={cutoutUrl ?? url}
+                            crop={crop}
+                            onChange={(c) => setCrop(item.layer.id, c)}
+                            sizePx={sizePx}
+                            hideImage={painted}
+                          />
+                          {!painted && outline}
+
+                          {/* Spinner when recognizing face */}
+                          {processingLayerId === item.layer.id && (
+                            <div className="absolute inset-0 z-10 bg-black/50 flex items-center justify-center">
+                              <div className="w-8 h-8 rounded-full border-2 border-white/20 border-t-[var(--viro-primary)] animate-spin" />
+                            </div>
+                          )}
+                        </div>
+                      </React.Fragment>
+                    );
+                  }
+
+                  case "text":
+                    return (
+                      <div
+                        key={item.layer.id}
+                        className="absolute"
+                        style={boxStyle(item.x, item.y, item.w, item.h)}
+                      >
+                        <PosterText
+                          box={item}
+                          value={(values[item.layer.field] ?? "").trim() || item.layer.content || item.layer.label || ""}
+                          scale={previewScale}
+                        />
+                      </div>
+                    );
+
+                  case "shape":
+                    return (
+                      <div
+                        key={item.layer.id}
+                        className="absolute pointer-events-none"
+                        style={{
+                          ...boxStyle(item.x, item.y, item.w, item.h),
+                          background: item.layer.color,
+                          opacity: item.layer.opacity ?? 1,
+                          borderRadius:
+                            item.layer.shape === "ellipse" ? "50%" : (item.layer.radius ?? 0) * previewScale,
+                        }}
+                      />
+                    );
+
+                  case "logo": {
+                    const url = event?.assetUrls?.[item.layer.id];
+                    if (!url) return null;
+                    return (
+                      <img
+                        key={item.layer.id}
+                        src={url}
+                        alt="logo"
+                        className="absolute pointer-events-none object-contain"
+                        style={boxStyle(item.x, item.y, item.w, item.h)}
+                      />
+                    );
+                  }
+                }
+              })}
             </div>
 
             <div className="mt-4 text-xs text-[var(--viro-muted)] text-center">
@@ -2,6 +2,10 @@ import type { GetServerSideProps } from "next";
 import Head from "next/head";
 import { useEffect, useMemo, useRef, useState } from "react";
 import DraggableBox from "./DraggableBox";
+import type { Template } from "@/types/template";
+import { NAME_FIELD, createDefaultTemplate, imageLayers, textLayers, upgradeTemplate } from "@/lib/template";
+import { DEFAULT_FONT, POSTER_FONTS, findPosterFont } from "@/lib/poster/fonts";
+import { posterSize } from "@/lib/poster/render";
 
 type ServerProps =
   | { ok: true; eventCode: string; data: unknown }
@@ -13,22 +17,6 @@ type ServerProps =
       upstream?: unknown;
     };
 
-type Template = {
-  canvas: { width: number; height: number };
-  photo: { x: number; y: number; size: number; shape: "circle" };
-  text: {
-    x: number;
-    y: number;
-    w: number;
-    h: number;
-    content: string;
-    font: string;
-    color: string;
-    size: number;
-  };
-  background?: { url?: string };
-};
-
 type UpstreamEvent = { event?: { template?: unknown } };
 
 function safeJsonParse(text: string): unknown {
@@ -57,39 +45,7 @@ function getTemplateFromUpstream(data: unknown): Template | null {
   const t = evt.template;
   if (!isRecord(t)) return null;
 
-  const canvas = t.canvas;
-  const photo = t.photo;
-  const text = t.text;
-
-  if (!isRecord(canvas) || !isRecord(photo) || !isRecord(text)) return null;
-
-  const cw = typeof canvas.width === "number" ? canvas.width : 360;
-  const ch = typeof canvas.height === "number" ? canvas.height : 360;
-
-  const px = typeof photo.x === "number" ? photo.x : 0.5;
-  const py = typeof photo.y === "number" ? photo.y : 0.3;
-  const psize = typeof photo.size === "number" ? photo.size : 128;
-
-  const tx = typeof text.x === "number" ? text.x : 0.5;
-  const ty = typeof text.y === "number" ? text.y : 0.78;
-  const tw = typeof text.w === "number" ? text.w : 0.82;
-  const th = typeof text.h === "number" ? text.h : 0.14;
-
-  const content = typeof text.content === "string" ? text.content : "YOUR NAME";
-  const font = typeof text.font === "string" ? text.font : "Poppins";
-  const color = typeof text.color === "string" ? text.color : "#FFD54F";
-  const size = typeof text.size === "number" ? text.size : 44;
-
-  const bg = t.background;
-  const backgroundUrl =
-    isRecord(bg) && typeof bg.url === "string" ? bg.url : undefined;
-
-  return {
-    canvas: { width: cw, height: ch },
-    photo: { x: px, y: py, size: psize, shape: "circle" },
-    text: { x: tx, y: ty, w: tw, h: th, content, font, color, size },
-    background: backgroundUrl ? { url: backgroundUrl } : undefined,
-  };
+  return upgradeTemplate(t);
 }
 
 export const getServerSideProps: GetServerSideProps<ServerProps> = async (ctx) => {
@@ -136,20 +92,11 @@ export const getServerSideProps: GetServerSideProps<ServerProps> = async (ctx) =
   }
 };
 
-const FALLBACK: Template = {
-  canvas: { width: 360, height: 360 },
-  photo: { x: 0.5, y: 0.3, size: 128, shape: "circle" },
-  text: {
-    x: 0.5,
-    y: 0.78,
-    w: 0.82,
-    h: 0.14,
-    content: "YOUR NAME",
-    font: "Poppins",
-    color: "#FFD54F",
-    size: 44,
-  },
-};
+const FALLBACK: Template = createDefaultTemplate();
+
+/** Preview box width (height follows the canvas); positions are stored normalized, sizes in 1080-wide design px. */
+const PREVIEW = 360;
+const TO_PREVIEW = PREVIEW / 1080;
 
 export default function EditorByEventCode(props: ServerProps) {
   const canvasRef = useRef<HTMLDivElement>(null);
@@ -161,37 +108,46 @@ export default function EditorByEventCode(props: ServerProps) {
 
   const template = upstreamTemplate ?? FALLBACK;
 
+  // This quick editor only edits the main photo slot and name line; other layers are kept as-is
+  const photoLayer = imageLayers(template)[0];
+  const textLayer = textLayers(template).find((l) => l.field === NAME_FIELD) ?? textLayers(template)[0];
+  const size = posterSize(template);
+  const previewH = Math.round((PREVIEW * size.height) / size.width);
+
   // ✅ Hydration-safe: stable initial state (doesn't depend on template)
   const [photoPx, setPhotoPx] = useState<{ x: number; y: number }>({ x: 180, y: 110 });
   const [textPx, setTextPx] = useState<{ x: number; y: number }>({ x: 180, y: 280 });
 
-  const [photoSize, setPhotoSize] = useState<number>(128);
+  const [photoSize, setPhotoSize] = useState<number>(220);
   const [content, setContent] = useState<string>("YOUR NAME");
-  const [font, setFont] = useState<string>("Poppins");
-  const [color, setColor] = useState<string>("#FFD54F");
-  const [textSize, setTextSize] = useState<number>(44);
+  const [font, setFont] = useState<string>(DEFAULT_FONT);
+  const [color, setColor] = useState<string>("#FFFFFF");
+  const [textSize, setTextSize] = useState<number>(36);
 
   const [saving, setSaving] = useState(false);
   const [saveMsg, setSaveMsg] = useState("");
 
   // ✅ After mount + whenever template changes, sync state
   useEffect(() => {
-    setPhotoPx({
-      x: Math.round(clamp01(template.photo.x) * template.canvas.width),
-      y: Math.round(clamp01(template.photo.y) * template.canvas.height),
-    });
-
-    setTextPx({
-      x: Math.round(clamp01(template.text.x) * template.canvas.width),
-      y: Math.round(clamp01(template.text.y) * template.canvas.height),
-    });
-
-    setPhotoSize(template.photo.size);
-    setContent(template.text.content);
-    setFont(template.text.font);
-    setColor(template.text.color);
-    setTextSize(template.text.size);
-  }, [template]);
+    if (photoLayer) {
+      setPhotoPx({
+        x: Math.round(clamp01(photoLayer.x) * PREVIEW),
+        y: Math.round(clamp01(photoLayer.y) * previewH),
+      });
+      setPhotoSize(photoLayer.size);
+    }
+
+    if (textLayer) {
+      setTextPx({
+        x: Math.round(clamp01(textLayer.x) * PREVIEW),
+        y: Math.round(clamp01(textLayer.y) * previewH),
+      });
+      setContent(textLayer.content ?? "YOUR NAME");
+      setFont(findPosterFont(textLayer.font).family);
+      setColor(textLayer.color);
+      setTextSize(textLayer.size);
+    }
+  }, [photoLayer, textLayer, previewH]);
 
   const save = async () => {
     if (!props.ok || !canvasRef.current) return;
@@ -202,24 +158,33 @@ export default function EditorByEventCode(props: ServerProps) {
     const w = canvasRef.current.offsetWidth;
     const h = canvasRef.current.offsetHeight;
 
+    // The loaded watermark is already resolved against the plan; leaving it out
+    // makes update-template keep the organizer's stored setting
     const nextTemplate: Template = {
-      canvas: { width: w, height: h },
-      photo: {
-        x: clamp01(photoPx.x / w),
-        y: clamp01(photoPx.y / h),
-        size: Math.max(40, Math.min(280, Math.round(photoSize))),
-        shape: "circle",
-      },
-      text: {
-        x: clamp01(textPx.x / w),
-        y: clamp01(textPx.y / h),
-        w: template.text.w,
-        h: template.text.h,
-        content: content || "YOUR NAME",
-        font: font || "Poppins",
-        color: color || "#FFFFFF",
-        size: Math.max(14, Math.min(120, Math.round(textSize))),
-      },
+      ...template,
+      watermark: undefined,
+      layers: template.layers.map((l) => {
+        if (l.id === photoLayer?.id && l.kind === "image") {
+          return {
+            ...l,
+            x: clamp01(photoPx.x / w),
+            y: clamp01(photoPx.y / h),
+            size: Math.max(120, Math.min(840, Math.round(photoSize))),
+          };
+        }
+        if (l.id === textLayer?.id && l.kind === "text") {
+          return {
+            ...l,
+            x: clamp01(textPx.x / w),
+            y: clamp01(textPx.y / h),
+            content: content || "YOUR NAME",
+            font: findPosterFont(font).family,
+            color: color || "#FFFFFF",
+            size: Math.max(14, Math.min(120, Math.round(textSize))),
+          };
+        }
+        return l;
+      }),
       background: { url: template.background?.url || "" },
     };
 
@@ -266,11 +231,17 @@ export default function EditorByEventCode(props: ServerProps) {
           />
 
           <label className="block text-sm mb-2">Font</label>
-          <input
+          <select
             value={font}
             onChange={(e) => setFont(e.target.value)}
             className="w-full mb-4 px-3 py-2 rounded bg-neutral-800 border border-neutral-700"
-          />
+          >
+            {POSTER_FONTS.map((f) => (
+              <option key={f.family} value={f.family}>
+                {f.family}
+              </option>
+            ))}
+          </select>
 
           <label className="block text-sm mb-2">Color</label>
           <input
@@ -309,12 +280,13 @@ export default function EditorByEventCode(props: ServerProps) {
         <section className="flex-1 bg-neutral-950 flex items-center justify-center">
           <div
             ref={canvasRef}
-            className="relative bg-neutral-800 rounded-xl shadow-lg w-[360px] h-[360px] overflow-hidden"
+            className="relative bg-neutral-800 rounded-xl shadow-lg overflow-hidden"
+            style={{ width: PREVIEW, height: previewH }}
           >
             <DraggableBox x={photoPx.x} y={photoPx.y} onStop={(x, y) => setPhotoPx({ x, y })}>
               <div
                 className="rounded-full border-2 border-dashed border-yellow-500 flex items-center justify-center text-xs text-yellow-400 bg-neutral-900"
-                style={{ width: photoSize, height: photoSize }}
+                style={{ width: photoSize * TO_PREVIEW, height: photoSize * TO_PREVIEW }}
               >
                 Photo
               </div>
@@ -324,9 +296,9 @@ export default function EditorByEventCode(props: ServerProps) {
               <div
                 className="bg-neutral-900 border border-yellow-500 rounded text-center"
                 style={{
-                  width: Math.round(template.text.w * 360),
+                  width: Math.round((textLayer?.w ?? 0.82) * PREVIEW),
                   padding: "10px 12px",
-                  fontFamily: font,
+                  fontFamily: `"${font}", ${findPosterFont(font).fallback}`,
                   color,
                   fontWeight: 800,
                   fontSize: 18,
@@ -1,24 +1,156 @@
 import Head from "next/head";
 import { useRouter } from "next/router";
-import { useEffect, useRef, useState, useMemo } from "react";
+import { useCallback, useEffect, useRef, useState, useMemo } from "react";
 import ResizableCircle from "../../editor/ResizableCircle"; // Keep original path for ResizableCircle
+import DraggableBox from "../DraggableBox";
+import TemplateHistoryPanel from "@/components/editor/TemplateHistoryPanel";
+import PhotoSlotCanvas from "@/components/poster/PhotoSlotCanvas";
+import PosterText from "@/components/poster/PosterText";
+import ShareKitPanel from "@/components/share/ShareKitPanel";
+import type { EventStatus } from "@/lib/eventAvailability";
 import { supabaseBrowser } from "@/lib/supabase/client"; // Add supabaseBrowser import
 import { normalizeStoragePath } from "@/lib/storagePath"; // Add helper import
-import type { Template } from "@/types/template"; // Keep type import for Template
-import Draggable from "react-draggable";
+import type {
+  ImageLayer,
+  Layer,
+  LayerKind,
+  PhotoFilter,
+  PhotoTone,
+  PosterExport,
+  PosterShare,
+  PosterWatermark,
+  Template,
+  TemplateVariant,
+  TextTransform,
+} from "@/types/template"; // Keep type import for Template
+import { DEFAULT_FONT, DEFAULT_FONT_WEIGHT, POSTER_FONTS, findPosterFont, nearestFontWeight } from "@/lib/poster/fonts";
+import { isPhotoFilterActive } from "@/lib/poster/photoFilter";
+import { CANVAS_PRESETS, findCanvasPreset } from "@/lib/poster/presets";
+import {
+  DESIGN_W,
+  WATERMARK_MARGIN,
+  designScale,
+  hasPhotoSlotDecor,
+  posterSize,
+  watermarkAnchor,
+} from "@/lib/poster/render";
+import { PLANS, effectiveWatermark, fetchOrganizerPlan, type OrganizerPlan } from "@/lib/plans";
+import { DEFAULT_SHARE_MESSAGE, formatShareText } from "@/lib/share";
+import {
+  DEFAULT_WATERMARK,
+  MAIN_VARIANT_ID,
+  NAME_FIELD,
+  TEMPLATE_LIMITS,
+  TEMPLATE_VERSION,
+  WATERMARK_ASSET_ID,
+  WATERMARK_POSITIONS,
+  createDefaultTemplate,
+  layerAssetPaths,
+  newLayerId,
+  resolveVariant,
+  sortLayers,
+  templateVariants,
+  upgradeTemplate,
+} from "@/lib/template";
 
 type UploadOk = { ok: true; path: string };
 type UploadErr = { ok: false; error: string };
 
-type PublishOk = { ok: true; eventId: string; eventCode: string; shareUrl?: string };
+type PublishOk = {
+  ok: true;
+  eventId: string;
+  eventCode: string;
+  shareUrl?: string;
+  publishAt: string | null;
+  expiresAt: string | null;
+};
 type PublishErr = { ok: false; status: number; error: string; message?: string };
 
-const OUT_W = 1080;
-const OUT_H = 1080;
+type LifecycleOk = { ok: true; eventId: string; status: EventStatus };
+
+// Preview box fits in 420x560, keeping the canvas aspect ratio
+const PREVIEW_MAX_W = 420;
+const PREVIEW_MAX_H = 560;
+
+const sliderClass = `flex-1 h-2 bg-[var(--viro-border)] rounded-lg appearance-none cursor-pointer
+  [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4
+  [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[var(--viro-primary)]
+  [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4
+  [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-[var(--viro-primary)]
+  [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer`;
+
+const FONT_WEIGHT_NAMES: Record<number, string> = {
+  400: "Regular",
+  600: "Semibold",
+  700: "Bold",
+  800: "Extra bold",
+  900: "Black",
+};
+
+const PHOTO_TONE_NAMES: Record<PhotoTone, string> = {
+  none: "Original",
+  grayscale: "Black & white",
+  sepia: "Sepia",
+  duotone: "Duotone",
+};
+
+const NO_PHOTO_FILTER: PhotoFilter = { tone: "none", brightness: 100, contrast: 100, saturation: 100 };
+
+const LAYER_NAMES: Record<LayerKind, string> = {
+  image: "Photo",
+  text: "Text",
+  shape: "Shape",
+  logo: "Logo",
+};
+
+function layerTitle(l: Layer): string {
+  if (l.kind === "text") return `${LAYER_NAMES.text} · ${l.label || l.field}`;
+  if (l.kind === "image" && l.label) return `${LAYER_NAMES.image} · ${l.label}`;
+  return LAYER_NAMES[l.kind];
+}
+
+// ISO timestamp <-> <input type="datetime-local"> value (local time, minute precision)
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function fromLocalInput(v: string): string | null {
+  if (!v) return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
 
-// Preview box fixed at 420x420
-const PREVIEW_W = 420;
-const PREVIEW_H = 420;
+function makeLayer(kind: LayerKind, z: number): Layer {
+  const id = newLayerId(kind);
+  switch (kind) {
+    case "image":
+      return { id, kind, z, x: 0.5, y: 0.4, size: 220, shape: "circle", label: "Photo" };
+    case "text":
+      return {
+        id,
+        kind,
+        z,
+        field: `field_${id.slice(-4)}`,
+        label: "Role",
+        x: 0.5,
+        y: 0.88,
+        w: 0.6,
+        h: 0.08,
+        content: "ROLE",
+        font: DEFAULT_FONT,
+        color: "#FFFFFF",
+        size: 28,
+      };
+    case "shape":
+      return { id, kind, z, x: 0.5, y: 0.88, w: 0.6, h: 0.08, shape: "rect", color: "#000000", opacity: 0.5, radius: 16 };
+    case "logo":
+      return { id, kind, z, x: 0.85, y: 0.12, w: 0.2, h: 0.12, src: "" };
+  }
+}
 
 export default function DraftEditor() {
   const router = useRouter();
@@ -27,15 +159,25 @@ export default function DraftEditor() {
 
   const canvasRef = useRef<HTMLDivElement>(null);
 
-  // preview positions (px)
-  const [photoPos, setPhotoPos] = useState({ x: 120, y: 90 });
-  const [photoSize, setPhotoSize] = useState(128); // diameter in pixels
-  const [textPos, setTextPos] = useState({ x: 40, y: 270 });
-  const [fontSize, setFontSize] = useState(38); // font size in pixels
-  const [textColor, setTextColor] = useState("#FFD54F");
-  const [namePlaceholder, setNamePlaceholder] = useState("YOUR NAME");
+  // Template layers in template space (normalized x/y, 1080-space sizes)
+  const [layers, setLayers] = useState<Layer[]>(() => createDefaultTemplate().layers);
+  const [canvas, setCanvas] = useState<Template["canvas"]>(() => createDefaultTemplate().canvas);
+  // Extra layouts (story, link…) and the one being edited; variants only store placements
+  const [variants, setVariants] = useState<TemplateVariant[]>([]);
+  const [variantId, setVariantId] = useState(MAIN_VARIANT_ID);
+  // Download options; undefined keeps the 1× JPEG default
+  const [exportOptions, setExportOptions] = useState<PosterExport | undefined>(undefined);
+  // Watermark setting as saved; the preview shows what the organizer's plan lets through
+  const [watermark, setWatermark] = useState<PosterWatermark | undefined>(undefined);
+  const [plan, setPlan] = useState<OrganizerPlan>("free");
+  // Share copy; hashtags are edited as free text and parsed on every change
+  const [share, setShare] = useState<PosterShare | undefined>(undefined);
+  const [hashtagsText, setHashtagsText] = useState("");
+  const [eventName, setEventName] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>("name");
+  // Local/signed previews for logo layers, keyed by layer id
+  const [assetPreviews, setAssetPreviews] = useState<Record<string, string>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const dragRef = useRef<HTMLDivElement>(null); // Ref for draggable node
 
   const [bgPath, setBgPath] = useState<string | null>(null);
   const [bgPreviewUrl, setBgPreviewUrl] = useState<string | null>(null);
@@ -46,63 +188,177 @@ export default function DraftEditor() {
   // After publish, show share link instead of redirecting to attendee
   const [publishedCode, setPublishedCode] = useState<string | null>(null);
 
-  // Limit name to 12 characters
-  const maxNameLength = 12;
-  const handleNameChange = (value: string) => {
-    if (value.length <= maxNameLength) {
-      setNamePlaceholder(value);
+  // Lifecycle + optional publishing window (datetime-local values)
+  const [status, setStatus] = useState<EventStatus>("draft");
+  const [opensAt, setOpensAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+
+  // Code assigned at creation (kept across publishes) and an optional vanity replacement
+  const [currentCode, setCurrentCode] = useState<string | null>(null);
+  const [customCode, setCustomCode] = useState("");
+
+  // Bumped after each save so the history panel reloads
+  const [historyKey, setHistoryKey] = useState(0);
+
+  const draft = useMemo<Template>(
+    () => ({
+      version: TEMPLATE_VERSION,
+      canvas,
+      layers,
+      variants: variants.length ? variants : undefined,
+      export: exportOptions,
+      watermark,
+      share,
+      background: { url: bgPath || "" },
+    }),
+    [canvas, layers, variants, exportOptions, watermark, share, bgPath]
+  );
+  const layouts = templateVariants(draft);
+  // The template as laid out in the variant being edited
+  const view = useMemo(() => resolveVariant(draft, variantId) ?? draft, [draft, variantId]);
+  const orderedLayers = useMemo(() => sortLayers(view.layers), [view]);
+
+  // Output size and its preview box; layer sizes are design px (1080 wide canvas)
+  const outSize = posterSize(view);
+  const previewW = Math.round(Math.min(PREVIEW_MAX_W, (PREVIEW_MAX_H * outSize.width) / outSize.height));
+  const previewH = Math.round((previewW * outSize.height) / outSize.width);
+  // Design px -> preview px
+  const toPreview = previewW / DESIGN_W;
+  // Design px -> output px
+  const outScale = designScale(outSize);
+  const canvasPreset = findCanvasPreset(view.canvas);
+  const selected = view.layers.find((l) => l.id === selectedId) ?? null;
+  const selectedFont = findPosterFont(selected?.kind === "text" ? selected.font : undefined);
+  const planFeatures = PLANS[plan];
+  const watermarkSetting = watermark ?? DEFAULT_WATERMARK;
+  const shownWatermark = effectiveWatermark(watermark, plan);
+  const watermarkLogoUrl = assetPreviews[WATERMARK_ASSET_ID];
+
+  // In a variant, position and size go to its placement; styling always edits the shared layer
+  const updateLayer = (id: string, patch: Partial<Layer>) => {
+    if (variantId !== MAIN_VARIANT_ID) {
+      const { x, y, w, h, size, ...rest } = patch as Partial<Record<"x" | "y" | "w" | "h" | "size", number>>;
+      const placement = Object.fromEntries(
+        Object.entries({ x, y, w, h, size }).filter(([, v]) => v !== undefined)
+      );
+      if (Object.keys(placement).length) {
+        setVariants((prev) =>
+          prev.map((v) =>
+            v.id === variantId
+              ? { ...v, placements: { ...v.placements, [id]: { ...v.placements[id], ...placement } } }
+              : v
+          )
+        );
+      }
+      patch = rest as Partial<Layer>;
+      if (!Object.keys(patch).length) return;
     }
+    setLayers((prev) => prev.map((l) => (l.id === id ? ({ ...l, ...patch } as Layer) : l)));
   };
 
-  const saveDraftTemplate = async () => {
-    if (!eventId) return;
-    if (!canvasRef.current) return;
+  const setViewCanvas = (next: Template["canvas"]) => {
+    if (variantId === MAIN_VARIANT_ID) setCanvas(next);
+    else {
+      const label = findCanvasPreset(next)?.label;
+      setVariants((prev) => prev.map((v) => (v.id === variantId ? { ...v, canvas: next, label: label ?? v.label } : v)));
+    }
+  };
 
-    setLoading(true);
-    setMsg(null);
+  // New layouts start from the main positions; the organizer then moves what needs moving
+  const addVariant = (presetId: string) => {
+    const preset = CANVAS_PRESETS.find((p) => p.id === presetId);
+    if (!preset) return;
+
+    const taken = new Set(layouts.map((v) => v.id));
+    let id: string = preset.id;
+    for (let n = 2; taken.has(id); n++) id = `${preset.id}-${n}`;
+
+    setVariants((prev) => [
+      ...prev,
+      {
+        id,
+        label: preset.label,
+        canvas: { width: preset.width, height: preset.height, preset: preset.id },
+        placements: {},
+      },
+    ]);
+    setVariantId(id);
+  };
 
-    const previewWidth = canvasRef.current.offsetWidth || PREVIEW_W;
-    const previewHeight = canvasRef.current.offsetHeight || PREVIEW_H;
+  const updateExport = (patch: Partial<PosterExport>) => {
+    setExportOptions((prev) => ({ format: "jpeg", scale: 1, ...prev, ...patch }));
+  };
 
-    // DraggableBox positions represent top-left of the slot in UI.
-    const PHOTO_UI_SIZE = photoSize; // Use dynamic size
-    const NAME_UI_W = 280;
-    const NAME_UI_H = 56; // approx
+  const updateWatermark = (patch: Partial<PosterWatermark>) => {
+    setWatermark((prev) => ({ ...DEFAULT_WATERMARK, ...prev, ...patch }));
+  };
 
-    const photoCenterX = photoPos.x + PHOTO_UI_SIZE / 2;
-    const photoCenterY = photoPos.y + PHOTO_UI_SIZE / 2;
+  const updateShare = (patch: Partial<PosterShare>) => {
+    setShare((prev) => ({ message: "", hashtags: [], ...prev, ...patch }));
+  };
 
-    const textCenterX = textPos.x + NAME_UI_W / 2;
-    const textCenterY = textPos.y + NAME_UI_H / 2;
+  const onHashtagsChange = (text: string) => {
+    setHashtagsText(text);
+    const tags = text
+      .split(/[\s,]+/)
+      .map((t) => t.replace(/^#+/, ""))
+      .filter(Boolean);
+    updateShare({ hashtags: Array.from(new Set(tags)).slice(0, TEMPLATE_LIMITS.maxHashtags) });
+  };
 
-    const photoXNorm = photoCenterX / previewWidth;
-    const photoYNorm = photoCenterY / previewHeight;
+  const removeVariant = (id: string) => {
+    setVariants((prev) => prev.filter((v) => v.id !== id));
+    if (variantId === id) setVariantId(MAIN_VARIANT_ID);
+  };
 
-    const textXNorm = textCenterX / previewWidth;
-    const textYNorm = textCenterY / previewHeight;
+  // An all-default filter is dropped so untouched templates stay unchanged
+  const updatePhotoFilter = (layer: ImageLayer, patch: Partial<PhotoFilter>) => {
+    const next = { ...NO_PHOTO_FILTER, ...layer.filter, ...patch };
+    if (next.tone === "duotone" && !next.duotone) next.duotone = { dark: "#1A237E", light: "#FFD54F" };
+    updateLayer(layer.id, { filter: isPhotoFilterActive(next) ? next : undefined });
+  };
 
-    const scaleToOut = OUT_W / previewWidth;
+  const addLayer = (kind: LayerKind) => {
+    const top = layers.reduce((m, l) => Math.max(m, l.z), -1);
+    const layer = makeLayer(kind, top + 1);
+    setLayers((prev) => [...prev, layer]);
+    setSelectedId(layer.id);
+  };
 
-    const template: Template = {
-      canvas: { width: OUT_W, height: OUT_H },
-      photo: {
-        x: photoXNorm,
-        y: photoYNorm,
-        size: Math.round(PHOTO_UI_SIZE * scaleToOut),
-        shape: "circle",
-      },
-      text: {
-        x: textXNorm,
-        y: textYNorm,
-        w: 0.82,
-        h: 0.14,
-        content: namePlaceholder || "YOUR NAME",
-        font: "Poppins",
-        color: textColor,
-        size: Math.round(fontSize * scaleToOut),
-      },
-      background: { url: bgPath || "" },
-    };
+  const removeLayer = (id: string) => {
+    setLayers((prev) => prev.filter((l) => l.id !== id));
+    setVariants((prev) =>
+      prev.map((v) => {
+        const placements = { ...v.placements };
+        delete placements[id];
+        return { ...v, placements };
+      })
+    );
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  // Swap z with the neighbour above (dir = 1) or below (dir = -1)
+  const moveLayer = (id: string, dir: 1 | -1) => {
+    const order = sortLayers(layers);
+    const i = order.findIndex((l) => l.id === id);
+    const j = i + dir;
+    if (i < 0 || j < 0 || j >= order.length) return;
+
+    const reordered = [...order];
+    [reordered[i], reordered[j]] = [reordered[j], reordered[i]];
+    const zById = new Map(reordered.map((l, z) => [l.id, z]));
+    setLayers((prev) => prev.map((l) => ({ ...l, z: zById.get(l.id) ?? l.z })));
+  };
+
+  /** Saves the draft template; resolves false when it was not saved (the reason is in `msg`). */
+  const saveDraftTemplate = async (): Promise<boolean> => {
+    if (!eventId) return false;
+    if (!canvasRef.current) return false;
+
+    setLoading(true);
+    setMsg(null);
+
+    const template = draft;
 
     try {
       const r = await fetch("/api/update-template", {
@@ -117,12 +373,15 @@ export default function DraftEditor() {
 
       if (!r.ok || !data.ok) {
         setMsg(!data.ok ? data.message || data.error : "Failed to save draft");
-        return;
+        return false;
       }
 
       setMsg("Draft saved ✅");
+      setHistoryKey((k) => k + 1);
+      return true;
     } catch (e) {
       setMsg(e instanceof Error ? e.message : "Unknown error");
+      return false;
     } finally {
       setLoading(false);
     }
@@ -140,13 +399,18 @@ export default function DraftEditor() {
     setMsg(null);
 
     try {
-      // Ensure latest template is saved before publishing (MVP-safe)
-      await saveDraftTemplate();
+      // Publish only what was just saved; a rejected template keeps its error message
+      if (!(await saveDraftTemplate())) return;
 
       const r = await fetch("/api/publish-event", {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ eventId }),
+        body: JSON.stringify({
+          eventId,
+          eventCode: customCode.trim() || undefined,
+          publishAt: fromLocalInput(opensAt),
+          expiresAt: fromLocalInput(closesAt),
+        }),
       });
 
       const data = (await r.json()) as PublishOk | PublishErr;
@@ -157,6 +421,11 @@ export default function DraftEditor() {
       }
 
       setPublishedCode(data.eventCode);
+      setCurrentCode(data.eventCode);
+      setCustomCode("");
+      setStatus("published");
+      setOpensAt(toLocalInput(data.publishAt));
+      setClosesAt(toLocalInput(data.expiresAt));
       setMsg("Published ✅ Copy and share the link below.");
     } catch (e) {
       setMsg(e instanceof Error ? e.message : "Unknown error");
@@ -165,6 +434,42 @@ export default function DraftEditor() {
     }
   };
 
+  // Unpublish / archive: takes the attendee page offline (link shows "closed")
+  const changeLifecycle = async (action: "unpublish" | "archive") => {
+    if (!eventId) return;
+
+    const prompt =
+      action === "archive"
+        ? "Archive this event? Attendees will no longer be able to create posters."
+        : "Unpublish this event? Attendees will see a closed page until you publish again.";
+    if (!window.confirm(prompt)) return;
+
+    setLoading(true);
+    setMsg(null);
+
+    try {
+      const r = await fetch(`/api/${action}-event`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ eventId }),
+      });
+
+      const data = (await r.json()) as LifecycleOk | PublishErr;
+
+      if (!r.ok || !data.ok) {
+        setMsg(!data.ok ? data.message || data.error : "Update failed");
+        return;
+      }
+
+      setStatus(data.status);
+      setMsg(action === "archive" ? "Event archived" : "Event unpublished");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const onPickBackground = async (file: File) => {
     if (!eventId) return;
 
@@ -203,6 +508,87 @@ export default function DraftEditor() {
     }
   };
 
+  // Logo files and photo frames; each layer owns one asset, stored under its id
+  const onPickLayerAsset = async (layer: Layer, file: File) => {
+    const layerId = layer.id;
+    if (!eventId) return;
+
+    setLoading(true);
+    setMsg(null);
+
+    try {
+      const form = new FormData();
+      form.append("eventId", eventId);
+      form.append("layerId", layerId);
+      form.append("file", file);
+
+      const r = await fetch("/api/upload-background", {
+        method: "POST",
+        body: form,
+      });
+
+      const data = (await r.json()) as UploadOk | UploadErr;
+
+      if (!r.ok || !data.ok) {
+        setMsg(!data.ok ? data.error : "Upload failed");
+        return;
+      }
+
+      updateLayer(
+        layerId,
+        layer.kind === "image" ? { frame: { src: data.path, scale: layer.frame?.scale ?? 1 } } : { src: data.path }
+      );
+
+      const prevPreview = assetPreviews[layerId];
+      if (prevPreview?.startsWith("blob:")) URL.revokeObjectURL(prevPreview);
+      setAssetPreviews((prev) => ({ ...prev, [layerId]: URL.createObjectURL(file) }));
+
+      setMsg(layer.kind === "image" ? "Frame uploaded ✅" : "Logo uploaded ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onPickWatermarkLogo = async (file: File) => {
+    if (!eventId) return;
+
+    setLoading(true);
+    setMsg(null);
+
+    try {
+      const form = new FormData();
+      form.append("eventId", eventId);
+      form.append("layerId", "watermark");
+      form.append("file", file);
+
+      const r = await fetch("/api/upload-background", {
+        method: "POST",
+        body: form,
+      });
+
+      const data = (await r.json()) as UploadOk | UploadErr;
+
+      if (!r.ok || !data.ok) {
+        setMsg(!data.ok ? data.error : "Upload failed");
+        return;
+      }
+
+      updateWatermark({ kind: "logo", src: data.path });
+
+      const prevPreview = assetPreviews[WATERMARK_ASSET_ID];
+      if (prevPreview?.startsWith("blob:")) URL.revokeObjectURL(prevPreview);
+      setAssetPreviews((prev) => ({ ...prev, [WATERMARK_ASSET_ID]: URL.createObjectURL(file) }));
+
+      setMsg("Watermark logo uploaded ✅");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Fetch event details on load
   useEffect(() => {
     if (!eventId) return;
@@ -230,6 +616,59 @@ export default function DraftEditor() {
 
   const supabase = useMemo(() => supabaseBrowser(), []);
 
+  // Loads a stored template into editor state (initial load and history restores)
+  const applyTemplate = useCallback(
+    async (t: Template, isCancelled: () => boolean = () => false) => {
+      if (t.background?.url) {
+        const raw = t.background.url;
+        const clean = normalizeStoragePath(raw);
+        setBgPath(clean || raw);
+
+        if (clean) {
+          // We need a signed URL for the preview to work
+          const { data: signed, error: signErr } = await supabase.storage
+            .from("vf-event-assets")
+            .createSignedUrl(clean, 3600);
+
+          if (signErr) console.error("Error signing background:", signErr);
+          if (isCancelled()) return;
+          if (signed?.signedUrl) setBgPreviewUrl(signed.signedUrl);
+        }
+      } else {
+        setBgPath(null);
+        setBgPreviewUrl(null);
+      }
+
+      // Layers are stored in template space (normalized x/y, 1080-space sizes),
+      // the preview converts on render, so no pixel recovery is needed here.
+      setCanvas(t.canvas);
+      setVariants(t.variants ?? []);
+      setExportOptions(t.export);
+      setWatermark(t.watermark);
+      setShare(t.share);
+      setHashtagsText((t.share?.hashtags ?? []).map((h) => `#${h}`).join(" "));
+      setVariantId(MAIN_VARIANT_ID);
+      setLayers(t.layers);
+      setSelectedId(t.layers.find((l) => l.kind === "text")?.id ?? t.layers[0]?.id ?? null);
+
+      const assets = layerAssetPaths(t);
+
+      const previews: Record<string, string> = {};
+      if (assets.length > 0) {
+        const { data: signedAssets } = await supabase.storage
+          .from("vf-event-assets")
+          .createSignedUrls(assets.map((l) => l.path), 3600);
+
+        if (isCancelled()) return;
+        signedAssets?.forEach((item, i) => {
+          if (item.signedUrl) previews[assets[i].id] = item.signedUrl;
+        });
+      }
+      setAssetPreviews(previews);
+    },
+    [supabase]
+  );
+
   useEffect(() => {
     if (!eventId) return;
 
@@ -239,7 +678,7 @@ export default function DraftEditor() {
     (async () => {
       const { data, error } = await supabase
         .from("events")
-        .select("template, published, event_code")
+        .select("template, name, published, event_code, status, publish_at, expires_at")
         .eq("id", eventId)
         .single();
 
@@ -254,77 +693,30 @@ export default function DraftEditor() {
       if (data.published && data.event_code) {
         setPublishedCode(data.event_code);
       }
+      setCurrentCode(data.event_code ?? null);
+      setEventName(data.name ?? "");
+      setStatus((data.status as EventStatus | null) ?? (data.published ? "published" : "draft"));
+      setOpensAt(toLocalInput(data.publish_at));
+      setClosesAt(toLocalInput(data.expires_at));
 
-      const t = data.template as Template | null;
-      if (t) {
-        // Restore state from template
-        if (t.background?.url) {
-          const raw = t.background.url;
-          const clean = normalizeStoragePath(raw);
-          setBgPath(clean || raw);
-
-          if (clean) {
-            // We need a signed URL for the preview to work
-            const { data: signed, error: signErr } = await supabase.storage
-              .from("vf-event-assets")
-              .createSignedUrl(clean, 3600);
-
-            if (signErr) console.error("Error signing background:", signErr);
-            if (signed?.signedUrl) setBgPreviewUrl(signed.signedUrl);
-          }
-        }
+      if (data.template) await applyTemplate(upgradeTemplate(data.template), () => cancelled);
+    })();
 
-        // Restore dimensions (converting normalized back to pixels if needed, though they are stored as numbers)
-        // Note: Our template stores normalized x/y (0-1) and size in 1080-space pixels.
-        // We need to convert these to the preview box space (420px) for the UI controls validation?
-        // Actually, the state variables `photoPos` `textPos` seem to represent offsets in PURPLE BOX coordinate space?
-        // DraggableBox `x` and `y` are pixels relative to parent.
-        // Our save logic did: x / previewWidth.
-        // So load logic should be: x * previewWidth.
-
-        // Wait, we need to know the previewWidth/Height to restore correctly. 
-        // It uses `canvasRef.current.offsetWidth` which might be 420.
-        // Let's assume PREVIEW_W = 420.
-
-        if (t.photo) {
-          const sizeOut = t.photo.size; // 1080 space
-          const sizePreview = Math.round(sizeOut * (PREVIEW_W / OUT_W));
-          setPhotoSize(sizePreview);
-
-          const xPreview = (t.photo.x * PREVIEW_W) - (sizePreview / 2);
-          const yPreview = (t.photo.y * PREVIEW_H) - (sizePreview / 2);
-          setPhotoPos({ x: xPreview, y: yPreview });
-        }
+    return () => { cancelled = true; };
+  }, [eventId, supabase, applyTemplate]);
 
-        if (t.text) {
-          const sizeOut = t.text.size;
-          const sizePreview = Math.round(sizeOut * (PREVIEW_W / OUT_W));
-          setFontSize(sizePreview / 0.4); // because we scale it down by 0.4 in the render? Wait.
-          // In render: fontSize: `${fontSize * 0.4}px`
-          // In save: size: Math.round(fontSize * scaleToOut)
-          // Let's stick to the state value which is the "slider value" (approx 24-72).
-          // Recovering exact slider value might be tricky due to rounding, but:
-          // savedSize = fontSize * (1080/420).
-          // fontSize = savedSize * (420/1080).
-          setFontSize(Math.round(sizeOut * (PREVIEW_W / OUT_W)));
-
-          if (t.text.color) setTextColor(t.text.color);
-          if (t.text.content) setNamePlaceholder(t.text.content);
-
-          // Center recovery
-          // Saved x is center. DraggableBox x is top-left.
-          // Width of text box is fixed 280px in UI?
-          const UI_W = 280;
-          const UI_H = 56;
-          const xPreview = (t.text.x * PREVIEW_W) - (UI_W / 2);
-          const yPreview = (t.text.y * PREVIEW_H) - (UI_H / 2);
-          setTextPos({ x: xPreview, y: yPreview });
-        }
-      }
+  // The plan only shapes the preview and locks options; renders enforce it server-side
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      const next = await fetchOrganizerPlan(supabase, data.user?.id ?? null);
+      if (!cancelled) setPlan(next);
     })();
 
     return () => { cancelled = true; };
-  }, [eventId, supabase]);
+  }, [supabase]);
 
   useEffect(() => {
     return () => {
@@ -371,10 +763,277 @@ export default function DraftEditor() {
               Upload background, customize slots, then publish to get a share link.
             </p>
 
+            {/* Layouts (variants) */}
+            <div className="mb-5">
+              <label className="block text-sm font-semibold mb-2">Layouts</label>
+              <div className="flex flex-wrap gap-2">
+                {layouts.map((v) => {
+                  const active = v.id === variantId;
+                  return (
+                    <div
+                      key={v.id}
+                      className={`flex items-center rounded-lg border text-xs ${
+                        active
+                          ? "border-[var(--viro-primary)] bg-[rgba(255,138,42,0.12)]"
+                          : "border-[var(--viro-border)] bg-[rgba(255,255,255,0.04)]"
+                      }`}
+                    >
+                      <button type="button" onClick={() => setVariantId(v.id)} className="px-3 py-1.5">
+                        {v.label}
+                      </button>
+                      {v.id !== MAIN_VARIANT_ID && (
+                        <button
+                          type="button"
+                          onClick={() => removeVariant(v.id)}
+                          className="pr-2 text-[var(--viro-muted)] hover:text-[var(--viro-danger)]"
+                          aria-label={`Remove ${v.label}`}
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {layouts.length <= TEMPLATE_LIMITS.maxVariants && (
+                <select
+                  value=""
+                  onChange={(e) => addVariant(e.target.value)}
+                  className="viro-input text-sm w-full mt-2"
+                >
+                  <option value="">+ Add layout…</option>
+                  {CANVAS_PRESETS.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label} · {p.width}×{p.height}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <p className="text-xs text-[var(--viro-muted)] mt-2">
+                {variantId === MAIN_VARIANT_ID
+                  ? "Extra layouts share the background, text and styling; attendees can download all of them."
+                  : "Moving or resizing here only changes this layout. Styling changes apply to every layout."}
+              </p>
+            </div>
+
+            {/* Canvas size */}
+            <div className="mb-5">
+              <label className="block text-sm font-semibold mb-2">Format</label>
+              <select
+                value={canvasPreset?.id ?? ""}
+                onChange={(e) => {
+                  const preset = CANVAS_PRESETS.find((p) => p.id === e.target.value);
+                  if (preset) setViewCanvas({ width: preset.width, height: preset.height, preset: preset.id });
+                }}
+                className="viro-input text-sm w-full"
+              >
+                {!canvasPreset && (
+                  <option value="">
+                    Custom ({view.canvas.width}×{view.canvas.height})
+                  </option>
+                )}
+                {CANVAS_PRESETS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label} · {p.width}×{p.height}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-[var(--viro-muted)] mt-2">
+                Positions and sizes follow the canvas, so switching keeps the design&apos;s proportions.
+              </p>
+            </div>
+
+            {/* Export */}
+            <div className="mb-5">
+              <label className="block text-sm font-semibold mb-2">Attendee download</label>
+              <div className="grid grid-cols-2 gap-3">
+                <select
+                  value={exportOptions?.format ?? "jpeg"}
+                  onChange={(e) => updateExport({ format: e.target.value as PosterExport["format"] })}
+                  className="viro-input text-sm"
+                >
+                  <option value="jpeg">JPEG (small)</option>
+                  <option value="png">PNG (lossless)</option>
+                </select>
+                <select
+                  value={exportOptions?.scale ?? 1}
+                  onChange={(e) => updateExport({ scale: Number(e.target.value) })}
+                  className="viro-input text-sm"
+                >
+                  <option value={1}>1× ({outSize.width}px wide)</option>
+                  <option value={2}>2× high-res</option>
+                  <option value={3}>3× high-res</option>
+                </select>
+              </div>
+
+              <label className="mt-3 flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!exportOptions?.pdf}
+                  onChange={(e) => updateExport({ pdf: e.target.checked ? { bleed: 3, cropMarks: true } : undefined })}
+                />
+                Offer a print PDF
+              </label>
+              {exportOptions?.pdf && (
+                <div className="mt-2 flex items-center gap-3 text-sm">
+                  <span className="text-[var(--viro-muted)]">Bleed</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={TEMPLATE_LIMITS.maxBleedMm}
+                    step={0.5}
+                    value={exportOptions.pdf.bleed}
+                    onChange={(e) => {
+                      const bleed = Math.max(0, Math.min(TEMPLATE_LIMITS.maxBleedMm, Number(e.target.value) || 0));
+                      updateExport({ pdf: { ...exportOptions.pdf!, bleed } });
+                    }}
+                    className="viro-input text-sm w-20"
+                  />
+                  <span className="text-[var(--viro-muted)]">mm</span>
+                  <label className="flex items-center gap-2 ml-auto">
+                    <input
+                      type="checkbox"
+                      checked={exportOptions.pdf.cropMarks}
+                      onChange={(e) => updateExport({ pdf: { ...exportOptions.pdf!, cropMarks: e.target.checked } })}
+                    />
+                    Crop marks
+                  </label>
+                </div>
+              )}
+              <p className="text-xs text-[var(--viro-muted)] mt-2">
+                PDFs are 300 dpi at the canvas size; pick an A5/A4 format for true paper sizes.
+              </p>
+            </div>
+
+            {/* Watermark */}
+            <div className="mb-5">
+              <label className="block text-sm font-semibold mb-2">Watermark</label>
+              <div className="grid grid-cols-2 gap-3">
+                <select
+                  value={watermarkSetting.kind}
+                  onChange={(e) => {
+                    const kind = e.target.value as PosterWatermark["kind"];
+                    updateWatermark({ kind, text: kind === "text" ? (watermarkSetting.text ?? DEFAULT_WATERMARK.text) : undefined });
+                  }}
+                  className="viro-input text-sm"
+                >
+                  <option value="text">Text</option>
+                  <option value="logo" disabled={!planFeatures.customWatermark}>
+                    Logo{planFeatures.customWatermark ? "" : " (Pro)"}
+                  </option>
+                  <option value="none" disabled={!planFeatures.removeWatermark}>
+                    None{planFeatures.removeWatermark ? "" : " (Pro)"}
+                  </option>
+                </select>
+                <select
+                  value={watermarkSetting.position}
+                  onChange={(e) => updateWatermark({ position: e.target.value as PosterWatermark["position"] })}
+                  className="viro-input text-sm"
+                  disabled={watermarkSetting.kind === "none"}
+                >
+                  {WATERMARK_POSITIONS.map((p) => (
+                    <option key={p} value={p}>
+                      {p.replace("-", " ")}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {watermarkSetting.kind === "text" && (
+                <input
+                  value={planFeatures.customWatermark ? (watermarkSetting.text ?? "") : DEFAULT_WATERMARK.text}
+                  onChange={(e) => updateWatermark({ text: e.target.value })}
+                  disabled={!planFeatures.customWatermark}
+                  maxLength={TEMPLATE_LIMITS.maxText}
+                  className="viro-input text-sm w-full mt-3"
+                />
+              )}
+
+              {watermarkSetting.kind === "logo" && (
+                <input
+                  type="file"
+                  accept="image/png,image/webp"
+                  className="block w-full text-sm text-[var(--viro-muted)] mt-3
+                    file:mr-3 file:rounded-lg file:border-0
+                    file:bg-[var(--viro-primary)] file:px-3 file:py-1.5
+                    file:text-sm file:font-semibold file:text-white"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    if (f) void onPickWatermarkLogo(f);
+                  }}
+                />
+              )}
+
+              {watermarkSetting.kind !== "none" && (
+                <>
+                  <div className="mt-3 flex items-center gap-3">
+                    <span className="text-xs text-[var(--viro-muted)] w-16">Opacity</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      value={Math.round(watermarkSetting.opacity * 100)}
+                      onChange={(e) => updateWatermark({ opacity: Number(e.target.value) / 100 })}
+                      className={sliderClass}
+                    />
+                    <span className="text-xs w-10 text-right">{Math.round(shownWatermark.opacity * 100)}%</span>
+                  </div>
+                  <div className="mt-2 flex items-center gap-3">
+                    <span className="text-xs text-[var(--viro-muted)] w-16">Size</span>
+                    <input
+                      type="range"
+                      min="8"
+                      max="400"
+                      value={watermarkSetting.size}
+                      onChange={(e) => updateWatermark({ size: Number(e.target.value) })}
+                      className={sliderClass}
+                    />
+                    <span className="text-xs w-10 text-right">{Math.round(shownWatermark.size)}</span>
+                  </div>
+                </>
+              )}
+
+              {!planFeatures.removeWatermark && (
+                <p className="text-xs text-[var(--viro-muted)] mt-2">
+                  The {planFeatures.label} plan always shows the ViroEvents mark. Upgrade to Pro to use your own text or
+                  logo, or to remove it.
+                </p>
+              )}
+            </div>
+
+            {/* Share copy */}
+            <div className="mb-5">
+              <label className="block text-sm font-semibold mb-2">Share message</label>
+              <textarea
+                value={share?.message ?? ""}
+                onChange={(e) => updateShare({ message: e.target.value })}
+                placeholder={DEFAULT_SHARE_MESSAGE}
+                maxLength={TEMPLATE_LIMITS.maxShareMessage}
+                rows={3}
+                className="viro-input text-sm w-full"
+              />
+              <input
+                value={hashtagsText}
+                onChange={(e) => onHashtagsChange(e.target.value)}
+                placeholder="#hashtags"
+                className="viro-input text-sm w-full mt-2"
+              />
+              <p className="text-xs text-[var(--viro-muted)] mt-2">
+                Use {"{name}"}, {"{event}"} and {"{link}"}. Attendees share:
+              </p>
+              <p className="text-xs mt-1 whitespace-pre-line rounded-lg border border-[var(--viro-border)] p-2">
+                {formatShareText(share, {
+                  name: "Jane Doe",
+                  event: eventName || "your event",
+                  link: shareUrl ?? "https://…/e/CODE",
+                })}
+              </p>
+            </div>
+
             {/* Background Upload */}
             <div className="mb-5">
               <label className="block text-sm font-semibold mb-2">
-                Flyer background (1:1)
+                Flyer background ({outSize.width}×{outSize.height})
               </label>
               <input
                 type="file"
@@ -390,89 +1049,806 @@ export default function DraftEditor() {
               />
             </div>
 
-            {/* Photo Size Control */}
+            {eventId && (
+              <TemplateHistoryPanel
+                eventId={eventId}
+                refreshKey={historyKey}
+                onRestored={(t) => {
+                  void applyTemplate(t);
+                  setMsg("Version restored ✅");
+                }}
+              />
+            )}
+
+            {/* Layers */}
             <div className="mb-5">
-              <label className="block text-sm font-semibold mb-2">
-                Photo Frame Size
-              </label>
-              <div className="flex items-center gap-3">
-                <input
-                  type="range"
-                  min="64"
-                  max="300"
-                  value={photoSize}
-                  onChange={(e) => setPhotoSize(Number(e.target.value))}
-                  className="flex-1 h-2 bg-[var(--viro-border)] rounded-lg appearance-none cursor-pointer
-                    [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4
-                    [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[var(--viro-primary)]
-                    [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4
-                    [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-[var(--viro-primary)]
-                    [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer"
-                />
-                <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
-                  {photoSize}px
-                </span>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-semibold">Layers</label>
+                <span className="text-xs text-[var(--viro-muted)]">Top draws last</span>
               </div>
-            </div>
 
-            {/* Font Size Control */}
-            <div className="mb-5">
-              <label className="block text-sm font-semibold mb-2">
-                Name Font Size
-              </label>
-              <div className="flex items-center gap-3">
-                <input
-                  type="range"
-                  min="24"
-                  max="72"
-                  value={fontSize}
-                  onChange={(e) => setFontSize(Number(e.target.value))}
-                  className="flex-1 h-2 bg-[var(--viro-border)] rounded-lg appearance-none cursor-pointer
-                    [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4
-                    [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[var(--viro-primary)]
-                    [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4
-                    [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-[var(--viro-primary)]
-                    [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer"
-                />
-                <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
-                  {fontSize}px
-                </span>
+              <div className="space-y-1">
+                {[...orderedLayers].reverse().map((l, i, arr) => (
+                  <div
+                    key={l.id}
+                    className={`flex items-center gap-2 rounded-lg border px-2 py-1.5 text-sm cursor-pointer ${
+                      l.id === selectedId
+                        ? "border-[var(--viro-primary)] bg-white/10"
+                        : "border-[var(--viro-border)] hover:bg-white/5"
+                    }`}
+                    onClick={() => setSelectedId(l.id)}
+                  >
+                    <span className="flex-1 truncate">{layerTitle(l)}</span>
+                    <button
+                      type="button"
+                      className="px-1 text-xs text-[var(--viro-muted)] hover:text-white disabled:opacity-30"
+                      disabled={i === 0}
+                      onClick={(e) => { e.stopPropagation(); moveLayer(l.id, 1); }}
+                      title="Bring forward"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      type="button"
+                      className="px-1 text-xs text-[var(--viro-muted)] hover:text-white disabled:opacity-30"
+                      disabled={i === arr.length - 1}
+                      onClick={(e) => { e.stopPropagation(); moveLayer(l.id, -1); }}
+                      title="Send backward"
+                    >
+                      ▼
+                    </button>
+                    <button
+                      type="button"
+                      className="px-1 text-xs text-[var(--viro-danger)] hover:opacity-80"
+                      onClick={(e) => { e.stopPropagation(); removeLayer(l.id); }}
+                      title="Delete layer"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-2 grid grid-cols-4 gap-1">
+                {(Object.keys(LAYER_NAMES) as LayerKind[]).map((kind) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => addLayer(kind)}
+                    className="rounded-lg border border-[var(--viro-border)] bg-white/5 hover:bg-white/10 py-1.5 text-xs"
+                  >
+                    + {LAYER_NAMES[kind]}
+                  </button>
+                ))}
               </div>
             </div>
 
-            {/* Name Placeholder */}
+            {/* Selected layer */}
+            {selected?.kind === "image" && (
+              <>
+                <div className="mb-5">
+                  <label className="block text-sm font-semibold mb-2">
+                    Photo Frame Size
+                  </label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="range"
+                      min="160"
+                      max="770"
+                      value={selected.size}
+                      onChange={(e) => updateLayer(selected.id, { size: Number(e.target.value) })}
+                      className={sliderClass}
+                    />
+                    <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                      {selected.size}px
+                    </span>
+                  </div>
+                </div>
+
+                <div className="mb-5 grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Shape</label>
+                    <select
+                      value={selected.shape}
+                      onChange={(e) => updateLayer(selected.id, { shape: e.target.value as ImageLayer["shape"] })}
+                      className="viro-input text-sm"
+                    >
+                      <option value="circle">Circle</option>
+                      <option value="square">Rounded square</option>
+                      <option value="cutout">Cutout (person)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Attendee label</label>
+                    <input
+                      type="text"
+                      value={selected.label ?? ""}
+                      onChange={(e) => updateLayer(selected.id, { label: e.target.value })}
+                      placeholder="Your photo"
+                      className="viro-input text-sm"
+                    />
+                  </div>
+                </div>
+
+                {selected.shape === "cutout" && (
+                  <p className="mb-5 text-xs text-[var(--viro-muted)]">
+                    The attendee&apos;s background is removed. Without the segmentation service the photo shows in a circle.
+                  </p>
+                )}
+
+                {/* Ring (silhouette outline for cutouts) */}
+                <div className="mb-5">
+                  <label className="flex items-center gap-2 text-sm font-semibold mb-2">
+                    <input
+                      type="checkbox"
+                      checked={!!selected.outline}
+                      onChange={(e) =>
+                        updateLayer(selected.id, { outline: e.target.checked ? { color: "#FFFFFF", width: 6 } : undefined })
+                      }
+                    />
+                    {selected.shape === "cutout" ? "Outline" : "Ring"}
+                  </label>
+                  {selected.outline && (
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="color"
+                        value={selected.outline.color.slice(0, 7)}
+                        onChange={(e) => updateLayer(selected.id, { outline: { ...selected.outline!, color: e.target.value } })}
+                        className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                      />
+                      <input
+                        type="range"
+                        min="1"
+                        max="30"
+                        value={selected.outline.width}
+                        onChange={(e) =>
+                          updateLayer(selected.id, { outline: { ...selected.outline!, width: Number(e.target.value) } })
+                        }
+                        className={sliderClass}
+                      />
+                      <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                        {selected.outline.width}px
+                      </span>
+                    </div>
+                  )}
+                  {selected.outline && selected.shape !== "cutout" && (
+                    <div className="mt-2 flex items-center gap-3">
+                      <label className="flex items-center gap-2 text-xs text-[var(--viro-muted)]">
+                        <input
+                          type="checkbox"
+                          checked={!!selected.outline.gradient}
+                          onChange={(e) =>
+                            updateLayer(selected.id, {
+                              outline: {
+                                ...selected.outline!,
+                                gradient: e.target.checked ? { color: "#FFD54F", angle: 90 } : undefined,
+                              },
+                            })
+                          }
+                        />
+                        Gradient
+                      </label>
+                      {selected.outline.gradient && (
+                        <>
+                          <input
+                            type="color"
+                            value={selected.outline.gradient.color.slice(0, 7)}
+                            onChange={(e) =>
+                              updateLayer(selected.id, {
+                                outline: { ...selected.outline!, gradient: { ...selected.outline!.gradient!, color: e.target.value } },
+                              })
+                            }
+                            className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                          />
+                          <input
+                            type="range"
+                            min="0"
+                            max="360"
+                            value={selected.outline.gradient.angle}
+                            onChange={(e) =>
+                              updateLayer(selected.id, {
+                                outline: {
+                                  ...selected.outline!,
+                                  gradient: { ...selected.outline!.gradient!, angle: Number(e.target.value) },
+                                },
+                              })
+                            }
+                            className={sliderClass}
+                          />
+                          <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                            {selected.outline.gradient.angle}°
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* Glow */}
+                <div className="mb-5">
+                  <label className="flex items-center gap-2 text-sm font-semibold mb-2">
+                    <input
+                      type="checkbox"
+                      checked={!!selected.glow}
+                      onChange={(e) =>
+                        updateLayer(selected.id, { glow: e.target.checked ? { color: "#FFFFFF", blur: 24 } : undefined })
+                      }
+                    />
+                    Glow
+                  </label>
+                  {selected.glow && (
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="color"
+                        value={selected.glow.color.slice(0, 7)}
+                        onChange={(e) => updateLayer(selected.id, { glow: { ...selected.glow!, color: e.target.value } })}
+                        className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                      />
+                      <input
+                        type="range"
+                        min="1"
+                        max="80"
+                        value={selected.glow.blur}
+                        onChange={(e) =>
+                          updateLayer(selected.id, { glow: { ...selected.glow!, blur: Number(e.target.value) } })
+                        }
+                        className={sliderClass}
+                      />
+                      <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                        {selected.glow.blur}px
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                {/* Frame overlay */}
+                <div className="mb-5">
+                  <label className="block text-sm font-semibold mb-2">Frame overlay (PNG)</label>
+                  <input
+                    type="file"
+                    accept="image/png"
+                    className="block w-full text-sm text-[var(--viro-muted)]
+                      file:mr-3 file:rounded-lg file:border-0
+                      file:bg-[var(--viro-border)] file:px-4 file:py-2
+                      file:text-white hover:file:opacity-90 file:cursor-pointer"
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      if (f) void onPickLayerAsset(selected, f);
+                    }}
+                  />
+                  {selected.frame && (
+                    <div className="mt-2 flex items-center gap-3">
+                      <span className="text-xs text-[var(--viro-muted)] w-16">Scale</span>
+                      <input
+                        type="range"
+                        min="50"
+                        max="200"
+                        value={Math.round(selected.frame.scale * 100)}
+                        onChange={(e) =>
+                          updateLayer(selected.id, { frame: { ...selected.frame!, scale: Number(e.target.value) / 100 } })
+                        }
+                        className={sliderClass}
+                      />
+                      <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                        {Math.round(selected.frame.scale * 100)}%
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => updateLayer(selected.id, { frame: undefined })}
+                        className="text-xs text-[var(--viro-muted)] hover:text-white"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Photo filter */}
+                <div className="mb-5">
+                  <label className="block text-sm font-semibold mb-2">Photo filter</label>
+                  <select
+                    value={selected.filter?.tone ?? "none"}
+                    onChange={(e) => updatePhotoFilter(selected, { tone: e.target.value as PhotoTone })}
+                    className="viro-input text-sm mb-3"
+                  >
+                    {(Object.keys(PHOTO_TONE_NAMES) as PhotoTone[]).map((t) => (
+                      <option key={t} value={t}>
+                        {PHOTO_TONE_NAMES[t]}
+                      </option>
+                    ))}
+                  </select>
+
+                  {selected.filter?.tone === "duotone" && selected.filter.duotone && (
+                    <div className="flex items-center gap-3 mb-3">
+                      {(
+                        [
+                          ["dark", "Shadows"],
+                          ["light", "Highlights"],
+                        ] as const
+                      ).map(([key, label]) => (
+                        <label key={key} className="flex items-center gap-2 text-xs text-[var(--viro-muted)]">
+                          <input
+                            type="color"
+                            value={selected.filter!.duotone![key].slice(0, 7)}
+                            onChange={(e) =>
+                              updatePhotoFilter(selected, { duotone: { ...selected.filter!.duotone!, [key]: e.target.value } })
+                            }
+                            className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    {(
+                      [
+                        ["brightness", "Brightness"],
+                        ["contrast", "Contrast"],
+                        ["saturation", "Saturation"],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <div key={key} className="flex items-center gap-3">
+                        <span className="text-xs text-[var(--viro-muted)] w-16">{label}</span>
+                        <input
+                          type="range"
+                          min="0"
+                          max="200"
+                          value={selected.filter?.[key] ?? 100}
+                          onChange={(e) => updatePhotoFilter(selected, { [key]: Number(e.target.value) })}
+                          className={sliderClass}
+                        />
+                        <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                          {selected.filter?.[key] ?? 100}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {selected?.kind === "text" && (
+              <>
+                {/* Font Size Control */}
+                <div className="mb-5">
+                  <label className="block text-sm font-semibold mb-2">
+                    Font Size
+                  </label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="range"
+                      min="16"
+                      max="140"
+                      value={selected.size}
+                      onChange={(e) => updateLayer(selected.id, { size: Number(e.target.value) })}
+                      className={sliderClass}
+                    />
+                    <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                      {selected.size}px
+                    </span>
+                  </div>
+                </div>
+
+                {/* Placeholder */}
+                <div className="mb-5">
+                  <label className="block text-sm font-semibold mb-2">
+                    Placeholder
+                  </label>
+                  <input
+                    type="text"
+                    value={selected.content ?? ""}
+                    onChange={(e) => updateLayer(selected.id, { content: e.target.value })}
+                    placeholder="YOUR NAME"
+                    maxLength={TEMPLATE_LIMITS.maxText}
+                    className="viro-input text-sm"
+                  />
+                  <div className="mt-1 text-xs text-[var(--viro-muted)]">
+                    Try a long name to check how it fits the box.
+                  </div>
+                </div>
+
+                {/* Fitting */}
+                <div className="mb-5">
+                  <label className="block text-sm font-semibold mb-2">Long text</label>
+                  <div className="grid grid-cols-2 gap-3 mb-3">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selected.autoFit ?? true}
+                        onChange={(e) => updateLayer(selected.id, { autoFit: e.target.checked })}
+                      />
+                      Shrink to fit
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selected.ellipsis ?? true}
+                        onChange={(e) => updateLayer(selected.id, { ellipsis: e.target.checked })}
+                      />
+                      Cut with …
+                    </label>
+                  </div>
+                  <div className="flex items-center gap-3 mb-3">
+                    <span className="text-xs text-[var(--viro-muted)] w-16">Lines</span>
+                    <input
+                      type="range"
+                      min="1"
+                      max="4"
+                      value={selected.maxLines ?? 1}
+                      onChange={(e) => updateLayer(selected.id, { maxLines: Number(e.target.value) })}
+                      className={sliderClass}
+                    />
+                    <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                      {selected.maxLines ?? 1}
+                    </span>
+                  </div>
+                  {(selected.autoFit ?? true) && (
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs text-[var(--viro-muted)] w-16">Min size</span>
+                      <input
+                        type="range"
+                        min="8"
+                        max={selected.size}
+                        value={Math.min(selected.minSize ?? Math.round(selected.size / 2), selected.size)}
+                        onChange={(e) => updateLayer(selected.id, { minSize: Number(e.target.value) })}
+                        className={sliderClass}
+                      />
+                      <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                        {Math.min(selected.minSize ?? Math.round(selected.size / 2), selected.size)}px
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                {/* Attendee input */}
+                <div className="mb-5 grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Attendee label</label>
+                    <input
+                      type="text"
+                      value={selected.label ?? ""}
+                      onChange={(e) => updateLayer(selected.id, { label: e.target.value })}
+                      placeholder="Your name"
+                      className="viro-input text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Field key</label>
+                    <input
+                      type="text"
+                      value={selected.field}
+                      onChange={(e) =>
+                        updateLayer(selected.id, {
+                          field: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "") || NAME_FIELD,
+                        })
+                      }
+                      className="viro-input text-sm font-mono"
+                    />
+                  </div>
+                </div>
+
+                {/* Font Color Picker */}
+                <div className="mb-5">
+                  <label className="block text-sm font-semibold mb-2">
+                    Font Color
+                  </label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="color"
+                      value={selected.color}
+                      onChange={(e) => updateLayer(selected.id, { color: e.target.value })}
+                      className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                    />
+                    <span className="text-sm font-mono text-[var(--viro-muted)] uppercase">
+                      {selected.color}
+                    </span>
+                  </div>
+                </div>
+
+                {/* Typeface */}
+                <div className="mb-5 grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Font</label>
+                    <select
+                      value={selectedFont.family}
+                      onChange={(e) => updateLayer(selected.id, { font: e.target.value })}
+                      className="viro-input text-sm"
+                      style={{ fontFamily: `"${selectedFont.family}", ${selectedFont.fallback}` }}
+                    >
+                      {POSTER_FONTS.map((f) => (
+                        <option key={f.family} value={f.family}>
+                          {f.family}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Weight</label>
+                    <select
+                      value={nearestFontWeight(selectedFont, selected.weight ?? DEFAULT_FONT_WEIGHT)}
+                      onChange={(e) => updateLayer(selected.id, { weight: Number(e.target.value) })}
+                      className="viro-input text-sm"
+                    >
+                      {selectedFont.weights.map((w) => (
+                        <option key={w} value={w}>
+                          {FONT_WEIGHT_NAMES[w] ?? w}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {/* Alignment + case */}
+                <div className="mb-5 grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Align</label>
+                    <div className="flex gap-1">
+                      {(["left", "center", "right"] as const).map((a) => (
+                        <button
+                          key={a}
+                          type="button"
+                          onClick={() => updateLayer(selected.id, { align: a })}
+                          className={`flex-1 rounded-lg border py-1.5 text-xs capitalize ${
+                            (selected.align ?? "center") === a
+                              ? "border-[var(--viro-primary)] bg-white/10"
+                              : "border-[var(--viro-border)] hover:bg-white/5"
+                          }`}
+                        >
+                          {a}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold mb-2">Case</label>
+                    <select
+                      value={selected.transform ?? "uppercase"}
+                      onChange={(e) => updateLayer(selected.id, { transform: e.target.value as TextTransform })}
+                      className="viro-input text-sm"
+                    >
+                      <option value="uppercase">UPPERCASE</option>
+                      <option value="lowercase">lowercase</option>
+                      <option value="none">As typed</option>
+                    </select>
+                  </div>
+                </div>
+
+                {/* Letter spacing */}
+                <div className="mb-5">
+                  <label className="block text-sm font-semibold mb-2">Letter Spacing</label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="range"
+                      min="-10"
+                      max="40"
+                      value={selected.letterSpacing ?? 0}
+                      onChange={(e) => updateLayer(selected.id, { letterSpacing: Number(e.target.value) })}
+                      className={sliderClass}
+                    />
+                    <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                      {selected.letterSpacing ?? 0}px
+                    </span>
+                  </div>
+                </div>
+
+                {/* Outline */}
+                <div className="mb-5">
+                  <label className="flex items-center gap-2 text-sm font-semibold mb-2">
+                    <input
+                      type="checkbox"
+                      checked={!!selected.stroke}
+                      onChange={(e) =>
+                        updateLayer(selected.id, { stroke: e.target.checked ? { color: "#000000", width: 4 } : undefined })
+                      }
+                    />
+                    Outline
+                  </label>
+                  {selected.stroke && (
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="color"
+                        value={selected.stroke.color.slice(0, 7)}
+                        onChange={(e) => updateLayer(selected.id, { stroke: { ...selected.stroke!, color: e.target.value } })}
+                        className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                      />
+                      <input
+                        type="range"
+                        min="1"
+                        max="20"
+                        value={selected.stroke.width}
+                        onChange={(e) =>
+                          updateLayer(selected.id, { stroke: { ...selected.stroke!, width: Number(e.target.value) } })
+                        }
+                        className={sliderClass}
+                      />
+                      <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                        {selected.stroke.width}px
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                {/* Shadow */}
+                <div className="mb-5">
+                  <label className="flex items-center gap-2 text-sm font-semibold mb-2">
+                    <input
+                      type="checkbox"
+                      checked={!!selected.shadow}
+                      onChange={(e) =>
+                        updateLayer(selected.id, {
+                          shadow: e.target.checked ? { color: "#000000", blur: 12, x: 0, y: 4 } : undefined,
+                        })
+                      }
+                    />
+                    Shadow
+                  </label>
+                  {selected.shadow && (
+                    <div className="space-y-2">
+                      <input
+                        type="color"
+                        value={selected.shadow.color.slice(0, 7)}
+                        onChange={(e) => updateLayer(selected.id, { shadow: { ...selected.shadow!, color: e.target.value } })}
+                        className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                      />
+                      {(
+                        [
+                          ["blur", "Blur", 0, 60],
+                          ["x", "Offset X", -30, 30],
+                          ["y", "Offset Y", -30, 30],
+                        ] as const
+                      ).map(([key, label, min, max]) => (
+                        <div key={key} className="flex items-center gap-3">
+                          <span className="text-xs text-[var(--viro-muted)] w-16">{label}</span>
+                          <input
+                            type="range"
+                            min={min}
+                            max={max}
+                            value={selected.shadow![key]}
+                            onChange={(e) =>
+                              updateLayer(selected.id, { shadow: { ...selected.shadow!, [key]: Number(e.target.value) } })
+                            }
+                            className={sliderClass}
+                          />
+                          <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                            {selected.shadow![key]}px
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            {(selected?.kind === "shape" || selected?.kind === "logo") && (
+              <>
+                {selected.kind === "logo" && (
+                  <div className="mb-5">
+                    <label className="block text-sm font-semibold mb-2">
+                      Logo image
+                    </label>
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="block w-full text-sm text-[var(--viro-muted)]
+                        file:mr-3 file:rounded-lg file:border-0
+                        file:bg-[var(--viro-border)] file:px-4 file:py-2
+                        file:text-white hover:file:opacity-90 file:cursor-pointer"
+                      onChange={(e) => {
+                        const f = e.target.files?.[0];
+                        if (f) void onPickLayerAsset(selected, f);
+                      }}
+                    />
+                  </div>
+                )}
+
+                {selected.kind === "shape" && (
+                  <div className="mb-5 grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-semibold mb-2">Shape</label>
+                      <select
+                        value={selected.shape}
+                        onChange={(e) => updateLayer(selected.id, { shape: e.target.value as "rect" | "ellipse" })}
+                        className="viro-input text-sm"
+                      >
+                        <option value="rect">Rectangle</option>
+                        <option value="ellipse">Ellipse</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold mb-2">Fill</label>
+                      <input
+                        type="color"
+                        value={selected.color}
+                        onChange={(e) => updateLayer(selected.id, { color: e.target.value })}
+                        className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {(
+                  [
+                    ["w", "Width"],
+                    ["h", "Height"],
+                    ...(selected.kind === "shape" ? [["opacity", "Opacity"]] : []),
+                  ] as ["w" | "h" | "opacity", string][]
+                ).map(([key, label]) => {
+                  const value = key === "opacity" ? (selected.kind === "shape" ? selected.opacity ?? 1 : 1) : selected[key];
+                  return (
+                    <div key={key} className="mb-5">
+                      <label className="block text-sm font-semibold mb-2">{label}</label>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="range"
+                          min={key === "opacity" ? 0 : 2}
+                          max="100"
+                          value={Math.round(value * 100)}
+                          onChange={(e) => updateLayer(selected.id, { [key]: Number(e.target.value) / 100 })}
+                          className={sliderClass}
+                        />
+                        <span className="text-sm font-mono text-[var(--viro-muted)] w-12 text-right">
+                          {Math.round(value * 100)}%
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </>
+            )}
+
+            {/* Publishing window */}
             <div className="mb-5">
               <label className="block text-sm font-semibold mb-2">
-                Name Placeholder
+                Publishing window <span className="font-normal text-[var(--viro-muted)]">(optional)</span>
               </label>
-              <input
-                type="text"
-                value={namePlaceholder}
-                onChange={(e) => handleNameChange(e.target.value)}
-                placeholder="YOUR NAME"
-                maxLength={maxNameLength}
-                className="viro-input text-sm"
-              />
-              <div className="mt-1 text-xs text-[var(--viro-muted)] text-right">
-                {namePlaceholder.length}/{maxNameLength} characters
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <div className="text-xs text-[var(--viro-muted)] mb-1">Opens</div>
+                  <input
+                    type="datetime-local"
+                    value={opensAt}
+                    onChange={(e) => setOpensAt(e.target.value)}
+                    className="viro-input text-sm"
+                  />
+                </div>
+                <div>
+                  <div className="text-xs text-[var(--viro-muted)] mb-1">Closes</div>
+                  <input
+                    type="datetime-local"
+                    value={closesAt}
+                    min={opensAt || undefined}
+                    onChange={(e) => setClosesAt(e.target.value)}
+                    className="viro-input text-sm"
+                  />
+                </div>
+              </div>
+              <div className="mt-1 text-xs text-[var(--viro-muted)]">
+                Applied when you publish. Leave empty to stay open.
               </div>
             </div>
 
-            {/* Font Color Picker */}
+            {/* Vanity code */}
             <div className="mb-5">
               <label className="block text-sm font-semibold mb-2">
-                Name Font Color
+                Custom link code <span className="font-normal text-[var(--viro-muted)]">(optional)</span>
               </label>
-              <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-[var(--viro-muted)]">/e/</span>
                 <input
-                  type="color"
-                  value={textColor}
-                  onChange={(e) => setTextColor(e.target.value)}
-                  className="w-10 h-10 rounded-lg border-2 border-[var(--viro-border)] bg-transparent cursor-pointer p-0.5"
+                  type="text"
+                  value={customCode}
+                  onChange={(e) => setCustomCode(e.target.value.toUpperCase().replace(/[^A-Z0-9-]/g, "").slice(0, 24))}
+                  placeholder={currentCode ?? "LIONS2026"}
+                  className="viro-input text-sm font-mono"
                 />
-                <span className="text-sm font-mono text-[var(--viro-muted)] uppercase">
-                  {textColor}
-                </span>
+              </div>
+              <div className="mt-1 text-xs text-[var(--viro-muted)]">
+                {customCode && publishedCode && customCode !== publishedCode
+                  ? "Changing the code breaks links and QR codes you already shared."
+                  : "Your link keeps the same code every time you publish."}
               </div>
             </div>
 
@@ -492,8 +1868,36 @@ export default function DraftEditor() {
                 className="w-full rounded-xl bg-[var(--viro-primary)] hover:bg-[var(--viro-primary-hover)]
                   text-black py-3 font-semibold transition disabled:opacity-50"
               >
-                {loading ? "Publishing..." : "Publish Event"}
+                {loading ? "Publishing..." : status === "published" ? "Update & Republish" : "Publish Event"}
               </button>
+
+              {(status === "published" || status === "unpublished") && (
+                <div className="grid grid-cols-2 gap-3">
+                  {status === "published" && (
+                    <button
+                      onClick={() => void changeLifecycle("unpublish")}
+                      disabled={loading || !eventId}
+                      className="rounded-xl bg-white/5 hover:bg-white/10 border border-[var(--viro-border)] py-2 text-sm transition disabled:opacity-50"
+                    >
+                      Unpublish
+                    </button>
+                  )}
+                  <button
+                    onClick={() => void changeLifecycle("archive")}
+                    disabled={loading || !eventId}
+                    className={`rounded-xl bg-white/5 hover:bg-white/10 border border-[var(--viro-border)] py-2 text-sm
+                      text-[var(--viro-danger)] transition disabled:opacity-50 ${status === "published" ? "" : "col-span-2"}`}
+                  >
+                    Archive
+                  </button>
+                </div>
+              )}
+
+              {status === "archived" && (
+                <div className="text-xs text-center text-[var(--viro-muted)]">
+                  Archived. Publish again to reopen the attendee page.
+                </div>
+              )}
             </div>
 
             {msg && (
@@ -534,12 +1938,16 @@ export default function DraftEditor() {
                 >
                   Open Attendee Page (optional)
                 </button>
+
+                <div className="mt-4 text-xs text-[var(--viro-muted)] mb-2">QR code &amp; print kit</div>
+                <ShareKitPanel eventCode={publishedCode} eventId={eventId} />
               </div>
             )}
 
             <div className="mt-6 text-sm text-[var(--viro-muted)] space-y-1">
               <div>• Drag corner handle to resize photo frame</div>
               <div>• Drag slots to position them</div>
+              <div>• Add text lines (role, seat…) and logos from Layers</div>
               <div>• Publish to get a share link</div>
             </div>
           </aside>
@@ -549,7 +1957,7 @@ export default function DraftEditor() {
             <div className="w-full">
               <div className="flex items-center justify-between mb-3">
                 <div className="text-sm text-[var(--viro-muted)]">
-                  Preview (420×420)
+                  Preview ({previewW}×{previewH})
                 </div>
                 <div className="text-xs text-[var(--viro-muted)]">
                   Tip: Keep the circle inside the frame
@@ -558,8 +1966,9 @@ export default function DraftEditor() {
 
               <div
                 ref={canvasRef}
-                className="mx-auto relative rounded-2xl shadow-2xl w-[420px] h-[420px]
+                className="mx-auto relative rounded-2xl shadow-2xl
                   overflow-hidden border border-[var(--viro-border)] bg-black/20"
+                style={{ width: previewW, height: previewH }}
               >
                 {bgPreviewUrl ? (
                   <img
@@ -573,38 +1982,120 @@ export default function DraftEditor() {
                   </div>
                 )}
 
-                {/* Photo slot - Resizable */}
-                <ResizableCircle
-                  x={photoPos.x}
-                  y={photoPos.y}
-                  size={photoSize}
-                  onMove={(x, y) => setPhotoPos({ x, y })}
-                  onResize={(newSize) => setPhotoSize(newSize)}
-                >
-                  <div
-                    className="w-full h-full rounded-full border-2 border-dashed border-[var(--viro-primary)]
-                      flex items-center justify-center text-xs text-[var(--viro-primary)] bg-black/35 backdrop-blur-sm"
-                  >
-                    Photo
-                  </div>
-                </ResizableCircle>
-
-                {/* Name slot */}
-                {/* Name slot */}
-                <Draggable
-                  nodeRef={dragRef}
-                  position={textPos}
-                  onStop={(_, data) => setTextPos({ x: data.x, y: data.y })}
-                  bounds="parent"
-                >
-                  <div
-                    ref={dragRef}
-                    className="absolute w-[280px] px-4 py-3 cursor-move font-semibold text-center hover:bg-white/5 transition-colors rounded-xl"
-                    style={{ fontSize: `${fontSize * 0.4}px`, color: textColor }}
-                  >
-                    {namePlaceholder || "YOUR NAME"}
-                  </div>
-                </Draggable>
+                {orderedLayers.map((l) => {
+                  const isSelected = l.id === selectedId;
+
+                  if (l.kind === "image") {
+                    // Photo slot - Resizable
+                    const size = Math.round(l.size * toPreview);
+                    return (
+                      <div key={l.id} onMouseDown={() => setSelectedId(l.id)}>
+                        <ResizableCircle
+                          x={l.x * previewW - size / 2}
+                          y={l.y * previewH - size / 2}
+                          size={size}
+                          onMove={(x, y) => updateLayer(l.id, { x: (x + size / 2) / previewW, y: (y + size / 2) / previewH })}
+                          onResize={(newSize) => updateLayer(l.id, { size: Math.round(newSize / toPreview) })}
+                        >
+                          <div
+                            className={`w-full h-full ${l.shape === "circle" ? "rounded-full" : l.shape === "square" ? "rounded-xl" : ""} border-2 border-dashed
+                              ${isSelected ? "border-[var(--viro-primary)]" : "border-white/50"}
+                              flex items-center justify-center text-xs text-[var(--viro-primary)] bg-black/35 backdrop-blur-sm`}
+                          >
+                            {l.label || "Photo"}
+                          </div>
+                          {hasPhotoSlotDecor(l) && (
+                            <PhotoSlotCanvas
+                              slot={{
+                                kind: "image",
+                                layer: l,
+                                x: l.x * outSize.width,
+                                y: l.y * outSize.height,
+                                size: l.size * outScale,
+                                r: (l.size * outScale) / 2,
+                              }}
+                              frameUrl={l.frame ? assetPreviews[l.id] : null}
+                              sizePx={size}
+                            />
+                          )}
+                        </ResizableCircle>
+                      </div>
+                    );
+                  }
+
+                  const w = l.w * previewW;
+                  const h = l.h * previewH;
+                  const ring = isSelected ? "ring-2 ring-[var(--viro-primary)]" : "hover:ring-1 hover:ring-white/30";
+
+                  return (
+                    <DraggableBox
+                      key={l.id}
+                      x={l.x * previewW - w / 2}
+                      y={l.y * previewH - h / 2}
+                      onStop={(x, y) => updateLayer(l.id, { x: (x + w / 2) / previewW, y: (y + h / 2) / previewH })}
+                    >
+                      <div
+                        onMouseDown={() => setSelectedId(l.id)}
+                        className={`flex items-center justify-center text-center font-semibold transition-colors rounded-md ${ring}`}
+                        style={{
+                          width: w,
+                          height: h,
+                          ...(l.kind === "shape"
+                            ? {
+                                background: l.color,
+                                opacity: l.opacity ?? 1,
+                                borderRadius: l.shape === "ellipse" ? "50%" : (l.radius ?? 0) * toPreview,
+                              }
+                            : {}),
+                        }}
+                      >
+                        {l.kind === "text" && (
+                          <PosterText
+                            box={{ layer: l, w: l.w * outSize.width, h: l.h * outSize.height, size: l.size * outScale }}
+                            value={l.content || l.label || "YOUR NAME"}
+                            scale={previewW / outSize.width}
+                          />
+                        )}
+                        {l.kind === "logo" &&
+                          (assetPreviews[l.id] ? (
+                            <img src={assetPreviews[l.id]} alt="logo" className="w-full h-full object-contain pointer-events-none" />
+                          ) : (
+                            <span className="text-[10px] text-white/60 border border-dashed border-white/40 rounded w-full h-full flex items-center justify-center">
+                              Logo
+                            </span>
+                          ))}
+                      </div>
+                    </DraggableBox>
+                  );
+                })}
+
+                {shownWatermark.kind !== "none" && (() => {
+                  const { v, h } = watermarkAnchor(shownWatermark.position);
+                  const m = WATERMARK_MARGIN * toPreview;
+                  const useLogo = shownWatermark.kind === "logo" && watermarkLogoUrl;
+                  return (
+                    <div
+                      className="absolute pointer-events-none text-white font-bold whitespace-nowrap"
+                      style={{
+                        left: h === "left" ? m : h === "center" ? "50%" : undefined,
+                        right: h === "right" ? m : undefined,
+                        top: v === "top" ? m : v === "center" ? "50%" : undefined,
+                        bottom: v === "bottom" ? m : undefined,
+                        transform: `translate(${h === "center" ? "-50%" : "0"}, ${v === "center" ? "-50%" : "0"})`,
+                        opacity: shownWatermark.opacity,
+                        fontFamily: "Arial, sans-serif",
+                        fontSize: shownWatermark.size * toPreview,
+                        lineHeight: 1,
+                      }}
+                    >
+                      {useLogo ? (
+                        <img src={watermarkLogoUrl} alt="watermark" style={{ width: shownWatermark.size * toPreview }} />
+                      ) : (
+                        shownWatermark.text || DEFAULT_WATERMARK.text
+                      )}
+                    </div>
+                  );
+                })()}
               </div>
             </div>
           </section>
@@ -1,42 +1,231 @@
+/**
+ * Layer geometry
+ * x/y are normalized (0..1) center coordinates in canvas space.
+ * z is the paint order: higher values are drawn on top.
+ */
+type LayerBase = {
+  id: string;
+  z: number;
+  x: number; // 0..1 center
+  y: number; // 0..1 center
+};
+
+/**
+ * Ring around a circle/square photo slot, or the outline of a cutout silhouette.
+ * width is px in design space (1080 wide, scaled to the canvas). With a gradient the ring runs
+ * from `color` to `gradient.color`; angle works like CSS linear-gradient
+ * (0 = bottom to top, 90 = left to right). Cutout outlines ignore the gradient.
+ */
+export type PhotoOutline = { color: string; width: number; gradient?: { color: string; angle: number } };
+
+/** Soft outer glow around the slot (or the cutout silhouette); blur is px in design space. */
+export type PhotoGlow = { color: string; blur: number };
+
+/** PNG drawn above the photo, centered on the slot; scale is relative to the slot size. */
+export type PhotoFrame = { src: string; scale: number };
+
+export type PhotoTone = "none" | "grayscale" | "sepia" | "duotone";
+
+/**
+ * Color grading for attendee photos. brightness/contrast/saturation are percentages
+ * (100 = unchanged) and apply first; the tone is applied on top. Duotone maps the
+ * photo's luminance from the dark color to the light one.
+ */
+export type PhotoFilter = {
+  tone: PhotoTone;
+  duotone?: { dark: string; light: string }; // duotone only
+  brightness: number; // 0..200
+  contrast: number; // 0..200
+  saturation: number; // 0..200
+};
+
+/**
+ * Attendee photo slot.
+ * size is DIAMETER in pixels in design space (1080 wide, scaled to the canvas).
+ * "cutout" draws only the person (background removed) inside the square slot,
+ * and falls back to a circle when segmentation is unavailable.
+ */
+export type ImageLayer = LayerBase & {
+  kind: "image";
+  label?: string; // prompt shown to attendees, e.g. "Your photo"
+  size: number; // px diameter (1080-space)
+  shape: "circle" | "square" | "cutout";
+  outline?: PhotoOutline;
+  glow?: PhotoGlow;
+  frame?: PhotoFrame; // storage path, like logo layers
+  filter?: PhotoFilter;
+};
+
+export type TextAlign = "left" | "center" | "right";
+export type TextTransform = "none" | "uppercase" | "lowercase";
+
+/** Outline drawn under the fill; width is px in design space (1080 wide, scaled to the canvas). */
+export type TextStroke = { color: string; width: number };
+
+/** Drop shadow; blur and offsets are px in design space (1080 wide, scaled to the canvas). */
+export type TextShadow = { color: string; blur: number; x: number; y: number };
+
+/**
+ * Attendee text slot, filled from the attendee input named `field`
+ * ("name" for the main name line, anything else for extra lines like role or seat).
+ * w/h are normalized fractions of the canvas.
+ * size is font size in pixels in design space (1080 wide, scaled to the canvas).
+ */
+export type TextLayer = LayerBase & {
+  kind: "text";
+  field: string;
+  label?: string; // input label shown to attendees
+  w: number; // 0..1 box width
+  h: number; // 0..1 box height
+  content?: string; // placeholder shown in previews
+  font?: string; // family from the bundled set (lib/poster/fonts.ts), default Poppins
+  weight?: number; // 100..900, snapped to the nearest bundled weight, default 800
+  color: string;
+  size: number; // px font size (1080-space)
+  letterSpacing?: number; // px (1080-space), default 0
+  align?: TextAlign; // inside the box, default center
+  transform?: TextTransform; // default uppercase
+  stroke?: TextStroke;
+  shadow?: TextShadow;
+  autoFit?: boolean; // shrink until the text fits the box, default true
+  minSize?: number; // px floor for autoFit (1080-space), default size / 2
+  maxLines?: number; // wrap onto up to N lines, default 1
+  ellipsis?: boolean; // cut text that still does not fit with "…", default true
+};
+
+/** Decorative fill drawn by the renderer (banners behind text, badges…). */
+export type ShapeLayer = LayerBase & {
+  kind: "shape";
+  shape: "rect" | "ellipse";
+  w: number; // 0..1
+  h: number; // 0..1
+  color: string;
+  opacity?: number; // 0..1, default 1
+  radius?: number; // px corner radius for rects (1080-space)
+};
+
+/**
+ * Fixed organizer image (sponsor logo, badge).
+ * src is a Supabase Storage path, like the background.
+ */
+export type LogoLayer = LayerBase & {
+  kind: "logo";
+  src: string;
+  w: number; // 0..1
+  h: number; // 0..1
+};
+
+export type Layer = ImageLayer | TextLayer | ShapeLayer | LogoLayer;
+export type LayerKind = Layer["kind"];
+
+/** Named output sizes organizers pick from (see `CANVAS_PRESETS`). */
+export type CanvasPresetId = "square" | "portrait" | "story" | "link" | "a5" | "a4";
+
+/**
+ * How attendee posters are exported.
+ * `scale` re-renders the image download at 2× or 3× the canvas size (e.g. for banners);
+ * `pdf` adds a print-ready PDF with `bleed` mm of background around the trim and optional crop marks.
+ */
+export type PosterExport = {
+  format: "jpeg" | "png";
+  scale: number; // 1 | 2 | 3
+  pdf?: { bleed: number; cropMarks: boolean };
+};
+
+export type WatermarkPosition = "bottom-center" | "bottom-left" | "bottom-right" | "top-left" | "top-right" | "center";
+
+/**
+ * Mark painted over every poster. size is the font size (text) or logo width (logo)
+ * in design px; `src` is a Storage path like logo layers. What the organizer's plan
+ * allows is applied when rendering (see `effectiveWatermark`), not when saving.
+ */
+export type PosterWatermark = {
+  kind: "text" | "logo" | "none";
+  text?: string; // text only
+  src?: string; // logo only
+  position: WatermarkPosition;
+  opacity: number; // 0..1
+  size: number; // px (1080-space)
+};
+
+/**
+ * Copy attendees share along with their poster. `message` may use the placeholders
+ * {name} (attendee name), {event} (event name) and {link} (event page); hashtags
+ * are stored without the leading #.
+ */
+export type PosterShare = {
+  message: string;
+  hashtags: string[];
+};
+
+/** Where a layer sits in a variant; missing fields keep the main layout's value. */
+export type LayerPlacement = {
+  x?: number;
+  y?: number;
+  size?: number; // image and text layers, design px
+  w?: number; // text, shape and logo layers, 0..1
+  h?: number;
+};
+
+/** Alternative layout: its own canvas, with layers placed per layer id. */
+export type TemplateVariant = {
+  id: string;
+  label: string;
+  canvas: { width: number; height: number; preset?: CanvasPresetId };
+  placements: Record<string, LayerPlacement>;
+};
+
 export type Template = {
-  /**
-   * Output canvas size.
-   * We standardize on 1080×1080 for consistent export + rendering.
-   */
-  canvas: { width: number; height: number };
+  version: 2;
 
   /**
-   * Photo placeholder
-   * x/y are normalized (0..1) center coordinates in canvas space.
-   * size is DIAMETER in pixels in OUTPUT canvas space (1080-based).
+   * Output canvas size in px; `preset` records which named size it came from.
+   * Layer sizes (px) are designed for a 1080 px wide canvas and scale with the width,
+   * so the same design works at 1080×1080 and at A4 print resolution.
    */
-  photo: {
-    x: number; // 0..1 center
-    y: number; // 0..1 center
-    size: number; // px diameter (1080-space)
-    shape: "circle" | "square";
-  };
+  canvas: { width: number; height: number; preset?: CanvasPresetId };
+
+  /** Slots and decorations, drawn over the background in `z` order. */
+  layers: Layer[];
 
   /**
-   * Name placeholder + text style
-   * x/y are normalized (0..1) center coordinates in canvas space.
-   * w/h are normalized fractions of the canvas.
-   * size is font size in pixels in OUTPUT canvas space (1080-based).
+   * Extra layouts of the same poster (e.g. a story next to the square post).
+   * They share the background, content and styling, and only move/resize layers.
    */
-  text: {
-    x: number; // 0..1 center
-    y: number; // 0..1 center
-    w: number; // 0..1 box width
-    h: number; // 0..1 box height
-    content?: string;
-    font?: string; // optional for now; can default in renderer
-    color: string;
-    size: number; // px font size (1080-space)
-  };
+  variants?: TemplateVariant[];
+
+  /** Download options; missing means a 1× JPEG. */
+  export?: PosterExport;
+
+  /** Missing means the default ViroEvents mark (`DEFAULT_WATERMARK`). */
+  watermark?: PosterWatermark;
+
+  /** Share message and hashtags; missing uses `DEFAULT_SHARE_MESSAGE` without hashtags. */
+  share?: PosterShare;
 
   /**
    * Background storage path (Supabase Storage path, not public URL).
-   * Example: events/<eventId>/background/original.jpg
+   * Example: events/<eventId>/background/1760882400000-1a2b3c4d.jpg (one file per upload)
    */
   background?: { url?: string };
 };
+
+/**
+ * Pre-layers template (one photo + one name slot) as still found in older `events.template` rows.
+ * Every field may be missing. Note `text.size` was stored at 3× the rendered size.
+ */
+export type LegacyTemplate = {
+  canvas?: { width?: number; height?: number };
+  photo?: { x?: number; y?: number; size?: number; shape?: "circle" | "square" };
+  text?: {
+    x?: number;
+    y?: number;
+    w?: number;
+    h?: number;
+    content?: string;
+    font?: string;
+    color?: string;
+    size?: number;
+  };
+  background?: { url?: string };
+};
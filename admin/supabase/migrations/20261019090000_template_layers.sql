@@ -0,0 +1,50 @@
+-- Convert single photo + single text templates into the layered model (version 2).
+-- Mirrors migrateLegacyTemplate() in src/lib/template.ts: sizes are rescaled to
+-- 1080-space and the legacy 3x text size is undone. Rows that already have
+-- `layers` are left untouched, so the migration can be re-run safely.
+
+with legacy as (
+  select
+    id,
+    template,
+    1080.0 / coalesce(nullif((template #>> '{canvas,width}')::numeric, 0), 1080) as scale
+  from public.events
+  where template is not null
+    and jsonb_typeof(template) = 'object'
+    and not (template ? 'layers')
+)
+update public.events e
+set template = jsonb_build_object(
+  'version', 2,
+  'canvas', jsonb_build_object('width', 1080, 'height', 1080),
+  'background', jsonb_build_object('url', coalesce(l.template #>> '{background,url}', '')),
+  'layers', jsonb_build_array(
+    jsonb_build_object(
+      'id', 'photo',
+      'kind', 'image',
+      'z', 0,
+      'label', 'Your photo',
+      'x', coalesce((l.template #>> '{photo,x}')::numeric, 0.5),
+      'y', coalesce((l.template #>> '{photo,y}')::numeric, 0.35),
+      'size', round(coalesce((l.template #>> '{photo,size}')::numeric, 220) * l.scale),
+      'shape', case when l.template #>> '{photo,shape}' = 'square' then 'square' else 'circle' end
+    ),
+    jsonb_build_object(
+      'id', 'name',
+      'kind', 'text',
+      'z', 1,
+      'field', 'name',
+      'label', 'Your name',
+      'x', coalesce((l.template #>> '{text,x}')::numeric, 0.5),
+      'y', coalesce((l.template #>> '{text,y}')::numeric, 0.78),
+      'w', coalesce((l.template #>> '{text,w}')::numeric, 0.82),
+      'h', coalesce((l.template #>> '{text,h}')::numeric, 0.14),
+      'content', coalesce(l.template #>> '{text,content}', 'YOUR NAME'),
+      'font', coalesce(l.template #>> '{text,font}', 'Poppins'),
+      'color', coalesce(l.template #>> '{text,color}', '#FFD54F'),
+      'size', round(coalesce((l.template #>> '{text,size}')::numeric, 44) / 3 * l.scale)
+    )
+  )
+)
+from legacy l
+where e.id = l.id;
@@ -0,0 +1,31 @@
+-- Every template save is kept as a revision so organizers can diff and restore
+-- earlier layouts from the draft editor. Written by the API with the service role;
+-- owners can read their own event's history directly.
+
+create table if not exists public.template_revisions (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  author_id uuid references auth.users(id) on delete set null,
+  author_email text,
+  template jsonb not null,
+  background_path text,
+  note text
+);
+
+create index if not exists template_revisions_event_created_idx
+  on public.template_revisions (event_id, created_at desc);
+
+alter table public.template_revisions enable row level security;
+
+drop policy if exists "Owners read template revisions" on public.template_revisions;
+create policy "Owners read template revisions"
+  on public.template_revisions
+  for select
+  using (
+    exists (
+      select 1 from public.events e
+      where e.id = template_revisions.event_id
+        and e.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,20 @@
+-- Event lifecycle: unpublish / archive and an optional publishing window.
+-- status: 'draft' | 'published' | 'unpublished' | 'archived'
+-- `published` stays the flag public readers filter on; the window is enforced in the API.
+
+alter table public.events
+  add column if not exists publish_at timestamptz,
+  add column if not exists expires_at timestamptz,
+  add column if not exists archived_at timestamptz;
+
+update public.events
+set status = 'published'
+where published = true
+  and (status is null or status = 'draft');
+
+alter table public.events
+  drop constraint if exists events_publish_window_check;
+
+alter table public.events
+  add constraint events_publish_window_check
+  check (publish_at is null or expires_at is null or expires_at > publish_at);
@@ -0,0 +1,12 @@
+-- Event codes are public link ids and may now be chosen by organizers (vanity codes),
+-- so uniqueness is enforced by the database, not only by the API pre-check.
+-- Codes are stored upper-case; lookups normalize input the same way.
+
+update public.events
+set event_code = upper(event_code)
+where event_code is not null
+  and event_code <> upper(event_code);
+
+create unique index if not exists events_event_code_unique
+  on public.events (event_code)
+  where event_code is not null;
@@ -0,0 +1,21 @@
+-- Templates can define several layouts (variants) of the same poster, e.g. a square
+-- post and a story. Each download records which one was made; rows written before
+-- variants existed count as the main layout.
+
+alter table public.event_downloads
+  add column if not exists variant text;
+
+create index if not exists event_downloads_code_variant_idx
+  on public.event_downloads (event_code, variant);
+
+create or replace function public.vf_downloads_by_variant(p_event_code text)
+returns table (variant text, downloads bigint)
+language sql
+stable
+as $$
+  select coalesce(d.variant, 'main') as variant, count(*) as downloads
+  from public.event_downloads d
+  where d.event_code = p_event_code
+  group by 1
+  order by 2 desc;
+$$;
@@ -0,0 +1,17 @@
+-- Organizer plans gate paid features such as removing or replacing the poster
+-- watermark. One row per organizer; no row means the free plan. Written by billing
+-- with the service role; organizers can read their own plan.
+
+create table if not exists public.organizer_plans (
+  owner_id uuid primary key references auth.users(id) on delete cascade,
+  plan text not null default 'free' check (plan in ('free', 'pro')),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.organizer_plans enable row level security;
+
+drop policy if exists "Organizers read own plan" on public.organizer_plans;
+create policy "Organizers read own plan"
+  on public.organizer_plans
+  for select
+  using (owner_id = auth.uid());
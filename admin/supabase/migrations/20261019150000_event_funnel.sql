@@ -0,0 +1,52 @@
+-- Attendee funnel: page view -> photo chosen -> poster generated -> downloaded -> shared.
+-- One row per step reached in a browser session (the attendee page sends a random
+-- session id). `source` is the utm_source or referrer the session arrived with,
+-- `device` is derived from the user agent; share rows also record the channel.
+-- `event_downloads` stays the download counter; this table only feeds conversion stats.
+
+create table if not exists public.event_funnel_events (
+  id bigint generated always as identity primary key,
+  event_id uuid references public.events(id) on delete cascade,
+  event_code text not null,
+  session_id text not null,
+  step text not null check (step in ('page_view', 'photo_chosen', 'poster_generated', 'downloaded', 'shared')),
+  channel text check (channel in ('whatsapp', 'native', 'copy_link', 'instagram')),
+  source text not null default 'direct',
+  device text not null default 'unknown' check (device in ('mobile', 'tablet', 'desktop', 'unknown')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists event_funnel_events_code_created_idx
+  on public.event_funnel_events (event_code, created_at);
+
+-- Written and read only through the API with the service role
+alter table public.event_funnel_events enable row level security;
+
+-- Sessions reaching each step since p_since, split by source and device.
+-- A session keeps the source and device it arrived with, so the groups do not overlap.
+create or replace function public.vf_funnel(p_event_code text, p_since timestamptz)
+returns table (source text, device text, step text, sessions bigint)
+language sql
+stable
+as $$
+  select f.source, f.device, f.step, count(distinct f.session_id) as sessions
+  from public.event_funnel_events f
+  where f.event_code = p_event_code
+    and f.created_at >= p_since
+  group by 1, 2, 3;
+$$;
+
+create or replace function public.vf_share_channels(p_event_code text, p_since timestamptz)
+returns table (channel text, shares bigint)
+language sql
+stable
+as $$
+  select f.channel, count(*) as shares
+  from public.event_funnel_events f
+  where f.event_code = p_event_code
+    and f.step = 'shared'
+    and f.channel is not null
+    and f.created_at >= p_since
+  group by 1
+  order by 2 desc;
+$$;
@@ -0,0 +1,123 @@
+-- Analytics over arbitrary date ranges, bucketed in the organizer's time zone.
+-- Ranges are calendar days [p_from, p_to] (inclusive) in p_tz; the bounds become
+-- instants with `at time zone`, so a day starts at local midnight.
+-- The funnel functions switch from a `since` instant to the same range arguments.
+
+-- Downloads per local day or hour, one row per bucket (empty buckets included).
+-- Buckets follow wall-clock time: on a DST change the repeated hour is merged
+-- and the skipped hour shows 0.
+create or replace function public.vf_downloads_series(
+  p_event_code text,
+  p_from date,
+  p_to date,
+  p_tz text,
+  p_bucket text
+)
+returns table (bucket text, downloads bigint)
+language sql
+stable
+as $$
+  with buckets as (
+    select generate_series(
+      p_from::timestamp,
+      (p_to + 1)::timestamp - ('1 ' || p_bucket)::interval,
+      ('1 ' || p_bucket)::interval
+    ) as local_start
+  ),
+  counts as (
+    select date_trunc(p_bucket, d.created_at at time zone p_tz) as local_start, count(*) as downloads
+    from public.event_downloads d
+    where d.event_code = p_event_code
+      and d.created_at >= (p_from::timestamp at time zone p_tz)
+      and d.created_at < ((p_to + 1)::timestamp at time zone p_tz)
+    group by 1
+  )
+  select
+    to_char(b.local_start, case when p_bucket = 'hour' then 'YYYY-MM-DD"T"HH24:00' else 'YYYY-MM-DD' end) as bucket,
+    coalesce(c.downloads, 0) as downloads
+  from buckets b
+  left join counts c using (local_start)
+  order by b.local_start;
+$$;
+
+drop function if exists public.vf_funnel(text, timestamptz);
+drop function if exists public.vf_share_channels(text, timestamptz);
+
+create or replace function public.vf_funnel(p_event_code text, p_from date, p_to date, p_tz text)
+returns table (source text, device text, step text, sessions bigint)
+language sql
+stable
+as $$
+  select f.source, f.device, f.step, count(distinct f.session_id) as sessions
+  from public.event_funnel_events f
+  where f.event_code = p_event_code
+    and f.created_at >= (p_from::timestamp at time zone p_tz)
+    and f.created_at < ((p_to + 1)::timestamp at time zone p_tz)
+  group by 1, 2, 3;
+$$;
+
+create or replace function public.vf_share_channels(p_event_code text, p_from date, p_to date, p_tz text)
+returns table (channel text, shares bigint)
+language sql
+stable
+as $$
+  select f.channel, count(*) as shares
+  from public.event_funnel_events f
+  where f.event_code = p_event_code
+    and f.step = 'shared'
+    and f.channel is not null
+    and f.created_at >= (p_from::timestamp at time zone p_tz)
+    and f.created_at < ((p_to + 1)::timestamp at time zone p_tz)
+  group by 1
+  order by 2 desc;
+$$;
+
+-- Raw rows for CSV/JSON exports, with the local time next to the UTC instant.
+-- Callers page through these with limit/offset (ordered by time).
+create or replace function public.vf_downloads_raw(p_event_code text, p_from date, p_to date, p_tz text)
+returns table (created_at timestamptz, local_time text, variant text)
+language sql
+stable
+as $$
+  select
+    d.created_at,
+    to_char(d.created_at at time zone p_tz, 'YYYY-MM-DD HH24:MI:SS') as local_time,
+    coalesce(d.variant, 'main') as variant
+  from public.event_downloads d
+  where d.event_code = p_event_code
+    and d.created_at >= (p_from::timestamp at time zone p_tz)
+    and d.created_at < ((p_to + 1)::timestamp at time zone p_tz)
+  order by d.created_at;
+$$;
+
+create or replace function public.vf_funnel_raw(p_event_code text, p_from date, p_to date, p_tz text)
+returns table (
+  created_at timestamptz,
+  local_time text,
+  session_id text,
+  step text,
+  channel text,
+  source text,
+  device text
+)
+language sql
+stable
+as $$
+  select
+    f.created_at,
+    to_char(f.created_at at time zone p_tz, 'YYYY-MM-DD HH24:MI:SS') as local_time,
+    f.session_id,
+    f.step,
+    f.channel,
+    f.source,
+    f.device
+  from public.event_funnel_events f
+  where f.event_code = p_event_code
+    and f.created_at >= (p_from::timestamp at time zone p_tz)
+    and f.created_at < ((p_to + 1)::timestamp at time zone p_tz)
+  order by f.created_at, f.id;
+$$;
+
+-- Range queries filter on event_downloads.created_at
+create index if not exists event_downloads_code_created_idx
+  on public.event_downloads (event_code, created_at);
@@ -0,0 +1,63 @@
+-- Organizer overview: numbers for every event of one owner, for the dashboard.
+-- Downloads and funnel rows are matched to events by event_code, like the per-event
+-- analytics, so both pages agree. Range arguments work as in vf_downloads_series.
+
+create or replace function public.vf_owner_event_totals(p_owner_id uuid, p_from date, p_to date, p_tz text)
+returns table (event_id uuid, total_downloads bigint, range_downloads bigint)
+language sql
+stable
+as $$
+  select
+    e.id as event_id,
+    count(d.event_code) as total_downloads,
+    count(d.event_code) filter (
+      where d.created_at >= (p_from::timestamp at time zone p_tz)
+        and d.created_at < ((p_to + 1)::timestamp at time zone p_tz)
+    ) as range_downloads
+  from public.events e
+  left join public.event_downloads d on d.event_code = e.event_code
+  where e.owner_id = p_owner_id
+  group by e.id;
+$$;
+
+-- Downloads per event and local day; days without downloads are left out
+-- (the API fills them in).
+create or replace function public.vf_owner_downloads_daily(p_owner_id uuid, p_from date, p_to date, p_tz text)
+returns table (event_id uuid, day text, downloads bigint)
+language sql
+stable
+as $$
+  select
+    e.id as event_id,
+    to_char(date_trunc('day', d.created_at at time zone p_tz), 'YYYY-MM-DD') as day,
+    count(*) as downloads
+  from public.events e
+  join public.event_downloads d on d.event_code = e.event_code
+  where e.owner_id = p_owner_id
+    and d.created_at >= (p_from::timestamp at time zone p_tz)
+    and d.created_at < ((p_to + 1)::timestamp at time zone p_tz)
+  group by 1, 2
+  order by 1, 2;
+$$;
+
+create or replace function public.vf_owner_funnel(p_owner_id uuid, p_from date, p_to date, p_tz text)
+returns table (event_id uuid, step text, sessions bigint)
+language sql
+stable
+as $$
+  select e.id as event_id, f.step, count(distinct f.session_id) as sessions
+  from public.events e
+  join public.event_funnel_events f on f.event_code = e.event_code
+  where e.owner_id = p_owner_id
+    and f.created_at >= (p_from::timestamp at time zone p_tz)
+    and f.created_at < ((p_to + 1)::timestamp at time zone p_tz)
+  group by 1, 2
+  order by 1, 2;
+$$;
+
+create index if not exists events_owner_id_idx on public.events (owner_id);
+
+-- These take any owner id, so only the service role (the overview API) may call them
+revoke execute on function public.vf_owner_event_totals(uuid, date, date, text) from public, anon, authenticated;
+revoke execute on function public.vf_owner_downloads_daily(uuid, date, date, text) from public, anon, authenticated;
+revoke execute on function public.vf_owner_funnel(uuid, date, date, text) from public, anon, authenticated;
@@ -0,0 +1,21 @@
+-- Read-only analytics report links. Organizers share /analytics/<code>?report=<token>
+-- with sponsors instead of their login. The token is `<id>.<signature>`, an HMAC of
+-- the row id and event id made with ANALYTICS_REPORT_SECRET, so only the id is stored;
+-- setting revoked_at (or passing expires_at) disables the link.
+
+create table if not exists public.analytics_report_links (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events(id) on delete cascade,
+  created_by uuid references auth.users(id) on delete set null,
+  label text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  last_used_at timestamptz
+);
+
+create index if not exists analytics_report_links_event_idx
+  on public.analytics_report_links (event_id, created_at desc);
+
+-- Managed and checked only through the API with the service role
+alter table public.analytics_report_links enable row level security;
@@ -1,8 +1,9 @@
 from fastapi import FastAPI, UploadFile, File, HTTPException
+from fastapi.responses import Response
 from fastapi.middleware.cors import CORSMiddleware
 import mediapipe as mp
 import numpy as np
-from PIL import Image
+from PIL import Image, ImageOps
 import io
 
 app = FastAPI()
@@ -17,6 +18,7 @@ app.add_middleware(
 )
 
 mp_face_detection = mp.solutions.face_detection
+mp_selfie_segmentation = mp.solutions.selfie_segmentation
 
 @app.get("/")
 def read_root():
@@ -31,6 +33,8 @@ async def detect_face(file: UploadFile = File(...)):
         # Read image
         contents = await file.read()
         image = Image.open(io.BytesIO(contents))
+        # Apply the EXIF orientation so the face box matches what the browser shows
+        image = ImageOps.exif_transpose(image)
         
         # Convert to RGB (MediaPipe requirement)
         if image.mode != "RGB":
@@ -76,6 +80,45 @@ async def detect_face(file: UploadFile = File(...)):
         print(f"Error processing image: {e}")
         return {"ok": False, "error": str(e)}
 
+@app.post("/segment")
+async def segment(file: UploadFile = File(...)):
+    """Returns the photo as an RGBA PNG of the same size with the background made transparent."""
+    if not file.content_type.startswith("image/"):
+        raise HTTPException(status_code=400, detail="File must be an image")
+
+    try:
+        contents = await file.read()
+        image = Image.open(io.BytesIO(contents))
+
+        # Apply the EXIF orientation so the cutout lines up with what the browser shows
+        image = ImageOps.exif_transpose(image)
+
+        if image.mode != "RGB":
+            image = image.convert("RGB")
+
+        img_np = np.array(image)
+
+        # model_selection=0 is the general (square input) model, better on portraits
+        with mp_selfie_segmentation.SelfieSegmentation(model_selection=0) as selfie_segmentation:
+            results = selfie_segmentation.process(img_np)
+
+        if results.segmentation_mask is None:
+            raise HTTPException(status_code=422, detail="No person found")
+
+        # Soft mask (0.0 to 1.0) becomes the alpha channel
+        alpha = (np.clip(results.segmentation_mask, 0.0, 1.0) * 255).astype(np.uint8)
+        rgba = np.dstack([img_np, alpha])
+
+        out = io.BytesIO()
+        Image.fromarray(rgba, "RGBA").save(out, format="PNG")
+        return Response(content=out.getvalue(), media_type="image/png")
+
+    except HTTPException:
+        raise
+    except Exception as e:
+        print(f"Error segmenting image: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
 if __name__ == "__main__":
     import uvicorn
     uvicorn.run(app, host="0.0.0.0", port=8000)